@@ -0,0 +1,235 @@
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type ArvoContract from '..';
+import {
+  ArvoDataContentType,
+  ArvoExtensionSchema,
+  CloudEventContextSchema,
+  OpenTelemetryExtensionSchema,
+} from '../../ArvoEvent/schema';
+import type { ArvoSemanticVersion } from '../../types';
+import { EventDataschemaUtil } from '../../utils';
+import { WildCardArvoSemanticVersion } from '../WildCardArvoSemanticVersion';
+import type {
+  AsyncApiDocument,
+  AsyncApiMessage,
+  AsyncApiReference,
+  AsyncApiSchema,
+  CreateAsyncApiDocumentParam,
+} from './types';
+
+/**
+ * The name of the shared CloudEvents headers schema in the document components
+ */
+const CLOUDEVENT_HEADERS_SCHEMA = 'ArvoCloudEventHeaders';
+
+/**
+ * Converts a zod schema to a self-contained JSON schema which can be embedded
+ * in the AsyncAPI document (no `$schema` keyword and no root relative `$ref`)
+ */
+const toEmbeddedJsonSchema = (schema: z.ZodTypeAny): AsyncApiSchema => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema as any, { $refStrategy: 'none' }) as AsyncApiSchema;
+  return jsonSchema;
+};
+
+/**
+ * AsyncAPI component keys must match `^[a-zA-Z0-9.\-_]+$`
+ */
+const toComponentKey = (...parts: string[]) => parts.join('-').replace(/[^a-zA-Z0-9.\-_]/g, '_');
+
+/**
+ * Creates a resolver of the keys of one AsyncAPI component map. As the characters which are not
+ * allowed in a key are replaced, distinct names can map to the same key (e.g. the contract uris
+ * `#/a/b` and `#/a_b`). A later name then gets a numeric suffix instead of overwriting the earlier
+ * component. The same name always resolves to the same key.
+ */
+const createComponentKeyResolver = () => {
+  const keys = new Map<string, string>();
+  const usedKeys = new Set<string>();
+  return (...parts: string[]): string => {
+    const name = JSON.stringify(parts);
+    const existing = keys.get(name);
+    if (existing) return existing;
+    const baseKey = toComponentKey(...parts);
+    let key = baseKey;
+    for (let suffix = 2; usedKeys.has(key); suffix++) {
+      key = `${baseKey}_${suffix}`;
+    }
+    keys.set(name, key);
+    usedKeys.add(key);
+    return key;
+  };
+};
+
+/**
+ * The CloudEvents context attributes along with the Arvo and OpenTelemetry extensions
+ * which are carried as the headers of every Arvo message
+ */
+const createCloudEventHeadersSchema = (): AsyncApiSchema => {
+  const { datacontenttype, ...context } = CloudEventContextSchema.shape;
+  const headers = toEmbeddedJsonSchema(
+    CloudEventContextSchema.extend({ datacontenttype: datacontenttype.removeDefault() })
+      .extend(ArvoExtensionSchema.shape)
+      .extend(OpenTelemetryExtensionSchema.shape)
+      .describe('The CloudEvents context attributes with the Arvo and OpenTelemetry extensions'),
+  );
+  return {
+    ...headers,
+    required: [...Object.keys(context), 'datacontenttype'],
+  };
+};
+
+/**
+ * Creates the headers schema of a message, pinning the event type and dataschema
+ */
+const createMessageHeaders = (type: string, dataschema: string): AsyncApiSchema => ({
+  allOf: [
+    { $ref: `#/components/schemas/${CLOUDEVENT_HEADERS_SCHEMA}` },
+    {
+      type: 'object',
+      properties: {
+        type: { type: 'string', const: type },
+        dataschema: { type: 'string', const: dataschema },
+      },
+      required: ['type', 'dataschema'],
+    },
+  ],
+});
+
+/**
+ * Creates an AsyncAPI 3.0 document describing one or many Arvo contracts.
+ *
+ * The document is written from the perspective of the handlers implementing the contracts:
+ * - Every event type (accepted, emitted and system error) gets a channel whose address is the event type.
+ * - Every contract version contributes a message per event type, where the payload is the JSON schema
+ *   of the event data and the headers are the CloudEvents attributes with the Arvo extensions. The
+ *   `dataschema` header of the message is pinned to `{uri}/{version}`.
+ * - The system error message is version independent and uses the wildcard version in its `dataschema`.
+ * - Every contract gets a `receive` operation for its accepted event type and a `send` operation for
+ *   each emitted event type and its system error.
+ * - The contract domain is mapped to a message tag (`domain:{domain}`) and the contract uri, version and
+ *   metadata are mapped to the `x-arvo-contract` and `x-arvo-metadata` extensions.
+ *
+ * @param contracts - The contract or the list of contracts to describe
+ * @param [param] - The document information. The title defaults to the contract uri
+ * for a single contract and the version defaults to '1.0.0'
+ *
+ * @returns The AsyncAPI 3.0 document as a plain JSON serialisable object
+ *
+ * @throws {Error} If no contracts are provided or the same contract uri is provided more than once
+ *
+ * @example
+ * ```typescript
+ * const document = createAsyncApiDocument([userContract, orderContract], {
+ *   title: 'Commerce services',
+ *   version: '2.1.0',
+ * });
+ * fs.writeFileSync('asyncapi.json', JSON.stringify(document, null, 2));
+ * ```
+ */
+export const createAsyncApiDocument = (
+  contracts: ArvoContract | ArvoContract[],
+  param?: CreateAsyncApiDocumentParam,
+): AsyncApiDocument => {
+  const contractList = Array.isArray(contracts) ? contracts : [contracts];
+  if (!contractList.length) {
+    throw new Error('At least one ArvoContract is required to create an AsyncAPI document');
+  }
+  const seenUris = new Set<string>();
+  for (const contract of contractList) {
+    if (seenUris.has(contract.uri)) {
+      throw new Error(`The contract (uri=${contract.uri}) is provided more than once for the AsyncAPI document`);
+    }
+    seenUris.add(contract.uri);
+  }
+
+  const document: AsyncApiDocument = {
+    asyncapi: '3.0.0',
+    info: {
+      title: param?.title ?? (contractList.length === 1 ? contractList[0].uri : 'Arvo contracts'),
+      version: param?.version ?? '1.0.0',
+      ...(param?.description ? { description: param.description } : {}),
+    },
+    defaultContentType: ArvoDataContentType,
+    channels: {},
+    operations: {},
+    components: {
+      schemas: {
+        [CLOUDEVENT_HEADERS_SCHEMA]: createCloudEventHeadersSchema(),
+      },
+      messages: {},
+    },
+  };
+
+  const channelKey = createComponentKeyResolver();
+  const messageKey = createComponentKeyResolver();
+  const operationKey = createComponentKeyResolver();
+
+  const addMessage = (
+    contract: ArvoContract,
+    type: string,
+    version: ArvoSemanticVersion,
+    schema: z.ZodTypeAny,
+  ): AsyncApiReference => {
+    const channel = channelKey(type);
+    const key = messageKey(type, contract.uri, version);
+    const dataschema = EventDataschemaUtil.build(contract.uri, version);
+    const message: AsyncApiMessage = {
+      name: type,
+      title: `${type} (${dataschema})`,
+      ...(contract.description ? { summary: contract.description } : {}),
+      contentType: ArvoDataContentType,
+      headers: createMessageHeaders(type, dataschema),
+      payload: toEmbeddedJsonSchema(schema),
+      correlationId: {
+        description: 'The Arvo event subject which correlates all the events of a process',
+        location: '$message.header#/subject',
+      },
+      tags: contract.domain ? [{ name: `domain:${contract.domain}`, description: 'The Arvo event domain' }] : [],
+      'x-arvo-contract': { uri: contract.uri, version, dataschema },
+      ...(contract.metadata ? { 'x-arvo-metadata': contract.metadata } : {}),
+    };
+    document.components.messages[key] = message;
+    document.channels[channel] ??= { address: type, title: type, messages: {} };
+    document.channels[channel].messages[key] = { $ref: `#/components/messages/${key}` };
+    return { $ref: `#/channels/${channel}/messages/${key}` };
+  };
+
+  const addOperation = (
+    contract: ArvoContract,
+    action: 'send' | 'receive',
+    type: string,
+    messages: AsyncApiReference[],
+  ) => {
+    document.operations[operationKey(contract.uri, action, type)] = {
+      action,
+      title: `${action === 'receive' ? 'Receive' : 'Send'} ${type}`,
+      ...(contract.description ? { summary: contract.description } : {}),
+      channel: { $ref: `#/channels/${channelKey(type)}` },
+      messages,
+      'x-arvo-contract': { uri: contract.uri },
+    };
+  };
+
+  for (const contract of contractList) {
+    const acceptMessages: AsyncApiReference[] = [];
+    const emitMessages: Record<string, AsyncApiReference[]> = {};
+    for (const version of contract.getSortedVersionNumbers('ASC')) {
+      const versionedContract = contract.version(version);
+      acceptMessages.push(addMessage(contract, contract.type, version, versionedContract.accepts.schema));
+      for (const [type, schema] of Object.entries(versionedContract.emits as Record<string, z.ZodTypeAny>)) {
+        emitMessages[type] ??= [];
+        emitMessages[type].push(addMessage(contract, type, version, schema));
+      }
+    }
+    addOperation(contract, 'receive', contract.type, acceptMessages);
+    for (const [type, messages] of Object.entries(emitMessages)) {
+      addOperation(contract, 'send', type, messages);
+    }
+    addOperation(contract, 'send', contract.systemError.type, [
+      addMessage(contract, contract.systemError.type, WildCardArvoSemanticVersion, contract.systemError.schema),
+    ]);
+  }
+
+  return document;
+};
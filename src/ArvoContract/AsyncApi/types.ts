@@ -0,0 +1,72 @@
+/**
+ * A JSON Schema object as embedded in an AsyncAPI document
+ */
+export type AsyncApiSchema = Record<string, any>;
+
+/**
+ * A reference object of an AsyncAPI document
+ */
+export type AsyncApiReference = { $ref: string };
+
+/**
+ * An AsyncAPI 3.0 message object
+ */
+export type AsyncApiMessage = {
+  name: string;
+  title: string;
+  summary?: string;
+  contentType: string;
+  headers: AsyncApiSchema;
+  payload: AsyncApiSchema;
+  correlationId: { description: string; location: string };
+  tags: { name: string; description?: string }[];
+  [extension: `x-${string}`]: unknown;
+};
+
+/**
+ * An AsyncAPI 3.0 document, restricted to the parts produced from Arvo contracts
+ */
+export type AsyncApiDocument = {
+  asyncapi: '3.0.0';
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  defaultContentType: string;
+  channels: Record<
+    string,
+    {
+      address: string;
+      title: string;
+      messages: Record<string, AsyncApiReference>;
+    }
+  >;
+  operations: Record<
+    string,
+    {
+      action: 'send' | 'receive';
+      title: string;
+      summary?: string;
+      channel: AsyncApiReference;
+      messages: AsyncApiReference[];
+      [extension: `x-${string}`]: unknown;
+    }
+  >;
+  components: {
+    schemas: Record<string, AsyncApiSchema>;
+    messages: Record<string, AsyncApiMessage>;
+  };
+};
+
+/**
+ * The options for creating an AsyncAPI document from Arvo contracts
+ */
+export type CreateAsyncApiDocumentParam = {
+  /** The title of the AsyncAPI document. Defaults to the contract uri for a single contract */
+  title?: string;
+  /** The version of the AsyncAPI document (i.e. of the API, not the spec). Defaults to '1.0.0' */
+  version?: string;
+  /** The description of the AsyncAPI document */
+  description?: string;
+};
@@ -0,0 +1,136 @@
+import type { z } from 'zod';
+import { compareSemanticVersions, parseSemanticVersion } from '../../utils';
+import type { VersionedArvoContract } from '../VersionedArvoContract';
+import type {
+  ArvoContractChange,
+  ArvoContractCompatibilityLevel,
+  ArvoContractCompatibilityReport,
+  ArvoContractVersionBump,
+} from './types';
+import { CHANGE_IMPACT, compareZodSchemas } from './utils';
+
+const BUMP_RANK: Record<Exclude<ArvoContractVersionBump, 'downgrade'>, number> = {
+  none: 0,
+  patch: 1,
+  minor: 2,
+  major: 3,
+};
+
+/**
+ * Resolves the semantic version bump between two versions
+ */
+const resolveVersionBump = (
+  from: VersionedArvoContract<any, any>['version'],
+  to: VersionedArvoContract<any, any>['version'],
+): ArvoContractVersionBump => {
+  const comparison = compareSemanticVersions(to, from);
+  if (comparison === 0) return 'none';
+  if (comparison < 0) return 'downgrade';
+  const previous = parseSemanticVersion(from);
+  const next = parseSemanticVersion(to);
+  if (next.major !== previous.major) return 'major';
+  if (next.minor !== previous.minor) return 'minor';
+  return 'patch';
+};
+
+/**
+ * Checks the compatibility between two versions of a contract (or two contracts with
+ * the same uri) by walking their zod `accepts` and `emits` schemas. The changes are
+ * classified following the schema registry semantics, where `BACKWARD` compatibility
+ * means the new version can read events produced against the old version and `FORWARD`
+ * compatibility means the old version can read events produced against the new version.
+ *
+ * The report also validates the semantic version bump between the two versions. Changes
+ * which satisfy the compatibility `policy` require at least a minor bump, all other changes
+ * require a major bump and identical schemas require no bump.
+ *
+ * @param from - The old versioned contract
+ * @param to - The new versioned contract
+ * @param [policy] - The compatibility level which a non-major bump must keep. Defaults to 'FULL'
+ *
+ * @returns The compatibility report with all the detected changes
+ *
+ * @throws {Error} If the two contracts do not have the same uri
+ *
+ * @example
+ * ```typescript
+ * const report = checkArvoContractCompatibility(contract.version('1.0.0'), contract.version('1.1.0'));
+ * if (!report.versionBump.valid) {
+ *   throw new Error(`A '${report.versionBump.required}' version bump is required`);
+ * }
+ * ```
+ */
+export const checkArvoContractCompatibility = (
+  from: VersionedArvoContract<any, any>,
+  to: VersionedArvoContract<any, any>,
+  policy: Exclude<ArvoContractCompatibilityLevel, 'NONE'> = 'FULL',
+): ArvoContractCompatibilityReport => {
+  if (from.uri !== to.uri) {
+    throw new Error(`Cannot check the compatibility of contracts with different uris (from=${from.uri}, to=${to.uri})`);
+  }
+
+  const changes: ArvoContractChange[] = [];
+  if (from.accepts.type !== to.accepts.type) {
+    changes.push({
+      kind: 'ACCEPT_TYPE_CHANGED',
+      record: 'accepts',
+      eventType: to.accepts.type,
+      path: '',
+      message: `The accept event type changed from '${from.accepts.type}' to '${to.accepts.type}'`,
+      ...CHANGE_IMPACT.ACCEPT_TYPE_CHANGED,
+    });
+  } else {
+    compareZodSchemas(from.accepts.schema, to.accepts.schema, '', {
+      record: 'accepts',
+      eventType: to.accepts.type,
+      changes,
+    });
+  }
+
+  for (const [eventType, schema] of Object.entries(from.emits as Record<string, z.ZodTypeAny>)) {
+    if (!(eventType in to.emits)) {
+      changes.push({
+        kind: 'EMIT_TYPE_REMOVED',
+        record: 'emits',
+        eventType,
+        path: '',
+        message: `The emit event type '${eventType}' was removed`,
+        ...CHANGE_IMPACT.EMIT_TYPE_REMOVED,
+      });
+      continue;
+    }
+    compareZodSchemas(schema, to.emits[eventType], '', { record: 'emits', eventType, changes });
+  }
+  for (const eventType of Object.keys(to.emits)) {
+    if (eventType in from.emits) continue;
+    changes.push({
+      kind: 'EMIT_TYPE_ADDED',
+      record: 'emits',
+      eventType,
+      path: '',
+      message: `The emit event type '${eventType}' was added`,
+      ...CHANGE_IMPACT.EMIT_TYPE_ADDED,
+    });
+  }
+
+  const backward = changes.every((item) => item.backward);
+  const forward = changes.every((item) => item.forward);
+  const compatibility: ArvoContractCompatibilityLevel =
+    backward && forward ? 'FULL' : backward ? 'BACKWARD' : forward ? 'FORWARD' : 'NONE';
+
+  const satisfiesPolicy = compatibility === 'FULL' || compatibility === policy;
+  const required = !changes.length ? 'none' : satisfiesPolicy ? 'minor' : 'major';
+  const actual = resolveVersionBump(from.version, to.version);
+
+  return {
+    from: { uri: from.uri, version: from.version },
+    to: { uri: to.uri, version: to.version },
+    compatibility,
+    changes,
+    versionBump: {
+      actual,
+      required,
+      valid: actual !== 'downgrade' && BUMP_RANK[actual] >= BUMP_RANK[required],
+    },
+  };
+};
@@ -0,0 +1,83 @@
+import type { ArvoSemanticVersion } from '../../types';
+
+/**
+ * The compatibility level between two versions of a contract, following the
+ * schema registry semantics:
+ * - `FULL`: Both `BACKWARD` and `FORWARD` compatible
+ * - `BACKWARD`: The new version can read the events produced against the old version
+ * - `FORWARD`: The old version can read the events produced against the new version
+ * - `NONE`: Neither backward nor forward compatible
+ */
+export type ArvoContractCompatibilityLevel = 'FULL' | 'BACKWARD' | 'FORWARD' | 'NONE';
+
+/**
+ * The semantic version bump between two contract versions. `none` means the versions
+ * are equal and `downgrade` means the new version is lower than the old version.
+ */
+export type ArvoContractVersionBump = 'major' | 'minor' | 'patch' | 'none' | 'downgrade';
+
+/**
+ * The kind of a change detected between two versions of a contract.
+ */
+export type ArvoContractChangeKind =
+  | 'ACCEPT_TYPE_CHANGED'
+  | 'EMIT_TYPE_ADDED'
+  | 'EMIT_TYPE_REMOVED'
+  | 'FIELD_ADDED'
+  | 'REQUIRED_FIELD_ADDED'
+  | 'FIELD_REMOVED'
+  | 'REQUIRED_FIELD_REMOVED'
+  | 'FIELD_MADE_REQUIRED'
+  | 'FIELD_MADE_OPTIONAL'
+  | 'TYPE_CHANGED'
+  | 'TYPE_NARROWED'
+  | 'TYPE_WIDENED'
+  | 'ENUM_VALUES_ADDED'
+  | 'ENUM_VALUES_REMOVED';
+
+/**
+ * Represents a single change detected between two versions of a contract.
+ */
+export type ArvoContractChange = {
+  /** The kind of the change */
+  kind: ArvoContractChangeKind;
+  /** The contract record the change belongs to */
+  record: 'accepts' | 'emits';
+  /** The event type of the record */
+  eventType: string;
+  /**
+   * The dot separated path of the changed field within the event data. An empty
+   * string refers to the data root. Array items are denoted by `[]` and record
+   * values by `*` (e.g. 'items.[].tags.*').
+   */
+  path: string;
+  /** A human-readable description of the change */
+  message: string;
+  /** True if the change keeps the new version able to read the events of the old version */
+  backward: boolean;
+  /** True if the change keeps the old version able to read the events of the new version */
+  forward: boolean;
+};
+
+/**
+ * The result of comparing two versions of a contract.
+ */
+export type ArvoContractCompatibilityReport = {
+  /** The contract version compared from */
+  from: { uri: string; version: ArvoSemanticVersion };
+  /** The contract version compared to */
+  to: { uri: string; version: ArvoSemanticVersion };
+  /** The overall compatibility level of all the changes */
+  compatibility: ArvoContractCompatibilityLevel;
+  /** All the detected changes */
+  changes: ArvoContractChange[];
+  /** The semantic version bump validation of the change */
+  versionBump: {
+    /** The actual bump between the compared versions */
+    actual: ArvoContractVersionBump;
+    /** The minimum bump required by the changes under the compatibility policy */
+    required: Exclude<ArvoContractVersionBump, 'downgrade'>;
+    /** True if the actual bump satisfies the required bump */
+    valid: boolean;
+  };
+};
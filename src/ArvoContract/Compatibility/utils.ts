@@ -0,0 +1,401 @@
+import { ZodFirstPartyTypeKind, type z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ArvoContractChange, ArvoContractChangeKind } from './types';
+
+/**
+ * The backward and forward compatibility impact of each change kind
+ */
+export const CHANGE_IMPACT: Record<ArvoContractChangeKind, { backward: boolean; forward: boolean }> = {
+  ACCEPT_TYPE_CHANGED: { backward: false, forward: false },
+  EMIT_TYPE_ADDED: { backward: true, forward: false },
+  EMIT_TYPE_REMOVED: { backward: false, forward: true },
+  FIELD_ADDED: { backward: true, forward: true },
+  REQUIRED_FIELD_ADDED: { backward: false, forward: true },
+  FIELD_REMOVED: { backward: true, forward: true },
+  REQUIRED_FIELD_REMOVED: { backward: true, forward: false },
+  FIELD_MADE_REQUIRED: { backward: false, forward: true },
+  FIELD_MADE_OPTIONAL: { backward: true, forward: false },
+  TYPE_CHANGED: { backward: false, forward: false },
+  TYPE_NARROWED: { backward: false, forward: true },
+  TYPE_WIDENED: { backward: true, forward: false },
+  ENUM_VALUES_ADDED: { backward: true, forward: false },
+  ENUM_VALUES_REMOVED: { backward: false, forward: true },
+};
+
+/**
+ * Guards against infinitely recursive (lazy) schemas
+ */
+const MAX_DEPTH = 32;
+
+/**
+ * The location of the schema being compared and the sink of the detected changes
+ */
+type CompareContext = {
+  record: ArvoContractChange['record'];
+  eventType: string;
+  changes: ArvoContractChange[];
+};
+
+type UnwrappedZodType = {
+  schema: z.ZodTypeAny;
+  optional: boolean;
+  nullable: boolean;
+};
+
+type ZodCheck = { kind: string; value?: unknown; [key: string]: unknown };
+
+const typeName = (schema: z.ZodTypeAny): ZodFirstPartyTypeKind => schema._def.typeName;
+
+/**
+ * Removes the modifiers and wrappers (optional, nullable, default, effects etc.) of a zod
+ * schema and reports whether the value may be absent or null.
+ */
+export const unwrapZodType = (schema: z.ZodTypeAny): UnwrappedZodType => {
+  let current = schema;
+  let optional = false;
+  let nullable = false;
+  for (let i = 0; i < MAX_DEPTH; i++) {
+    const def = current._def;
+    switch (def.typeName) {
+      case ZodFirstPartyTypeKind.ZodOptional:
+      case ZodFirstPartyTypeKind.ZodDefault:
+        optional = true;
+        current = def.innerType;
+        break;
+      case ZodFirstPartyTypeKind.ZodNullable:
+        nullable = true;
+        current = def.innerType;
+        break;
+      case ZodFirstPartyTypeKind.ZodCatch:
+      case ZodFirstPartyTypeKind.ZodReadonly:
+        current = def.innerType;
+        break;
+      case ZodFirstPartyTypeKind.ZodEffects:
+        current = def.schema;
+        break;
+      case ZodFirstPartyTypeKind.ZodBranded:
+        current = def.type;
+        break;
+      case ZodFirstPartyTypeKind.ZodPipeline:
+        current = def.in;
+        break;
+      case ZodFirstPartyTypeKind.ZodLazy:
+        current = def.getter();
+        break;
+      default:
+        return { schema: current, optional, nullable };
+    }
+  }
+  return { schema: current, optional, nullable };
+};
+
+/**
+ * Returns the enumerated values of an enum-like zod schema, or null if it is not enum-like
+ */
+const enumValues = (schema: z.ZodTypeAny): unknown[] | null => {
+  if (typeName(schema) === ZodFirstPartyTypeKind.ZodEnum) {
+    return [...schema._def.values];
+  }
+  if (typeName(schema) === ZodFirstPartyTypeKind.ZodNativeEnum) {
+    const values: Record<string, unknown> = schema._def.values;
+    // Numeric native enums contain reverse mappings which must be removed
+    return Object.keys(values)
+      .filter((key) => typeof values[values[key] as string] !== 'number')
+      .map((key) => values[key]);
+  }
+  return null;
+};
+
+/**
+ * Returns the primitive JSON type name of scalar zod schemas (including enums and literals)
+ */
+const primitiveOf = (schema: z.ZodTypeAny): string | null => {
+  switch (typeName(schema)) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return 'string';
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return 'number';
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return 'boolean';
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return typeof schema._def.value;
+    case ZodFirstPartyTypeKind.ZodEnum:
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      const types = Array.from(new Set((enumValues(schema) ?? []).map((item) => typeof item)));
+      return types.length === 1 ? types[0] : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Returns the validation checks (e.g. min, max, email) of a zod schema
+ */
+const checksOf = (schema: z.ZodTypeAny): ZodCheck[] => {
+  const def = schema._def;
+  if (typeName(schema) === ZodFirstPartyTypeKind.ZodArray) {
+    const checks: (ZodCheck | null)[] = [
+      def.minLength ? { kind: 'min', value: def.minLength.value } : null,
+      def.maxLength ? { kind: 'max', value: def.maxLength.value } : null,
+      def.exactLength ? { kind: 'length', value: def.exactLength.value } : null,
+    ];
+    return checks.filter((item): item is ZodCheck => Boolean(item));
+  }
+  return Array.isArray(def.checks) ? def.checks : [];
+};
+
+/**
+ * Creates a stable signature of a schema for structural equality checks
+ */
+export const schemaSignature = (schema: z.ZodTypeAny): string =>
+  JSON.stringify(zodToJsonSchema(schema as any, { $refStrategy: 'none' }));
+
+const stringifyChecks = (checks: ZodCheck[]) =>
+  JSON.stringify(checks, (_, value) => (value instanceof RegExp ? value.toString() : value));
+
+const pathOf = (path: string, segment: string) => (path ? `${path}.${segment}` : segment);
+
+const describePath = (path: string) => (path ? `'${path}'` : 'the data root');
+
+const addChange = (context: CompareContext, kind: ArvoContractChangeKind, path: string, message: string) => {
+  context.changes.push({
+    kind,
+    record: context.record,
+    eventType: context.eventType,
+    path,
+    message,
+    ...CHANGE_IMPACT[kind],
+  });
+};
+
+/**
+ * Compares the allowed value sets of enum-like schemas
+ */
+const compareValues = (before: unknown[], after: unknown[], path: string, context: CompareContext) => {
+  const removed = before.filter((item) => !after.includes(item));
+  const added = after.filter((item) => !before.includes(item));
+  if (removed.length) {
+    addChange(
+      context,
+      'ENUM_VALUES_REMOVED',
+      path,
+      `Value(s) ${removed.map((item) => JSON.stringify(item)).join(', ')} were removed from ${describePath(path)}`,
+    );
+  }
+  if (added.length) {
+    addChange(
+      context,
+      'ENUM_VALUES_ADDED',
+      path,
+      `Value(s) ${added.map((item) => JSON.stringify(item)).join(', ')} were added to ${describePath(path)}`,
+    );
+  }
+};
+
+/**
+ * Compares the validation checks of two schemas of the same type. Tighter bounds
+ * and new checks narrow the type, looser bounds and removed checks widen it.
+ */
+const compareChecks = (previous: z.ZodTypeAny, next: z.ZodTypeAny, path: string, context: CompareContext) => {
+  const group = (checks: ZodCheck[]) => {
+    const grouped: Record<string, ZodCheck[]> = {};
+    for (const { message, ...check } of checks) {
+      grouped[check.kind] = [...(grouped[check.kind] ?? []), check as ZodCheck];
+    }
+    return grouped;
+  };
+  const previousChecks = group(checksOf(previous));
+  const nextChecks = group(checksOf(next));
+  for (const kind of Array.from(new Set([...Object.keys(previousChecks), ...Object.keys(nextChecks)]))) {
+    const before = previousChecks[kind];
+    const after = nextChecks[kind];
+    if (!before) {
+      addChange(context, 'TYPE_NARROWED', path, `Constraint '${kind}' was added to ${describePath(path)}`);
+    } else if (!after) {
+      addChange(context, 'TYPE_WIDENED', path, `Constraint '${kind}' was removed from ${describePath(path)}`);
+    } else if (stringifyChecks(before) !== stringifyChecks(after)) {
+      const beforeValue = before[0].value;
+      const afterValue = after[0].value;
+      if ((kind === 'min' || kind === 'max') && typeof beforeValue === 'number' && typeof afterValue === 'number') {
+        const narrowed = kind === 'min' ? afterValue > beforeValue : afterValue < beforeValue;
+        addChange(
+          context,
+          narrowed ? 'TYPE_NARROWED' : 'TYPE_WIDENED',
+          path,
+          `Constraint '${kind}' of ${describePath(path)} changed from ${beforeValue} to ${afterValue}`,
+        );
+      } else {
+        addChange(context, 'TYPE_CHANGED', path, `Constraint '${kind}' of ${describePath(path)} was changed`);
+      }
+    }
+  }
+};
+
+/**
+ * Recursively compares two zod schemas and records the detected changes in the context.
+ *
+ * @param previous - The schema of the old contract version
+ * @param next - The schema of the new contract version
+ * @param path - The path of the compared schemas within the event data
+ * @param context - The location of the compared schemas and the sink of the detected changes
+ * @param depth - The current recursion depth
+ */
+export const compareZodSchemas = (
+  previous: z.ZodTypeAny,
+  next: z.ZodTypeAny,
+  path: string,
+  context: CompareContext,
+  depth = 0,
+): void => {
+  if (depth > MAX_DEPTH) return;
+  const before = unwrapZodType(previous);
+  const after = unwrapZodType(next);
+
+  if (before.nullable && !after.nullable) {
+    addChange(context, 'TYPE_NARROWED', path, `${describePath(path)} is no longer nullable`);
+  } else if (!before.nullable && after.nullable) {
+    addChange(context, 'TYPE_WIDENED', path, `${describePath(path)} became nullable`);
+  }
+
+  const beforeType = typeName(before.schema);
+  const afterType = typeName(after.schema);
+  const isOpen = (type: ZodFirstPartyTypeKind) =>
+    type === ZodFirstPartyTypeKind.ZodAny || type === ZodFirstPartyTypeKind.ZodUnknown;
+
+  if (beforeType !== afterType) {
+    if (isOpen(afterType)) {
+      addChange(context, 'TYPE_WIDENED', path, `${describePath(path)} was widened to accept any value`);
+      return;
+    }
+    if (isOpen(beforeType)) {
+      addChange(context, 'TYPE_NARROWED', path, `${describePath(path)} was narrowed from accepting any value`);
+      return;
+    }
+    const beforePrimitive = primitiveOf(before.schema);
+    const afterPrimitive = primitiveOf(after.schema);
+    if (beforePrimitive && beforePrimitive === afterPrimitive) {
+      // e.g. string -> enum narrows the type, and enum -> string widens it
+      const beforeIsGeneral =
+        beforeType === ZodFirstPartyTypeKind.ZodString || beforeType === ZodFirstPartyTypeKind.ZodNumber;
+      const afterIsGeneral =
+        afterType === ZodFirstPartyTypeKind.ZodString || afterType === ZodFirstPartyTypeKind.ZodNumber;
+      if (beforeIsGeneral && !afterIsGeneral) {
+        addChange(context, 'TYPE_NARROWED', path, `${describePath(path)} was narrowed to a fixed set of values`);
+        return;
+      }
+      if (!beforeIsGeneral && afterIsGeneral) {
+        addChange(context, 'TYPE_WIDENED', path, `${describePath(path)} was widened from a fixed set of values`);
+        return;
+      }
+      const beforeValues = enumValues(before.schema) ?? [before.schema._def.value];
+      const afterValues = enumValues(after.schema) ?? [after.schema._def.value];
+      compareValues(beforeValues, afterValues, path, context);
+      return;
+    }
+    addChange(
+      context,
+      'TYPE_CHANGED',
+      path,
+      `The type of ${describePath(path)} changed from ${beforeType.replace('Zod', '')} to ${afterType.replace('Zod', '')}`,
+    );
+    return;
+  }
+
+  const beforeDef = before.schema._def;
+  const afterDef = after.schema._def;
+  switch (beforeType) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const beforeShape: Record<string, z.ZodTypeAny> = (before.schema as z.AnyZodObject).shape;
+      const afterShape: Record<string, z.ZodTypeAny> = (after.schema as z.AnyZodObject).shape;
+      for (const key of Object.keys(beforeShape)) {
+        const fieldPath = pathOf(path, key);
+        const beforeOptional = unwrapZodType(beforeShape[key]).optional;
+        if (!(key in afterShape)) {
+          addChange(
+            context,
+            beforeOptional ? 'FIELD_REMOVED' : 'REQUIRED_FIELD_REMOVED',
+            fieldPath,
+            `${beforeOptional ? 'Optional' : 'Required'} field '${fieldPath}' was removed`,
+          );
+          continue;
+        }
+        const afterOptional = unwrapZodType(afterShape[key]).optional;
+        if (beforeOptional && !afterOptional) {
+          addChange(context, 'FIELD_MADE_REQUIRED', fieldPath, `Optional field '${fieldPath}' became required`);
+        } else if (!beforeOptional && afterOptional) {
+          addChange(context, 'FIELD_MADE_OPTIONAL', fieldPath, `Required field '${fieldPath}' became optional`);
+        }
+        compareZodSchemas(beforeShape[key], afterShape[key], fieldPath, context, depth + 1);
+      }
+      for (const key of Object.keys(afterShape)) {
+        if (key in beforeShape) continue;
+        const fieldPath = pathOf(path, key);
+        const afterOptional = unwrapZodType(afterShape[key]).optional;
+        addChange(
+          context,
+          afterOptional ? 'FIELD_ADDED' : 'REQUIRED_FIELD_ADDED',
+          fieldPath,
+          `${afterOptional ? 'Optional' : 'Required'} field '${fieldPath}' was added`,
+        );
+      }
+      return;
+    }
+    case ZodFirstPartyTypeKind.ZodArray:
+      compareChecks(before.schema, after.schema, path, context);
+      compareZodSchemas(beforeDef.type, afterDef.type, pathOf(path, '[]'), context, depth + 1);
+      return;
+    case ZodFirstPartyTypeKind.ZodRecord:
+      compareZodSchemas(beforeDef.valueType, afterDef.valueType, pathOf(path, '*'), context, depth + 1);
+      return;
+    case ZodFirstPartyTypeKind.ZodTuple: {
+      const length = Math.max(beforeDef.items.length, afterDef.items.length);
+      if (beforeDef.items.length !== afterDef.items.length) {
+        addChange(
+          context,
+          'TYPE_CHANGED',
+          path,
+          `The tuple length of ${describePath(path)} changed from ${beforeDef.items.length} to ${afterDef.items.length}`,
+        );
+        return;
+      }
+      for (let i = 0; i < length; i++) {
+        compareZodSchemas(beforeDef.items[i], afterDef.items[i], pathOf(path, String(i)), context, depth + 1);
+      }
+      return;
+    }
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      compareZodSchemas(beforeDef.left, afterDef.left, path, context, depth + 1);
+      compareZodSchemas(beforeDef.right, afterDef.right, path, context, depth + 1);
+      return;
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const beforeOptions: string[] = beforeDef.options.map(schemaSignature);
+      const afterOptions: string[] = afterDef.options.map(schemaSignature);
+      const removed = beforeOptions.filter((item) => !afterOptions.includes(item)).length;
+      const added = afterOptions.filter((item) => !beforeOptions.includes(item)).length;
+      if (removed) {
+        addChange(context, 'TYPE_NARROWED', path, `${removed} union option(s) were removed from ${describePath(path)}`);
+      }
+      if (added) {
+        addChange(context, 'TYPE_WIDENED', path, `${added} union option(s) were added to ${describePath(path)}`);
+      }
+      return;
+    }
+    case ZodFirstPartyTypeKind.ZodEnum:
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      compareValues(enumValues(before.schema) ?? [], enumValues(after.schema) ?? [], path, context);
+      return;
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      compareValues([beforeDef.value], [afterDef.value], path, context);
+      return;
+    case ZodFirstPartyTypeKind.ZodString:
+    case ZodFirstPartyTypeKind.ZodNumber:
+    case ZodFirstPartyTypeKind.ZodBigInt:
+    case ZodFirstPartyTypeKind.ZodDate:
+      compareChecks(before.schema, after.schema, path, context);
+      return;
+    default:
+      return;
+  }
+};
@@ -0,0 +1,234 @@
+import type { z } from 'zod';
+import type ArvoContract from '..';
+import { checkArvoContractCompatibility } from '../Compatibility';
+import type { ArvoContractCompatibilityLevel } from '../Compatibility/types';
+import type { VersionedArvoContract } from '../VersionedArvoContract';
+import type { ArvoContractDocumentationBlock, CreateArvoContractDocumentationParam } from './types';
+import { createHeadingSlugger, getDocumentationFields, renderHtml, renderMarkdown } from './utils';
+
+const code = (text: string) => `\`${text}\``;
+
+/**
+ * Creates the field table of an event data schema
+ */
+const createFieldBlocks = (schema: z.ZodTypeAny): ArvoContractDocumentationBlock[] => {
+  const fields = getDocumentationFields(schema);
+  if (!fields.length) {
+    return [{ kind: 'paragraph', text: 'The event data has no fields.' }];
+  }
+  return [
+    {
+      kind: 'table',
+      headers: ['Field', 'Type', 'Required', 'Constraints', 'Description'],
+      rows: fields.map((item) => [
+        code(item.path),
+        code(item.type),
+        item.required ? 'Yes' : 'No',
+        item.constraints.map(code).join(', '),
+        item.description ?? '',
+      ]),
+    },
+  ];
+};
+
+/**
+ * Creates the section of an event type of a contract version
+ */
+const createEventBlocks = (
+  title: string,
+  type: string,
+  dataschema: string,
+  schema: z.ZodTypeAny,
+): ArvoContractDocumentationBlock[] => [
+  { kind: 'heading', level: 4, text: `${title} ${code(type)}` },
+  { kind: 'paragraph', text: `Dataschema: ${code(dataschema)}` },
+  ...createFieldBlocks(schema),
+];
+
+/**
+ * Creates the section of a contract version
+ */
+const createVersionBlocks = (contract: VersionedArvoContract<any, any>): ArvoContractDocumentationBlock[] => {
+  const blocks: ArvoContractDocumentationBlock[] = [{ kind: 'heading', level: 3, text: `Version ${contract.version}` }];
+  const lifecycle = contract.lifecycle;
+  if (lifecycle?.deprecated) {
+    blocks.push({
+      kind: 'note',
+      text: [
+        `Deprecated.${lifecycle.reason ? ` ${lifecycle.reason}` : ''}`,
+        ...(lifecycle.sunset ? [`Sunset: ${lifecycle.sunset}${lifecycle.enforceSunset ? ' (enforced)' : ''}`] : []),
+        ...(lifecycle.replacement ? [`Replacement: ${code(lifecycle.replacement)}`] : []),
+      ].join('\n'),
+    });
+  }
+  blocks.push(...createEventBlocks('Accepts', contract.accepts.type, contract.dataschema, contract.accepts.schema));
+  for (const [type, schema] of Object.entries(contract.emits as Record<string, z.ZodTypeAny>)) {
+    blocks.push(...createEventBlocks('Emits', type, contract.dataschema, schema));
+  }
+  blocks.push(
+    ...createEventBlocks(
+      'System error',
+      contract.systemError.type,
+      contract.systemError.dataschema,
+      contract.systemError.schema,
+    ),
+  );
+  return blocks;
+};
+
+/**
+ * Creates the changelog of a contract from the compatibility reports between its consecutive versions
+ */
+const createChangelogBlocks = (
+  contract: ArvoContract,
+  policy: Exclude<ArvoContractCompatibilityLevel, 'NONE'>,
+): ArvoContractDocumentationBlock[] => {
+  const versions = contract.getSortedVersionNumbers('ASC');
+  if (versions.length < 2) return [];
+  const blocks: ArvoContractDocumentationBlock[] = [{ kind: 'heading', level: 3, text: 'Changelog' }];
+  for (let i = versions.length - 1; i > 0; i--) {
+    const report = checkArvoContractCompatibility(
+      contract.version(versions[i - 1]),
+      contract.version(versions[i]),
+      policy,
+    );
+    const { actual, required, valid } = report.versionBump;
+    blocks.push(
+      { kind: 'heading', level: 4, text: `${versions[i - 1]} → ${versions[i]}` },
+      {
+        kind: 'paragraph',
+        text: `Compatibility: ${code(report.compatibility)}. Version bump: ${code(actual)} (required: ${code(required)}${valid ? '' : ', invalid'}).`,
+      },
+      report.changes.length
+        ? {
+            kind: 'table',
+            headers: ['Change', 'Event type', 'Field', 'Description', 'Backward', 'Forward'],
+            rows: report.changes.map((item) => [
+              code(item.kind),
+              code(item.eventType),
+              item.path ? code(item.path) : '',
+              item.message,
+              item.backward ? 'Yes' : 'No',
+              item.forward ? 'Yes' : 'No',
+            ]),
+          }
+        : { kind: 'paragraph', text: 'No schema changes.' },
+    );
+  }
+  return blocks;
+};
+
+/**
+ * Creates the documentation blocks of the contracts along with the document title
+ */
+const createDocumentationBlocks = (
+  contracts: ArvoContract | ArvoContract[],
+  param?: CreateArvoContractDocumentationParam,
+): { title: string; blocks: ArvoContractDocumentationBlock[] } => {
+  const contractList = Array.isArray(contracts) ? contracts : [contracts];
+  if (!contractList.length) {
+    throw new Error('At least one ArvoContract is required to create the contract documentation');
+  }
+  const seenUris = new Set<string>();
+  for (const contract of contractList) {
+    if (seenUris.has(contract.uri)) {
+      throw new Error(`The contract (uri=${contract.uri}) is provided more than once for the contract documentation`);
+    }
+    seenUris.add(contract.uri);
+  }
+
+  const title = param?.title ?? (contractList.length === 1 ? contractList[0].uri : 'Arvo contracts');
+  const sections: ArvoContractDocumentationBlock[] = [];
+  for (const contract of contractList) {
+    const versions = contract.getSortedVersionNumbers('ASC');
+    sections.push({ kind: 'heading', level: 2, text: contract.uri });
+    if (contract.description) {
+      sections.push({ kind: 'paragraph', text: contract.description });
+    }
+    sections.push({
+      kind: 'table',
+      headers: ['Property', 'Value'],
+      rows: [
+        ['URI', code(contract.uri)],
+        ['Accepts', code(contract.type)],
+        ['Domain', contract.domain ? code(contract.domain) : '—'],
+        ['Versions', versions.map(code).join(', ')],
+      ],
+    });
+    if (contract.metadata && Object.keys(contract.metadata).length) {
+      sections.push({ kind: 'code', language: 'json', content: JSON.stringify(contract.metadata, null, 2) });
+    }
+    for (const version of versions) {
+      sections.push(...createVersionBlocks(contract.version(version)));
+    }
+    sections.push(...createChangelogBlocks(contract, param?.compatibilityPolicy ?? 'FULL'));
+  }
+
+  // The anchors follow the heading order of the rendered document
+  const slug = createHeadingSlugger();
+  slug(title);
+  const anchors: Record<string, string> = {};
+  for (const block of sections) {
+    if (block.kind !== 'heading') continue;
+    const anchor = slug(block.text);
+    if (block.level === 2) anchors[block.text] = anchor;
+  }
+
+  return {
+    title,
+    blocks: [
+      { kind: 'heading', level: 1, text: title },
+      ...(param?.description ? [{ kind: 'paragraph', text: param.description } as const] : []),
+      { kind: 'list', items: contractList.map((item) => `[${item.uri}](#${anchors[item.uri]})`) },
+      ...sections,
+    ],
+  };
+};
+
+/**
+ * Creates the Markdown documentation of one or many Arvo contracts.
+ *
+ * Every contract gets a section with its uri, accepted event type, domain and metadata, followed by:
+ * - A section per version (ascending) with the accepted event, every emitted event and the system error.
+ *   Every event lists the fields of its data schema, including the nested fields, their constraints
+ *   and their `.describe()` text. A deprecated version is flagged along with its sunset and replacement.
+ * - A changelog derived from the compatibility reports between consecutive versions
+ *   (see {@link checkArvoContractCompatibility}), latest first.
+ *
+ * @param contracts - The contract or the list of contracts to document
+ * @param [param] - The document information. The title defaults to the contract uri for a single contract
+ *
+ * @returns The GitHub flavoured Markdown document
+ *
+ * @throws {Error} If no contracts are provided or the same contract uri is provided more than once
+ *
+ * @example
+ * ```typescript
+ * fs.writeFileSync('CONTRACTS.md', createArvoContractMarkdown([userContract, orderContract], {
+ *   title: 'Commerce services',
+ * }));
+ * ```
+ */
+export const createArvoContractMarkdown = (
+  contracts: ArvoContract | ArvoContract[],
+  param?: CreateArvoContractDocumentationParam,
+): string => renderMarkdown(createDocumentationBlocks(contracts, param).blocks);
+
+/**
+ * Creates the documentation of one or many Arvo contracts as a standalone static HTML page.
+ * The content is the same as {@link createArvoContractMarkdown}.
+ *
+ * @param contracts - The contract or the list of contracts to document
+ * @param [param] - The document information. The title defaults to the contract uri for a single contract
+ *
+ * @returns The HTML page, with an inline stylesheet and no external resources
+ *
+ * @throws {Error} If no contracts are provided or the same contract uri is provided more than once
+ */
+export const createArvoContractHtml = (
+  contracts: ArvoContract | ArvoContract[],
+  param?: CreateArvoContractDocumentationParam,
+): string => {
+  const { title, blocks } = createDocumentationBlocks(contracts, param);
+  return renderHtml(blocks, title);
+};
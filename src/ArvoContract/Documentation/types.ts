@@ -0,0 +1,50 @@
+import type { ArvoContractCompatibilityLevel } from '../Compatibility/types';
+
+/**
+ * The parameters of the contract documentation
+ */
+export type CreateArvoContractDocumentationParam = {
+  /** The document title. Defaults to the contract uri for a single contract, otherwise 'Arvo contracts' */
+  title?: string;
+  /** The document description, rendered below the title */
+  description?: string;
+  /**
+   * The compatibility policy used to derive the changelog between consecutive versions.
+   * See `checkArvoContractCompatibility`. Defaults to 'FULL'
+   */
+  compatibilityPolicy?: Exclude<ArvoContractCompatibilityLevel, 'NONE'>;
+};
+
+/**
+ * A documented field of an event data schema
+ */
+export type ArvoContractDocumentationField = {
+  /**
+   * The dot separated path of the field. Array items are denoted by `[]` and
+   * record values by `*` (e.g. 'items.[].tags.*'). `<root>` denotes the data itself
+   */
+  path: string;
+  /** The human-readable type of the field, e.g. `string (email)` or `"a" | "b"` */
+  type: string;
+  required: boolean;
+  /** The human-readable constraints of the field, e.g. `minLength: 1` */
+  constraints: string[];
+  /** The `.describe()` text of the field */
+  description: string | null;
+};
+
+/**
+ * An inline text of the documentation. Backticks denote code spans.
+ */
+type Text = string;
+
+/**
+ * A block of the documentation, rendered to either Markdown or HTML
+ */
+export type ArvoContractDocumentationBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3 | 4; text: Text }
+  | { kind: 'paragraph'; text: Text }
+  | { kind: 'note'; text: Text }
+  | { kind: 'list'; items: Text[] }
+  | { kind: 'table'; headers: Text[]; rows: Text[][] }
+  | { kind: 'code'; language: string; content: string };
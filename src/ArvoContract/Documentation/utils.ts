@@ -0,0 +1,250 @@
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ArvoContractDocumentationBlock, ArvoContractDocumentationField } from './types';
+
+type JsonSchema = Record<string, any>;
+
+// Beyond this depth, e.g. in recursive schemas, the nested fields are not documented
+const MAX_FIELD_DEPTH = 8;
+
+const CONSTRAINT_KEYWORDS = [
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minimum',
+  'exclusiveMinimum',
+  'maximum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minItems',
+  'maxItems',
+];
+
+const isObjectSchema = (schema: JsonSchema) =>
+  schema.type === 'object' || (schema.type === undefined && schema.properties !== undefined);
+
+const isRecordSchema = (schema: JsonSchema) =>
+  isObjectSchema(schema) &&
+  !Object.keys(schema.properties ?? {}).length &&
+  Boolean(schema.additionalProperties) &&
+  typeof schema.additionalProperties === 'object';
+
+/**
+ * Describes the type of a JSON schema in a human-readable form, e.g. `string (email)`,
+ * `array<number>`, `record<string, boolean>` or `"a" | "b" | null`
+ */
+export const describeJsonSchemaType = (schema: JsonSchema): string => {
+  if (!schema || !Object.keys(schema).length) return 'any';
+  if (schema.not && !Object.keys(schema.not).length) return 'never';
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map((item: unknown) => JSON.stringify(item)).join(' | ');
+  const union = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(union)) return union.map(describeJsonSchemaType).join(' | ');
+  if (Array.isArray(schema.allOf)) return schema.allOf.map(describeJsonSchemaType).join(' & ');
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type: string) => describeJsonSchemaType({ ...schema, type })).join(' | ');
+  }
+  if (schema.type === 'array') {
+    if (Array.isArray(schema.items)) return `[${schema.items.map(describeJsonSchemaType).join(', ')}]`;
+    return `array<${describeJsonSchemaType(schema.items ?? {})}>`;
+  }
+  if (isRecordSchema(schema)) return `record<string, ${describeJsonSchemaType(schema.additionalProperties)}>`;
+  if (isObjectSchema(schema)) return 'object';
+  if (schema.type === 'string' && schema.format) return `string (${schema.format})`;
+  return schema.type ?? 'any';
+};
+
+const describeConstraints = (schema: JsonSchema): string[] => [
+  ...CONSTRAINT_KEYWORDS.filter((keyword) => schema[keyword] !== undefined).map(
+    (keyword) => `${keyword}: ${schema[keyword]}`,
+  ),
+  ...(schema.default !== undefined ? [`default: ${JSON.stringify(schema.default)}`] : []),
+];
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const collectChildren = (
+  schema: JsonSchema,
+  path: string,
+  depth: number,
+  fields: ArvoContractDocumentationField[],
+): void => {
+  if (depth >= MAX_FIELD_DEPTH) return;
+  if (isRecordSchema(schema)) {
+    collectField(schema.additionalProperties, joinPath(path, '*'), true, depth, fields);
+  } else if (isObjectSchema(schema)) {
+    const requiredKeys = new Set<string>(schema.required ?? []);
+    for (const [key, value] of Object.entries((schema.properties ?? {}) as Record<string, JsonSchema>)) {
+      collectField(value, joinPath(path, key), requiredKeys.has(key), depth, fields);
+    }
+  } else if (schema.type === 'array' && schema.items && !Array.isArray(schema.items)) {
+    collectChildren(schema.items, joinPath(path, '[]'), depth + 1, fields);
+  }
+  // The fields of every option of a union or an intersection are documented under the same path
+  for (const option of [...(schema.anyOf ?? []), ...(schema.oneOf ?? []), ...(schema.allOf ?? [])] as JsonSchema[]) {
+    collectChildren(option, path, depth + 1, fields);
+  }
+};
+
+const collectField = (
+  schema: JsonSchema,
+  path: string,
+  required: boolean,
+  depth: number,
+  fields: ArvoContractDocumentationField[],
+): void => {
+  fields.push({
+    path,
+    type: describeJsonSchemaType(schema),
+    required,
+    constraints: describeConstraints(schema),
+    description: schema.description ?? null,
+  });
+  collectChildren(schema, path, depth + 1, fields);
+};
+
+/**
+ * Lists the documented fields of an event data schema. The fields of the nested objects,
+ * array items and record values are listed after their parent.
+ */
+export const getDocumentationFields = (schema: z.ZodTypeAny): ArvoContractDocumentationField[] => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema as any, { $refStrategy: 'none' }) as JsonSchema;
+  const fields: ArvoContractDocumentationField[] = [];
+  if (!isObjectSchema(jsonSchema) || isRecordSchema(jsonSchema)) {
+    fields.push({
+      path: '<root>',
+      type: describeJsonSchemaType(jsonSchema),
+      required: true,
+      constraints: describeConstraints(jsonSchema),
+      description: jsonSchema.description ?? null,
+    });
+  }
+  collectChildren(jsonSchema, '', 0, fields);
+  // A field of several union options is listed once
+  const seen = new Set<string>();
+  return fields.filter((item) => {
+    const key = `${item.path}:${item.type}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Creates the GitHub flavoured Markdown anchor of a heading. The repeated anchors
+ * are suffixed with their occurrence, as GitHub does.
+ */
+export const createHeadingSlugger = () => {
+  const occurrences: Record<string, number> = {};
+  return (text: string): string => {
+    const slug = text
+      .toLowerCase()
+      .replace(/[^a-z0-9 _-]/g, '')
+      .replace(/ /g, '-');
+    const count = occurrences[slug] ?? 0;
+    occurrences[slug] = count + 1;
+    return count ? `${slug}-${count}` : slug;
+  };
+};
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+/**
+ * Renders the documentation blocks to GitHub flavoured Markdown
+ */
+export const renderMarkdown = (blocks: ArvoContractDocumentationBlock[]): string =>
+  `${blocks
+    .map((block) => {
+      switch (block.kind) {
+        case 'heading':
+          return `${'#'.repeat(block.level)} ${block.text}`;
+        case 'paragraph':
+          return block.text;
+        case 'note':
+          return block.text
+            .split('\n')
+            .map((line) => `> ${line}`)
+            .join('\n');
+        case 'list':
+          return block.items.map((item) => `- ${item}`).join('\n');
+        case 'table':
+          return [
+            `| ${block.headers.map(escapeMarkdownCell).join(' | ')} |`,
+            `| ${block.headers.map(() => '---').join(' | ')} |`,
+            ...block.rows.map((row) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+          ].join('\n');
+        case 'code':
+          return `\`\`\`${block.language}\n${block.content}\n\`\`\``;
+      }
+    })
+    .join('\n\n')}\n`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Renders an inline text to HTML, where the backtick spans become `<code>` elements
+ * and the `[label](#anchor)` links become anchors
+ */
+const renderHtmlText = (text: string) =>
+  text
+    .split(/(`[^`]*`)/)
+    .map((part) =>
+      part.length > 1 && part.startsWith('`') && part.endsWith('`')
+        ? `<code>${escapeHtml(part.slice(1, -1))}</code>`
+        : escapeHtml(part).replace(/\[([^\]]+)\]\((#[^)]*)\)/g, '<a href="$2">$1</a>'),
+    )
+    .join('')
+    .replace(/\r?\n/g, '<br>');
+
+const HTML_STYLE = `body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Helvetica,Arial,sans-serif;line-height:1.5;color:#1f2328;max-width:1080px;margin:0 auto;padding:2rem}
+code,pre{font-family:ui-monospace,SFMono-Regular,Menlo,Consolas,monospace;font-size:85%;background:#f6f8fa;border-radius:4px}
+code{padding:.1em .3em}pre{padding:1rem;overflow:auto}pre code{padding:0}
+table{border-collapse:collapse;width:100%;margin:1rem 0}th,td{border:1px solid #d1d9e0;padding:.4rem .6rem;text-align:left;vertical-align:top}th{background:#f6f8fa}
+blockquote{margin:1rem 0;padding:.5rem 1rem;border-left:4px solid #d4a72c;background:#fff8c5}
+h2{border-bottom:1px solid #d1d9e0;padding-bottom:.3rem;margin-top:2.5rem}`;
+
+/**
+ * Renders the documentation blocks to a standalone HTML page with an inline stylesheet
+ */
+export const renderHtml = (blocks: ArvoContractDocumentationBlock[], title: string): string => {
+  const slug = createHeadingSlugger();
+  const body = blocks.map((block) => {
+    switch (block.kind) {
+      case 'heading':
+        return `<h${block.level} id="${slug(block.text)}">${renderHtmlText(block.text)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${renderHtmlText(block.text)}</p>`;
+      case 'note':
+        return `<blockquote>${renderHtmlText(block.text)}</blockquote>`;
+      case 'list':
+        return `<ul>\n${block.items.map((item) => `<li>${renderHtmlText(item)}</li>`).join('\n')}\n</ul>`;
+      case 'table':
+        return [
+          '<table>',
+          `<thead><tr>${block.headers.map((item) => `<th>${renderHtmlText(item)}</th>`).join('')}</tr></thead>`,
+          '<tbody>',
+          ...block.rows.map((row) => `<tr>${row.map((item) => `<td>${renderHtmlText(item)}</td>`).join('')}</tr>`),
+          '</tbody>',
+          '</table>',
+        ].join('\n');
+      case 'code':
+        return `<pre><code class="language-${escapeHtml(block.language)}">${escapeHtml(block.content)}</code></pre>`;
+    }
+  });
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,113 @@
+import ArvoContract from '..';
+import type { VersionedArvoContract } from '../VersionedArvoContract';
+import type { VersionedArvoContractJSONSchema } from '../VersionedArvoContract/types';
+import type { ArvoContractJSONSchema } from '../types';
+import type { ArvoContractJSONSchemaVersions } from './types';
+import { jsonSchemaToZod } from './utils';
+
+/**
+ * Creates an ArvoContract from its JSON Schema representation (see {@link ArvoContract.toJsonSchema}).
+ * This allows contracts to be shared across services and languages as plain JSON files and
+ * then used with `ArvoEventFactory` like any locally defined contract.
+ *
+ * The `accepts` and `emits` JSON schemas of each version are converted back to zod schemas
+ * via {@link jsonSchemaToZod}. The system error schema is standard across all contracts and
+ * is therefore not read from the JSON, however, its type is checked for consistency.
+ *
+ * Since the JSON Schema representation does not carry TypeScript types, the resulting
+ * contract is typed with plain `string` event types and `z.ZodTypeAny` schemas.
+ *
+ * @param json - The JSON Schema representation of the contract
+ *
+ * @returns The rehydrated ArvoContract
+ *
+ * @throws {Error} If the versions do not accept the same event type, a version is defined more than once
+ * or the system error type does not match the accepted event type
+ * @throws {Error} If a JSON schema cannot be converted to zod
+ * @throws {Error} If any of the ArvoContract's internal validations fail. See {@link ArvoContract}
+ *
+ * @example
+ * ```typescript
+ * const contract = createArvoContractFromJsonSchema(
+ *   JSON.parse(fs.readFileSync('user.contract.json', 'utf-8')),
+ * );
+ * const factory = createArvoEventFactory(contract.version('1.0.0'));
+ * ```
+ */
+export const createArvoContractFromJsonSchema = (
+  json: ArvoContractJSONSchema,
+): ArvoContract<string, string, ArvoContractJSONSchemaVersions, Record<string, any>> => {
+  if (!json.versions?.length) {
+    throw new Error(`An ArvoContract (uri=${json.uri}) must have at least one version`);
+  }
+
+  const type = json.versions[0].accepts.type;
+  const versions: ArvoContractJSONSchemaVersions = {};
+  for (const versionJson of json.versions) {
+    const errorPrefix = `Invalid JSON schema for contract (uri=${json.uri}, version=${versionJson.version})`;
+    if (versions[versionJson.version]) {
+      throw new Error(`${errorPrefix} -> The version is defined more than once`);
+    }
+    if (versionJson.accepts.type !== type) {
+      throw new Error(
+        `${errorPrefix} -> The accepted event type '${versionJson.accepts.type}' must be the same as '${type}' across all versions`,
+      );
+    }
+    if (versionJson.systemError && versionJson.systemError.type !== `sys.${type}.error`) {
+      throw new Error(
+        `${errorPrefix} -> The system error type '${versionJson.systemError.type}' must be 'sys.${type}.error'`,
+      );
+    }
+    try {
+      versions[versionJson.version] = {
+        accepts: jsonSchemaToZod(versionJson.accepts.schema),
+        emits: Object.fromEntries(versionJson.emits.map((item) => [item.type, jsonSchemaToZod(item.schema)])),
+        ...(versionJson.lifecycle ? { lifecycle: versionJson.lifecycle } : {}),
+      };
+    } catch (e) {
+      throw new Error(`${errorPrefix} -> ${(e as Error).message}`);
+    }
+  }
+
+  return new ArvoContract({
+    uri: json.uri,
+    type,
+    domain: json.domain ?? null,
+    description: json.description ?? null,
+    metadata: json.metadata ?? {},
+    versions,
+  });
+};
+
+/**
+ * Creates a VersionedArvoContract from its JSON Schema representation
+ * (see {@link VersionedArvoContract.toJsonSchema}). The versioned contract
+ * is backed by a single version ArvoContract.
+ *
+ * @param json - The JSON Schema representation of the versioned contract
+ *
+ * @returns The rehydrated VersionedArvoContract
+ *
+ * @throws {Error} If the JSON cannot be rehydrated. See {@link createArvoContractFromJsonSchema}
+ *
+ * @example
+ * ```typescript
+ * const versionedContract = createVersionedArvoContractFromJsonSchema(json);
+ * const event = createArvoEventFactory(versionedContract).accepts({
+ *   source: 'com.test.service',
+ *   data: { ... },
+ * });
+ * ```
+ */
+export const createVersionedArvoContractFromJsonSchema = (
+  json: VersionedArvoContractJSONSchema,
+): VersionedArvoContract<any, any> => {
+  const { uri, description, ...versionJson } = json;
+  return createArvoContractFromJsonSchema({
+    uri,
+    description,
+    domain: json.domain,
+    metadata: json.metadata,
+    versions: [versionJson],
+  }).version(json.version);
+};
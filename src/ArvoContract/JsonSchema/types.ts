@@ -0,0 +1,15 @@
+import type { z } from 'zod';
+import type { ArvoSemanticVersion } from '../../types';
+import type { ArvoContractVersionLifecycle } from '../types';
+
+/**
+ * The versions of an ArvoContract rehydrated from its JSON Schema representation
+ */
+export type ArvoContractJSONSchemaVersions = Record<
+  ArvoSemanticVersion,
+  {
+    accepts: z.ZodTypeAny;
+    emits: Record<string, z.ZodTypeAny>;
+    lifecycle?: ArvoContractVersionLifecycle;
+  }
+>;
@@ -0,0 +1,239 @@
+import { z } from 'zod';
+
+/**
+ * A JSON Schema (draft-07) object as produced by `zod-to-json-schema`
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * The shared state of a single JSON Schema conversion
+ */
+type ConversionContext = {
+  /** The root schema against which the `$ref` pointers are resolved */
+  root: JsonSchema;
+  /**
+   * The converted schema nodes. Reusing the same zod instance for a `$ref` target keeps
+   * the schema identity, so it serialises back to the same reference. A `null` value
+   * marks a node which is being converted
+   */
+  nodes: Map<JsonSchema, z.ZodTypeAny | null>;
+};
+
+/**
+ * Resolves a local JSON pointer (e.g. `#/properties/user`) against the root schema
+ */
+export const resolvePointer = (root: JsonSchema, ref: string): JsonSchema => {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local JSON schema references are supported (ref=${ref})`);
+  }
+  const segments = ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map((item) => decodeURIComponent(item).replace(/~1/g, '/').replace(/~0/g, '~'));
+  let current: any = root;
+  for (const segment of segments) {
+    current = current?.[segment];
+  }
+  if (current === undefined || current === null || typeof current !== 'object') {
+    throw new Error(`Unable to resolve the JSON schema reference (ref=${ref})`);
+  }
+  return current;
+};
+
+const toLiteralUnion = (values: unknown[]): z.ZodTypeAny => {
+  if (!values.length) return z.never();
+  if (values.every((item) => typeof item === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  const literals = values.map((item) => (item === null ? z.null() : z.literal(item as z.Primitive)));
+  return literals.length === 1 ? literals[0] : z.union(literals as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+};
+
+const toUnion = (schemas: z.ZodTypeAny[]): z.ZodTypeAny => {
+  if (!schemas.length) return z.never();
+  return schemas.length === 1 ? schemas[0] : z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+};
+
+const convertString = (schema: JsonSchema): z.ZodTypeAny => {
+  let result = z.string();
+  switch (schema.format) {
+    case 'date-time':
+      result = result.datetime({ offset: true });
+      break;
+    case 'date':
+      result = result.date();
+      break;
+    case 'time':
+      result = result.time();
+      break;
+    case 'email':
+      result = result.email();
+      break;
+    case 'uuid':
+      result = result.uuid();
+      break;
+    case 'uri':
+      result = result.url();
+      break;
+    case 'ipv4':
+      result = result.ip({ version: 'v4' });
+      break;
+    case 'ipv6':
+      result = result.ip({ version: 'v6' });
+      break;
+  }
+  if (typeof schema.minLength === 'number') result = result.min(schema.minLength);
+  if (typeof schema.maxLength === 'number') result = result.max(schema.maxLength);
+  if (typeof schema.pattern === 'string') result = result.regex(new RegExp(schema.pattern));
+  return result;
+};
+
+const convertNumber = (schema: JsonSchema, integer: boolean): z.ZodTypeAny => {
+  let result = z.number();
+  if (integer) result = result.int();
+  if (typeof schema.minimum === 'number') result = result.gte(schema.minimum);
+  if (typeof schema.maximum === 'number') result = result.lte(schema.maximum);
+  if (typeof schema.exclusiveMinimum === 'number') result = result.gt(schema.exclusiveMinimum);
+  if (typeof schema.exclusiveMaximum === 'number') result = result.lt(schema.exclusiveMaximum);
+  if (typeof schema.multipleOf === 'number') result = result.multipleOf(schema.multipleOf);
+  return result;
+};
+
+const convertArray = (schema: JsonSchema, context: ConversionContext): z.ZodTypeAny => {
+  if (Array.isArray(schema.items)) {
+    const items = schema.items.map((item: JsonSchema) => convert(item, context));
+    const tuple = z.tuple(items as [z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    return schema.additionalItems && typeof schema.additionalItems === 'object'
+      ? tuple.rest(convert(schema.additionalItems, context))
+      : tuple;
+  }
+  let result = z.array(schema.items === undefined ? z.any() : convert(schema.items, context));
+  if (typeof schema.minItems === 'number') result = result.min(schema.minItems);
+  if (typeof schema.maxItems === 'number') result = result.max(schema.maxItems);
+  return result;
+};
+
+const convertObject = (schema: JsonSchema, context: ConversionContext): z.ZodTypeAny => {
+  const properties: Record<string, JsonSchema> = schema.properties ?? {};
+  const additionalProperties = schema.additionalProperties;
+  if (!Object.keys(properties).length && additionalProperties && typeof additionalProperties === 'object') {
+    return z.record(z.string(), convert(additionalProperties, context));
+  }
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const shape: z.ZodRawShape = {};
+  for (const [key, value] of Object.entries(properties)) {
+    const property = convert(value, context);
+    if (required.has(key)) {
+      shape[key] = property;
+    } else if (value && typeof value === 'object' && 'default' in value) {
+      shape[key] = property.default(value.default);
+    } else {
+      shape[key] = property.optional();
+    }
+  }
+  const result = z.object(shape);
+  if (additionalProperties && typeof additionalProperties === 'object') {
+    return result.catchall(convert(additionalProperties, context));
+  }
+  if (additionalProperties === true) {
+    return result.passthrough();
+  }
+  return result;
+};
+
+const convertType = (type: string, schema: JsonSchema, context: ConversionContext): z.ZodTypeAny => {
+  switch (type) {
+    case 'string':
+      return convertString(schema);
+    case 'number':
+      return convertNumber(schema, false);
+    case 'integer':
+      return convertNumber(schema, true);
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array':
+      return convertArray(schema, context);
+    case 'object':
+      return convertObject(schema, context);
+    default:
+      throw new Error(`Unsupported JSON schema type '${type}'`);
+  }
+};
+
+/**
+ * Converts the keywords of the schema, ignoring its annotations (description, default)
+ */
+const convertKeywords = (schema: JsonSchema, context: ConversionContext): z.ZodTypeAny => {
+  if (typeof schema.$ref === 'string') {
+    return convert(resolvePointer(context.root, schema.$ref), context);
+  }
+  if ('const' in schema) {
+    return toLiteralUnion([schema.const]);
+  }
+  if (Array.isArray(schema.enum)) {
+    return toLiteralUnion(schema.enum);
+  }
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const options: JsonSchema[] = schema.anyOf ?? schema.oneOf;
+    const nonNull = options.filter((item) => item?.type !== 'null');
+    const union = toUnion(nonNull.map((item) => convert(item, context)));
+    return nonNull.length !== options.length ? union.nullable() : union;
+  }
+  if (Array.isArray(schema.allOf)) {
+    const [first, ...rest] = (schema.allOf as JsonSchema[]).map((item) => convert(item, context));
+    if (!first) return z.any();
+    return rest.reduce<z.ZodTypeAny>((acc, item) => z.intersection(acc, item), first);
+  }
+  if (schema.not && typeof schema.not === 'object' && !Object.keys(schema.not).length) {
+    return z.never();
+  }
+  if (Array.isArray(schema.type)) {
+    const types = schema.type as string[];
+    const nonNull = types.filter((item) => item !== 'null');
+    const union = toUnion(nonNull.map((item) => convertType(item, schema, context)));
+    return nonNull.length !== types.length ? union.nullable() : union;
+  }
+  if (typeof schema.type === 'string') {
+    return convertType(schema.type, schema, context);
+  }
+  return z.any();
+};
+
+const convert = (schema: JsonSchema | boolean, context: ConversionContext): z.ZodTypeAny => {
+  if (schema === true) return z.any();
+  if (schema === false) return z.never();
+  if (context.nodes.has(schema)) {
+    // A recursive reference is resolved lazily once the conversion of its target is complete
+    return context.nodes.get(schema) ?? z.lazy(() => context.nodes.get(schema) as z.ZodTypeAny);
+  }
+  context.nodes.set(schema, null);
+  const keywords = convertKeywords(schema, context);
+  const result = typeof schema.description === 'string' ? keywords.describe(schema.description) : keywords;
+  context.nodes.set(schema, result);
+  return result;
+};
+
+/**
+ * Converts a JSON Schema (draft-07) back into an equivalent zod schema. The conversion
+ * supports the JSON Schema subset emitted by `zod-to-json-schema`, which is how
+ * Arvo contracts are serialised by `toJsonSchema()`:
+ * - The primitive types and their constraints (length, pattern, common formats, bounds)
+ * - Objects (required and optional properties, defaults, records, catchall and passthrough)
+ * - Arrays and tuples
+ * - `enum`, `const`, `anyOf`/`oneOf` (as unions), `allOf` (as intersections) and nullable types
+ * - Local `$ref` pointers, including recursive ones (as lazy schemas)
+ *
+ * Schema descriptions are carried over via `.describe()`. Keywords which have no zod
+ * equivalent are ignored and an empty schema converts to `z.any()`.
+ *
+ * @param schema - The JSON schema to convert
+ * @returns The equivalent zod schema
+ *
+ * @throws {Error} If the schema has an unsupported type or an unresolvable reference
+ */
+export const jsonSchemaToZod = (schema: JsonSchema): z.ZodTypeAny => {
+  return convert(schema, { root: schema, nodes: new Map() });
+};
@@ -1,6 +1,7 @@
 import type { z } from 'zod';
 import type { ArvoSemanticVersion } from '../../types';
 import { createArvoContract } from '../helpers';
+import type { ArvoContractVersionLifecycle } from '../types';
 import type { SimpleArvoContract, SimpleArvoContractEmitType } from './types';
 
 /**
@@ -53,6 +54,7 @@ export const createSimpleArvoContract = <
     {
       accepts: z.ZodTypeAny;
       emits: z.ZodTypeAny;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   >,
   TMetaData extends Record<string, any>,
@@ -86,6 +88,7 @@ export const createSimpleArvoContract = <
           emits: {
             [emitType]: contract.emits,
           },
+          ...(contract.lifecycle ? { lifecycle: contract.lifecycle } : {}),
         },
       ]),
     ),
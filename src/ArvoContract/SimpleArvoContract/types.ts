@@ -1,6 +1,7 @@
 import type { z } from 'zod';
 import type ArvoContract from '..';
 import type { ArvoSemanticVersion } from '../../types';
+import type { ArvoContractVersionLifecycle } from '../types';
 
 export type SimpleArvoContractEmitType<T extends string> = `evt.${T}.success`;
 
@@ -12,12 +13,14 @@ export type SimpleArvoContract<
     {
       accepts: z.ZodTypeAny;
       emits: z.ZodTypeAny;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   > = Record<
     ArvoSemanticVersion,
     {
       accepts: z.ZodTypeAny;
       emits: z.ZodTypeAny;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   >,
   TMetaData extends Record<string, any> = Record<string, any>,
@@ -0,0 +1,197 @@
+import type { ArvoSemanticVersion } from '../../types';
+import { EventDataschemaUtil } from '../../utils';
+import type { JsonSchema } from '../JsonSchema/utils';
+import { WildCardArvoSemanticVersion } from '../WildCardArvoSemanticVersion';
+import type { ArvoContractJSONSchema } from '../types';
+import type { CreateArvoContractTypeDeclarationsParam } from './types';
+import { jsonSchemaToTypeScript, toDocComment, toPascalCase } from './utils';
+
+/**
+ * The name of the generic event type which all the declared event types instantiate
+ */
+const EVENT_TYPE_NAME = 'ArvoContractEvent';
+
+/**
+ * The declaration of the generic event type, mirroring `InferArvoEvent`
+ */
+const EVENT_TYPE_DECLARATION = `/**
+ * An Arvo event of the given type and data, as inferred by \`InferArvoEvent\` of arvo-core
+ */
+export type ${EVENT_TYPE_NAME}<TType extends string, TData> = {
+  id: string;
+  source: string;
+  specversion: string;
+  type: TType;
+  subject: string;
+  datacontenttype: string;
+  dataschema: string | null;
+  data: TData;
+  time: string;
+  to: string | null;
+  accesscontrol: string | null;
+  redirectto: string | null;
+  executionunits: number | null;
+  parentid: string | null;
+  domain: string | null;
+  traceparent: string | null;
+  tracestate: string | null;
+};`;
+
+const DEFAULT_HEADER = 'Generated from the Arvo contract JSON schemas. Do not edit this file manually.';
+
+/**
+ * Declares the data type and the event type of a contract record
+ */
+const declareRecord = (
+  name: string,
+  record: { type: string; schema: JsonSchema },
+  dataschema: string,
+  declarations: string[],
+): string => {
+  const { type, declarations: aliases } = jsonSchemaToTypeScript(record.schema, `${name}DataNode`);
+  const description = [`The data of the event '${record.type}' (dataschema=${dataschema})`];
+  if (record.schema.description) description.push('', record.schema.description);
+  declarations.push(
+    ...aliases,
+    `${toDocComment(description.join('\n'))}export type ${name}Data = ${type};`,
+    `export type ${name}Event = ${EVENT_TYPE_NAME}<${JSON.stringify(record.type)}, ${name}Data>;`,
+  );
+  return `${name}Event`;
+};
+
+/**
+ * Declares the types of a contract
+ */
+const declareContract = (contract: ArvoContractJSONSchema, prefix: string): string[] => {
+  const declarations: string[] = [];
+  const versionEntries: string[] = [];
+  const versionEvents: string[] = [];
+  const systemErrorDataschema = EventDataschemaUtil.build(contract.uri, WildCardArvoSemanticVersion);
+
+  for (const version of contract.versions) {
+    const versionPrefix = `${prefix}V${version.version.replace(/\./g, '_')}`;
+    const dataschema = EventDataschemaUtil.build(contract.uri, version.version as ArvoSemanticVersion);
+    const names = new Map<string, string>();
+    const nameOf = (type: string, suffix: string) => {
+      const name = `${versionPrefix}${suffix}`;
+      if (names.has(name)) {
+        throw new Error(
+          `The event types '${names.get(name)}' and '${type}' of the contract (uri=${contract.uri}, version=${version.version}) resolve to the same type name '${name}'`,
+        );
+      }
+      names.set(name, type);
+      return name;
+    };
+
+    const accepts = declareRecord(nameOf(version.accepts.type, 'Accepts'), version.accepts, dataschema, declarations);
+    const systemError = declareRecord(
+      nameOf(version.systemError.type, 'SystemError'),
+      version.systemError,
+      systemErrorDataschema,
+      declarations,
+    );
+    nameOf('<emits>', 'Emits');
+    const emits = version.emits.map((record) => ({
+      type: record.type,
+      event: declareRecord(nameOf(record.type, toPascalCase(record.type)), record, dataschema, declarations),
+    }));
+    declarations.push(
+      `export type ${versionPrefix}EmitsEvent = ${emits.map((item) => item.event).join(' | ') || 'never'};`,
+      `${toDocComment(`All the events of the contract (uri=${contract.uri}, version=${version.version})`)}export type ${versionPrefix}Event = ${accepts} | ${versionPrefix}EmitsEvent | ${systemError};`,
+    );
+    versionEvents.push(`${versionPrefix}Event`);
+
+    const lifecycle = version.lifecycle?.deprecated
+      ? `@deprecated${version.lifecycle.replacement ? ` Use the version '${version.lifecycle.replacement}' instead.` : ''}`
+      : null;
+    const emitEntries = emits.map((item) => `      ${JSON.stringify(item.type)}: ${item.event};`);
+    versionEntries.push(
+      [
+        `${toDocComment(lifecycle, '  ')}  ${JSON.stringify(version.version)}: {`,
+        `    accepts: ${accepts};`,
+        emitEntries.length ? `    emits: {\n${emitEntries.join('\n')}\n    };` : '    emits: Record<string, never>;',
+        `    systemError: ${systemError};`,
+        '  };',
+      ].join('\n'),
+    );
+  }
+
+  const description = [`The events of the contract (uri=${contract.uri}), by version`];
+  if (contract.description) description.push('', contract.description);
+  declarations.push(
+    `${toDocComment(description.join('\n'))}export type ${prefix}Versions = {\n${versionEntries.join('\n')}\n};`,
+    `${toDocComment(`All the events of the contract (uri=${contract.uri}) across its versions`)}export type ${prefix}Event = ${versionEvents.join(' | ') || 'never'};`,
+  );
+  return declarations;
+};
+
+/**
+ * Creates the TypeScript declarations (`.d.ts`) of one or many Arvo contracts from their JSON
+ * schema representation (see `ArvoContract.toJsonSchema`), so that the services which cannot
+ * import the zod contracts get the same type safety from the JSON artifact.
+ *
+ * The declarations of a contract are prefixed with its name (e.g. `ServicesUser` for the
+ * uri `#/services/user`) and its version (e.g. `V1_0_0`):
+ * - `{Name}{Version}{Record}Data` - The data of the accepted event (`Accepts`), of every emitted
+ *   event (the PascalCase event type, e.g. `EvtUserCreated`) and of the system error (`SystemError`).
+ *   The data types describe the parsed data, i.e. the fields with a default value are required.
+ * - `{Name}{Version}{Record}Event` - The complete event, shaped as `InferArvoEvent` infers it.
+ * - `{Name}{Version}EmitsEvent` and `{Name}{Version}Event` - The union of the emitted events, and
+ *   of all the events of the version.
+ * - `{Name}Versions` - The events by version and event type, and `{Name}Event` - the union of all
+ *   the events the contract handles across its versions.
+ *
+ * @param contracts - The JSON schema of the contract or the list of contracts
+ * @param [param] - The declaration names by contract uri and the file header
+ *
+ * @returns The content of the declarations file
+ *
+ * @throws {Error} If no contracts are provided, two contracts share the same name or two
+ * event types of a version resolve to the same type name
+ * @throws {Error} If a schema has an unsupported type or an unresolvable reference
+ *
+ * @example
+ * ```typescript
+ * fs.writeFileSync('user.contract.d.ts', createArvoContractTypeDeclarations(userContract.toJsonSchema()));
+ *
+ * // In the consumer repository
+ * import type { ServicesUserVersions } from './user.contract';
+ * type UserCreated = ServicesUserVersions['1.0.0']['emits']['evt.user.created'];
+ * ```
+ */
+export const createArvoContractTypeDeclarations = (
+  contracts: ArvoContractJSONSchema | ArvoContractJSONSchema[],
+  param?: CreateArvoContractTypeDeclarationsParam,
+): string => {
+  const contractList = Array.isArray(contracts) ? contracts : [contracts];
+  if (!contractList.length) {
+    throw new Error('At least one ArvoContract JSON schema is required to create the type declarations');
+  }
+  const prefixes = new Map<string, string>();
+  for (const contract of contractList) {
+    const prefix = param?.names?.[contract.uri] ?? toPascalCase(contract.uri);
+    if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(prefix)) {
+      throw new Error(
+        `The type declaration name '${prefix}' of the contract (uri=${contract.uri}) is not an identifier`,
+      );
+    }
+    if (prefixes.has(prefix)) {
+      throw new Error(
+        `The contracts (uri=${prefixes.get(prefix)}) and (uri=${contract.uri}) resolve to the same type declaration name '${prefix}'`,
+      );
+    }
+    prefixes.set(prefix, contract.uri);
+  }
+
+  const blocks = [
+    (param?.header ?? DEFAULT_HEADER)
+      .split(/\r?\n/)
+      .map((line) => (line ? `// ${line}` : '//'))
+      .join('\n'),
+    EVENT_TYPE_DECLARATION,
+  ];
+  for (const [prefix, uri] of Array.from(prefixes.entries())) {
+    blocks.push(...declareContract(contractList.find((item) => item.uri === uri) as ArvoContractJSONSchema, prefix));
+  }
+  return `${blocks.join('\n\n')}\n`;
+};
@@ -0,0 +1,12 @@
+/**
+ * The parameters of the contract type declarations
+ */
+export type CreateArvoContractTypeDeclarationsParam = {
+  /**
+   * The name prefix of the declarations of each contract, by contract uri. Defaults to
+   * the PascalCase form of the uri, e.g. `ServicesUser` for `#/services/user`
+   */
+  names?: Record<string, string>;
+  /** The comment written at the top of the declarations file */
+  header?: string;
+};
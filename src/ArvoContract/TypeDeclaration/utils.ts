@@ -0,0 +1,191 @@
+import { type JsonSchema, resolvePointer } from '../JsonSchema/utils';
+
+/**
+ * The shared state of the conversion of a single JSON schema into a TypeScript type
+ */
+type DeclarationContext = {
+  /** The root schema against which the `$ref` pointers are resolved */
+  root: JsonSchema;
+  /** The schema nodes being converted, used to detect the recursive references */
+  pending: Set<JsonSchema>;
+  /** The type alias names of the recursive schema nodes */
+  aliases: Map<JsonSchema, string>;
+  /** The name prefix of the type aliases */
+  aliasPrefix: string;
+  /** The type alias declarations of the recursive schema nodes */
+  declarations: string[];
+};
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Converts a value (e.g. a contract uri or an event type) into a PascalCase identifier,
+ * e.g. `EvtUserCreated` for `evt.user.created`
+ */
+export const toPascalCase = (value: string): string => {
+  const identifier = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((item) => item.charAt(0).toUpperCase() + item.slice(1))
+    .join('');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+const toPropertyKey = (key: string) => (IDENTIFIER.test(key) ? key : JSON.stringify(key));
+
+/**
+ * Creates a JSDoc comment, or an empty string if there is no text
+ */
+export const toDocComment = (text: string | null | undefined, indent = ''): string => {
+  if (!text) return '';
+  const lines = text.replace(/\*\//g, '*\\/').split(/\r?\n/);
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+};
+
+const toUnionType = (types: string[]): string => {
+  const unique = Array.from(new Set(types));
+  if (!unique.length) return 'never';
+  return unique.includes('unknown') ? 'unknown' : unique.join(' | ');
+};
+
+const toIntersectionMember = (type: string) => (type.includes(' | ') ? `(${type})` : type);
+
+const convertObject = (schema: JsonSchema, context: DeclarationContext, indent: string): string => {
+  const properties: Record<string, JsonSchema> = schema.properties ?? {};
+  const additionalProperties = schema.additionalProperties;
+  const keys = Object.keys(properties);
+  if (!keys.length && additionalProperties && typeof additionalProperties === 'object') {
+    return `Record<string, ${convert(additionalProperties, context, indent)}>`;
+  }
+  if (!keys.length && additionalProperties === false) {
+    return 'Record<string, never>';
+  }
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const inner = `${indent}  `;
+  const members = keys.map((key) => {
+    const value = properties[key];
+    // A field with a default value is always present in the parsed data
+    const optional = !required.has(key) && !(value && typeof value === 'object' && 'default' in value);
+    return `${toDocComment(value?.description, inner)}${inner}${toPropertyKey(key)}${optional ? '?' : ''}: ${convert(value, context, inner)};`;
+  });
+  // The index signature must accept the declared properties as well, hence its type is `unknown`
+  if (additionalProperties === true || typeof additionalProperties === 'object' || !keys.length) {
+    members.push(`${inner}[key: string]: unknown;`);
+  }
+  return `{\n${members.join('\n')}\n${indent}}`;
+};
+
+const convertArray = (schema: JsonSchema, context: DeclarationContext, indent: string): string => {
+  if (Array.isArray(schema.items)) {
+    const items = schema.items.map((item: JsonSchema) => convert(item, context, indent));
+    if (schema.additionalItems && typeof schema.additionalItems === 'object') {
+      items.push(`...Array<${convert(schema.additionalItems, context, indent)}>`);
+    }
+    return `[${items.join(', ')}]`;
+  }
+  return `Array<${schema.items === undefined ? 'unknown' : convert(schema.items, context, indent)}>`;
+};
+
+const convertType = (type: string, schema: JsonSchema, context: DeclarationContext, indent: string): string => {
+  switch (type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return convertArray(schema, context, indent);
+    case 'object':
+      return convertObject(schema, context, indent);
+    default:
+      throw new Error(`Unsupported JSON schema type '${type}'`);
+  }
+};
+
+const convertKeywords = (schema: JsonSchema, context: DeclarationContext, indent: string): string => {
+  if (typeof schema.$ref === 'string') {
+    return convert(resolvePointer(context.root, schema.$ref), context, indent);
+  }
+  if ('const' in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return toUnionType(schema.enum.map((item: unknown) => JSON.stringify(item)));
+  }
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const options: JsonSchema[] = schema.anyOf ?? schema.oneOf;
+    return toUnionType(options.map((item) => convert(item, context, indent)));
+  }
+  if (Array.isArray(schema.allOf)) {
+    const members = (schema.allOf as JsonSchema[]).map((item) => toIntersectionMember(convert(item, context, indent)));
+    return members.length ? members.join(' & ') : 'unknown';
+  }
+  if (schema.not && typeof schema.not === 'object' && !Object.keys(schema.not).length) {
+    return 'never';
+  }
+  if (Array.isArray(schema.type)) {
+    return toUnionType((schema.type as string[]).map((item) => convertType(item, schema, context, indent)));
+  }
+  if (typeof schema.type === 'string') {
+    return convertType(schema.type, schema, context, indent);
+  }
+  if (schema.properties) {
+    return convertObject(schema, context, indent);
+  }
+  return 'unknown';
+};
+
+const convert = (schema: JsonSchema | boolean, context: DeclarationContext, indent: string): string => {
+  if (schema === true) return 'unknown';
+  if (schema === false) return 'never';
+  const alias = context.aliases.get(schema);
+  if (alias) return alias;
+  if (context.pending.has(schema)) {
+    // A recursive reference is declared as a named type alias, which can refer to itself
+    const name = `${context.aliasPrefix}${context.aliases.size || ''}`;
+    context.aliases.set(schema, name);
+    return name;
+  }
+  context.pending.add(schema);
+  const result = convertKeywords(schema, context, indent);
+  context.pending.delete(schema);
+  const recursiveAlias = context.aliases.get(schema);
+  if (recursiveAlias) {
+    context.declarations.push(
+      `${toDocComment(schema.description)}export type ${recursiveAlias} = ${indent ? convertKeywords(schema, context, '') : result};`,
+    );
+    return recursiveAlias;
+  }
+  return result;
+};
+
+/**
+ * Converts a JSON Schema (draft-07), as emitted by `zod-to-json-schema`, into a TypeScript
+ * type expression. The type describes the parsed data, so the fields with a default value
+ * are required. The schema descriptions are carried over as JSDoc comments.
+ *
+ * @param schema - The JSON schema to convert
+ * @param aliasPrefix - The name of the type aliases declared for the recursive schema nodes
+ * @returns The type expression along with the declarations of the type aliases it refers to
+ *
+ * @throws {Error} If the schema has an unsupported type or an unresolvable reference
+ */
+export const jsonSchemaToTypeScript = (
+  schema: JsonSchema,
+  aliasPrefix: string,
+): { type: string; declarations: string[] } => {
+  const context: DeclarationContext = {
+    root: schema,
+    pending: new Set(),
+    aliases: new Map(),
+    aliasPrefix,
+    declarations: [],
+  };
+  const type = convert(schema, context, '');
+  return { type, declarations: context.declarations };
+};
@@ -1,11 +1,22 @@
+import type { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import type ArvoContract from '..';
+import ArvoEvent from '../../ArvoEvent';
+import { getContractSensitiveDataPaths, redactZodError } from '../../ArvoEventRedaction';
+import { getArvoProviders } from '../../ArvoProviders';
 import { logToSpan } from '../../OpenTelemetry';
+import { ViolationError } from '../../errors';
 import type { ArvoSemanticVersion } from '../../types';
 import { EventDataschemaUtil } from '../../utils';
 import { WildCardArvoSemanticVersion } from '../WildCardArvoSemanticVersion';
-import type { ArvoContractRecord } from '../types';
-import type { VersionedArvoContractJSONSchema, VersionedArvoContractParam } from './types';
+import type { ArvoContractRecord, ArvoContractVersionLifecycle } from '../types';
+import type {
+  ArvoContractViolationType,
+  VersionedArvoContractEventRecord,
+  VersionedArvoContractEventValidationResult,
+  VersionedArvoContractJSONSchema,
+  VersionedArvoContractParam,
+} from './types';
 import { transformEmitsToArray } from './utils';
 
 /**
@@ -21,6 +32,7 @@ export class VersionedArvoContract<
   protected readonly _accepts: ArvoContractRecord<TContract['type'], TContract['versions'][TVersion]['accepts']>;
   protected readonly _emits: TContract['versions'][TVersion]['emits'];
   protected readonly _emitList: ReturnType<typeof transformEmitsToArray<TContract, TVersion>>;
+  protected readonly _lifecycle: ArvoContractVersionLifecycle | null;
 
   public get uri(): TContract['uri'] {
     return this._contract.uri;
@@ -57,6 +69,9 @@ export class VersionedArvoContract<
   public get domain() {
     return this._contract.domain;
   }
+  public get lifecycle() {
+    return this._lifecycle;
+  }
 
   constructor(param: VersionedArvoContractParam<TContract, TVersion>) {
     this._version = param.version;
@@ -67,6 +82,25 @@ export class VersionedArvoContract<
     };
     this._emits = param.contract.versions[param.version].emits;
     this._emitList = transformEmitsToArray(this.emits);
+    this._lifecycle = param.contract.versions[param.version].lifecycle ?? null;
+  }
+
+  /**
+   * Whether this version of the contract is deprecated
+   */
+  public get isDeprecated(): boolean {
+    return this._lifecycle?.deprecated ?? false;
+  }
+
+  /**
+   * Checks whether the sunset date of this version of the contract has passed.
+   *
+   * @param [now] - The reference date. Defaults to the current time of the global clock (see `setArvoProviders`)
+   * @returns False if the version does not define a sunset date
+   */
+  public isSunset(now: Date = getArvoProviders().clock.now()): boolean {
+    if (!this._lifecycle?.sunset) return false;
+    return now.getTime() >= new Date(this._lifecycle.sunset).getTime();
   }
 
   /**
@@ -93,6 +127,17 @@ export class VersionedArvoContract<
           type: key,
           schema: zodToJsonSchema(value as any),
         })),
+        ...(this._lifecycle
+          ? {
+              lifecycle: {
+                deprecated: this._lifecycle.deprecated,
+                sunset: this._lifecycle.sunset ?? null,
+                replacement: this._lifecycle.replacement ?? null,
+                reason: this._lifecycle.reason ?? null,
+                enforceSunset: this._lifecycle.enforceSunset ?? false,
+              },
+            }
+          : {}),
       };
     } catch (e) {
       const errorMessage = `VersionedArvoContract.toJsonSchema failed: ${(e as Error).message}`;
@@ -103,4 +148,123 @@ export class VersionedArvoContract<
       throw new Error(errorMessage);
     }
   }
+
+  /**
+   * Validates an incoming event against this version of the contract. The validation
+   * checks, in order, that:
+   * - The event type is defined by one of the given contract records, i.e. it is the
+   *   accepted event type, an emitted event type or the system error event type.
+   * - The event dataschema, if present, matches `{uri}/{version}` of this contract. A system
+   *   error event may also have the wildcard version in its dataschema.
+   * - The event data matches the zod schema of the event type.
+   *
+   * @param event - The incoming event to validate
+   * @param [records] - The contract records the event type is allowed to match. For example,
+   * a handler receives only `['accepts']` while an orchestrator receives `['emits', 'systemError']`.
+   * Defaults to all the records.
+   *
+   * @returns On success, the matched record and the event narrowed to its type. The event data
+   * is the output of the zod schema (e.g. with the defaults applied). On failure, a
+   * {@link ViolationError} describing the mismatch with the event details in its metadata.
+   *
+   * @example
+   * ```typescript
+   * const result = contract.version('1.0.0').validateEvent(event, ['accepts']);
+   * if (!result.success) {
+   *   throw result.error;
+   * }
+   * console.log(result.event.data); // Typed as the accepted data
+   * ```
+   */
+  public validateEvent(
+    event: ArvoEvent,
+    records: VersionedArvoContractEventRecord[] = ['accepts', 'emits', 'systemError'],
+  ): VersionedArvoContractEventValidationResult<VersionedArvoContract<TContract, TVersion>> {
+    const violation = (type: ArvoContractViolationType, message: string, metadata?: Record<string, any>) => ({
+      success: false as const,
+      error: new ViolationError<ArvoContractViolationType>({
+        type,
+        message,
+        metadata: {
+          contract: { uri: this.uri, version: this.version },
+          event: { id: event.id, type: event.type, dataschema: event.dataschema },
+          ...metadata,
+        },
+      }),
+    });
+
+    let record: VersionedArvoContractEventRecord | null = null;
+    let schema: z.ZodTypeAny | null = null;
+    if (records.includes('accepts') && event.type === this._accepts.type) {
+      record = 'accepts';
+      schema = this._accepts.schema;
+    } else if (records.includes('systemError') && event.type === this.systemError.type) {
+      record = 'systemError';
+      schema = this.systemError.schema;
+    } else if (records.includes('emits') && Object.prototype.hasOwnProperty.call(this._emits, event.type)) {
+      record = 'emits';
+      schema = (this._emits as Record<string, z.ZodTypeAny>)[event.type];
+    }
+    if (!record || !schema) {
+      const expected = [
+        ...(records.includes('accepts') ? [this._accepts.type] : []),
+        ...(records.includes('emits') ? Object.keys(this._emits) : []),
+        ...(records.includes('systemError') ? [this.systemError.type] : []),
+      ];
+      return violation(
+        'EVENT_TYPE_MISMATCH',
+        `The event type '${event.type}' is not defined by the contract (uri=${this.uri}, version=${this.version}). Expected one of [${expected.join(', ')}]`,
+        { expected },
+      );
+    }
+
+    if (event.dataschema !== null) {
+      const parsed = EventDataschemaUtil.parse(event.dataschema);
+      const allowedVersions: ArvoSemanticVersion[] =
+        record === 'systemError' ? [this.version, WildCardArvoSemanticVersion] : [this.version];
+      if (!parsed || parsed.uri !== this.uri || !allowedVersions.includes(parsed.version)) {
+        const expected = allowedVersions.map((version) => EventDataschemaUtil.build(this.uri, version));
+        return violation(
+          'DATASCHEMA_MISMATCH',
+          `The event (type=${event.type}) dataschema '${event.dataschema}' does not match the contract dataschema. Expected one of [${expected.join(', ')}]`,
+          { expected },
+        );
+      }
+    }
+
+    const { dataref } = event.extensions as Record<string, unknown>;
+    if (typeof dataref === 'string') {
+      return violation(
+        'DATA_OFFLOADED',
+        `The event (type=${event.type}) data is offloaded to a blob store (dataref=${dataref}). The event must be rehydrated via the ArvoEventClaimCheck before the validation`,
+        { dataref },
+      );
+    }
+
+    const result = schema.safeParse(event.data);
+    if (!result.success) {
+      const error = redactZodError(result.error, getContractSensitiveDataPaths(this, event.type));
+      const issues = error.issues.map((issue) => ({
+        path: issue.path.join('.') || '<root>',
+        message: issue.message,
+      }));
+      return violation(
+        'INVALID_DATA',
+        `The event (type=${event.type}) data does not match the contract (uri=${this.uri}, version=${this.version}) schema -> ${issues.map((item) => `${item.path}: ${item.message}`).join('; ')}`,
+        { issues },
+      );
+    }
+
+    const { data, ...context } = event.cloudevent.default;
+    return {
+      success: true,
+      record,
+      event: new ArvoEvent(
+        { ...context, ...event.cloudevent.extensions, specversion: '1.0' },
+        result.data,
+        event.extensions,
+        event.sensitiveDataPaths,
+      ),
+    } as VersionedArvoContractEventValidationResult<VersionedArvoContract<TContract, TVersion>>;
+  }
 }
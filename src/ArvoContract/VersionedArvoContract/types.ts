@@ -1,6 +1,11 @@
+import type { z } from 'zod';
 import type { zodToJsonSchema } from 'zod-to-json-schema';
+import type { VersionedArvoContract } from '.';
 import type ArvoContract from '..';
+import type ArvoEvent from '../../ArvoEvent';
+import type { ViolationError } from '../../errors';
 import type { ArvoSemanticVersion } from '../../types';
+import type { ArvoContractVersionLifecycle } from '../types';
 
 /**
  * Represents a version-specific view of an ArvoContract, providing type-safe access
@@ -42,4 +47,55 @@ export type VersionedArvoContractJSONSchema = {
   systemError: ArvoContractRecordJsonSchema;
   emits: ArvoContractRecordJsonSchema[];
   metadata: Record<string, any> | null;
+  /** The lifecycle of the version. It is only present when the version defines one */
+  lifecycle?: ArvoContractVersionLifecycle;
 };
+
+/**
+ * The contract records against which an incoming event can be validated
+ */
+export type VersionedArvoContractEventRecord = 'accepts' | 'emits' | 'systemError';
+
+/**
+ * The categories of the contract violations detected when validating an incoming event
+ * - `EVENT_TYPE_MISMATCH`: The event type is not defined by the validated contract records
+ * - `DATASCHEMA_MISMATCH`: The event dataschema does not match the contract uri and version
+ * - `INVALID_DATA`: The event data does not match the contract schema of the event type
+ * - `DATA_OFFLOADED`: The event data is offloaded to a blob store and the event must be rehydrated first
+ */
+export type ArvoContractViolationType =
+  | 'EVENT_TYPE_MISMATCH'
+  | 'DATASCHEMA_MISMATCH'
+  | 'INVALID_DATA'
+  | 'DATA_OFFLOADED';
+
+/**
+ * The result of validating an incoming event against a versioned contract. On success,
+ * the event is narrowed to the contract record which defines its type.
+ */
+export type VersionedArvoContractEventValidationResult<TContract extends VersionedArvoContract<any, any>> =
+  | {
+      success: true;
+      record: 'accepts';
+      event: ArvoEvent<z.infer<TContract['accepts']['schema']>, Record<string, any>, TContract['accepts']['type']>;
+    }
+  | {
+      success: true;
+      record: 'emits';
+      event: {
+        [K in string & keyof TContract['emits']]: ArvoEvent<z.infer<TContract['emits'][K]>, Record<string, any>, K>;
+      }[string & keyof TContract['emits']];
+    }
+  | {
+      success: true;
+      record: 'systemError';
+      event: ArvoEvent<
+        z.infer<TContract['systemError']['schema']>,
+        Record<string, any>,
+        TContract['systemError']['type']
+      >;
+    }
+  | {
+      success: false;
+      error: ViolationError<ArvoContractViolationType>;
+    };
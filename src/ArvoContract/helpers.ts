@@ -3,6 +3,7 @@ import ArvoContract from '.';
 import { ArvoOrchestratorEventTypeGen } from '../ArvoOrchestratorContract/typegen';
 import type { ArvoSemanticVersion } from '../types';
 import { cleanString } from '../utils';
+import type { ArvoContractVersionLifecycle } from './types';
 
 /**
  * Creates a validated ArvoContract instance with full control over event types and schemas.
@@ -43,6 +44,7 @@ export const createArvoContract = <
     {
       accepts: z.ZodTypeAny;
       emits: Record<string, z.ZodTypeAny>;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   >,
   TMetaData extends Record<string, any> = Record<string, any>,
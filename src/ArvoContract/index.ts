@@ -1,11 +1,18 @@
 import type { z } from 'zod';
 import { logToSpan } from '../OpenTelemetry';
-import { ArvoErrorSchema, ArvoSemanticVersionSchema } from '../schema';
-import type { ArvoSemanticVersion } from '../types';
-import { compareSemanticVersions } from '../utils';
+import { ArvoErrorSchema, ArvoSemanticVersionSchema, isValidArvoSemanticVersion } from '../schema';
+import type { ArvoSemanticVersion, ArvoSemanticVersionRange } from '../types';
+import { compareSemanticVersions, resolveSemanticVersionRange } from '../utils';
+import { checkArvoContractCompatibility } from './Compatibility';
+import type { ArvoContractCompatibilityLevel, ArvoContractCompatibilityReport } from './Compatibility/types';
 import { VersionedArvoContract } from './VersionedArvoContract';
 import { WildCardArvoSemanticVersion, isWildCardArvoSematicVersion } from './WildCardArvoSemanticVersion';
-import type { ArvoContractJSONSchema, ArvoContractParam, ArvoContractRecord } from './types';
+import type {
+  ArvoContractJSONSchema,
+  ArvoContractParam,
+  ArvoContractRecord,
+  ArvoContractVersionLifecycle,
+} from './types';
 import { ArvoContractValidators } from './validators';
 
 /**
@@ -47,12 +54,14 @@ export default class ArvoContract<
     {
       accepts: z.ZodTypeAny;
       emits: Record<string, z.ZodTypeAny>;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   > = Record<
     ArvoSemanticVersion,
     {
       accepts: z.ZodTypeAny;
       emits: Record<string, z.ZodTypeAny>;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   >,
   TMetaData extends Record<string, any> = Record<string, any>,
@@ -93,6 +102,9 @@ export default class ArvoContract<
    * @throws {Error} When version string is not valid semantic version
    * @throws {Error} When version is a reserved wildcard version
    * @throws {Error} When emit type format is invalid
+   * @throws {Error} When a version lifecycle is invalid, e.g. the sunset is not a valid date, the version
+   * replaces itself or the replacement is not a version of the contract
+   * @throws {Error} When the `sensitiveFields` of the metadata are not an array of valid JSON paths
    * @throws {Error} When no versions are provided
    * @throws {Error} When domain does not have follow the condition Domain must contain only lowercase letters, numbers, and dots
    */
@@ -100,6 +112,9 @@ export default class ArvoContract<
     ArvoContractValidators.contract.uri.parse(params.uri);
     ArvoContractValidators.record.type.parse(params.type);
     ArvoContractValidators.contract.domain.parse(params.domain);
+    ArvoContractValidators.contract.sensitiveFields.parse(
+      (params.metadata as Record<string, unknown> | undefined)?.sensitiveFields,
+    );
 
     this._uri = params.uri;
     this._type = params.type;
@@ -118,6 +133,20 @@ export default class ArvoContract<
       for (const emitType of Object.keys(versionContract.emits)) {
         ArvoContractValidators.record.type.parse(emitType);
       }
+      if (versionContract.lifecycle) {
+        ArvoContractValidators.version.lifecycle.parse(versionContract.lifecycle);
+        if (versionContract.lifecycle.replacement === version) {
+          throw new Error(
+            `For contract (uri=${params.uri}), the version '${version}' cannot be the replacement of itself.`,
+          );
+        }
+        const replacement = versionContract.lifecycle.replacement;
+        if (replacement && !(replacement in params.versions)) {
+          throw new Error(
+            `For contract (uri=${params.uri}), the replacement '${replacement}' of the version '${version}' is not a version of the contract.`,
+          );
+        }
+      }
     }
 
     if (!Object.keys(this._versions).length) {
@@ -155,27 +184,43 @@ export default class ArvoContract<
    * - Specific version (e.g., "1.0.0")
    * - "latest" or "any" for the most recent version
    * - "oldest" for the first version
+   * - A semantic version range (e.g. "^1.0.0", "~2.3.0", ">=2.3.0", "1.x" or "^1.0.0 || ^3.0.0")
+   *   for the highest version within the range. See {@link ArvoSemanticVersionRange}
    *
-   * @returns A versioned contract instance with type-safe schemas
+   * @returns A versioned contract instance with type-safe schemas. For a range, the
+   * version type is the union of all the contract versions as it is resolved at runtime
    *
-   * @throws {Error} When an invalid or non-existent version is requested
+   * @throws {Error} When an invalid or non-existent version is requested, or when
+   * no version of the contract is within the requested range
    */
-  public version<V extends (ArvoSemanticVersion & keyof TVersions) | 'any' | 'latest' | 'oldest'>(
+  public version<
+    V extends (ArvoSemanticVersion & keyof TVersions) | 'any' | 'latest' | 'oldest' | ArvoSemanticVersionRange,
+  >(
     option: V,
   ): V extends ArvoSemanticVersion & keyof TVersions
     ? VersionedArvoContract<typeof this, V>
-    : VersionedArvoContract<any, any> {
+    : V extends 'any' | 'latest' | 'oldest'
+      ? VersionedArvoContract<any, any>
+      : VersionedArvoContract<typeof this, ArvoSemanticVersion & keyof TVersions> {
     let resolvedVersion: ArvoSemanticVersion & keyof TVersions;
 
     if (option === 'any' || option === 'latest') {
       resolvedVersion = this.getSortedVersionNumbers('DESC')[0];
     } else if (option === 'oldest') {
       resolvedVersion = this.getSortedVersionNumbers('ASC')[0];
-      // @ts-ignore
-    } else if (!this._versions[option]) {
-      throw new Error(`The contract (uri=${this._uri}) does not have version=${option}`);
-    } else {
+    } else if (isValidArvoSemanticVersion(option)) {
+      if (!this._versions[option as ArvoSemanticVersion & keyof TVersions]) {
+        throw new Error(`The contract (uri=${this._uri}) does not have version=${option}`);
+      }
       resolvedVersion = option as ArvoSemanticVersion & keyof TVersions;
+    } else {
+      const matched = resolveSemanticVersionRange(this.getSortedVersionNumbers('ASC'), option);
+      if (!matched) {
+        throw new Error(
+          `The contract (uri=${this._uri}) does not have a version within the range '${option}'. Available versions: [${this.getSortedVersionNumbers('ASC').join(', ')}]`,
+        );
+      }
+      resolvedVersion = matched as ArvoSemanticVersion & keyof TVersions;
     }
 
     return new VersionedArvoContract({
@@ -193,6 +238,26 @@ export default class ArvoContract<
     return ordering === 'DESC' ? sorted : sorted.reverse();
   }
 
+  /**
+   * Checks the compatibility between two versions of this contract by walking their
+   * `accepts` and `emits` schemas.
+   *
+   * @param from - The old version
+   * @param to - The new version
+   * @param [policy] - The compatibility level which a non-major bump must keep. Defaults to 'FULL'
+   *
+   * @returns The compatibility report. See {@link checkArvoContractCompatibility}
+   *
+   * @throws {Error} When any of the versions does not exist in the contract
+   */
+  public checkCompatibility(
+    from: ArvoSemanticVersion & keyof TVersions,
+    to: ArvoSemanticVersion & keyof TVersions,
+    policy?: Exclude<ArvoContractCompatibilityLevel, 'NONE'>,
+  ): ArvoContractCompatibilityReport {
+    return checkArvoContractCompatibility(this.version(from), this.version(to), policy);
+  }
+
   /**
    * Exports the ArvoContract instance as a plain object conforming to the IArvoContract interface.
    * This method can be used to serialize the contract or to create a new instance with the same parameters.
@@ -229,6 +294,7 @@ export default class ArvoContract<
             systemError: jsonSchema.systemError,
             emits: jsonSchema.emits,
             metadata: jsonSchema.metadata,
+            ...(jsonSchema.lifecycle ? { lifecycle: jsonSchema.lifecycle } : {}),
           };
         }),
       };
@@ -22,6 +22,27 @@ export type ArvoContractRecord<TType extends string = string, TSchema extends z.
  */
 export type ResolveArvoContractRecord<T extends ArvoContractRecord> = z.infer<T['schema']>;
 
+/**
+ * The lifecycle metadata of a contract version, used to phase out a version in favour of
+ * its replacement. A deprecated version keeps working, however, every event created for it
+ * via the event factories is reported as a warning on the active OpenTelemetry span.
+ */
+export type ArvoContractVersionLifecycle = {
+  /** Whether the version is deprecated */
+  deprecated: boolean;
+  /** The ISO 8601 date (e.g. `2025-06-30` or `2025-06-30T00:00:00Z`) after which the version is no longer supported */
+  sunset?: string | null;
+  /** The version which replaces this version */
+  replacement?: ArvoSemanticVersion | null;
+  /** The human readable reason for the deprecation */
+  reason?: string | null;
+  /**
+   * If true, the event factories refuse to create events for the version once the
+   * sunset date has passed. Defaults to false, i.e. only a warning is reported.
+   */
+  enforceSunset?: boolean;
+};
+
 /**
  * Defines the structure of an Arvo contract, including its identifier, type, and versioned schemas.
  *
@@ -38,12 +59,14 @@ export type ArvoContractParam<
     {
       accepts: z.ZodTypeAny;
       emits: Record<string, z.ZodTypeAny>;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   > = Record<
     ArvoSemanticVersion,
     {
       accepts: z.ZodTypeAny;
       emits: Record<string, z.ZodTypeAny>;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   >,
   TMetaData extends Record<string, any> = Record<string, any>,
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { parseJsonPath } from '../ArvoEventRedaction/utils';
+import { ArvoSemanticVersionSchema } from '../schema';
 import { cleanString, validateURI } from '../utils';
 
 export const ArvoContractValidators = {
@@ -20,6 +22,19 @@ export const ArvoContractValidators = {
       .regex(/^[a-z0-9.]+$/, 'Domain must contain only lowercase letters, numbers, and dots')
       .nullable()
       .describe('The contract handler domian'),
+    sensitiveFields: z
+      .array(
+        z.string().refine((value) => {
+          try {
+            parseJsonPath(value);
+            return true;
+          } catch {
+            return false;
+          }
+        }, 'The sensitive fields must be valid JSON paths e.g. $.email or $.cards[*].number'),
+      )
+      .optional()
+      .describe('The JSON paths of the sensitive fields of the event data, in the contract metadata'),
   },
   record: {
     type: z
@@ -33,4 +48,25 @@ export const ArvoContractValidators = {
       `),
       ),
   },
+  version: {
+    lifecycle: z
+      .object({
+        deprecated: z.boolean().describe('Whether the version is deprecated'),
+        sunset: z
+          .string()
+          .refine((value) => !Number.isNaN(Date.parse(value)), 'The sunset must be a valid ISO 8601 date')
+          .nullable()
+          .optional()
+          .describe('The date after which the version is no longer supported'),
+        replacement: ArvoSemanticVersionSchema.nullable()
+          .optional()
+          .describe('The version which replaces this version'),
+        reason: z.string().nullable().optional().describe('The reason for the deprecation'),
+        enforceSunset: z
+          .boolean()
+          .optional()
+          .describe('Whether the event creation is refused once the sunset date has passed'),
+      })
+      .describe('The lifecycle metadata of a contract version'),
+  },
 };
@@ -0,0 +1,21 @@
+import ArvoContractMock from '.';
+import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+import type { ArvoContractMockOptions } from './types';
+
+/**
+ * Creates an ArvoContractMock which generates seeded sample data and events for a specific version of a contract.
+ *
+ * @param contract - The versioned contract to generate the data for
+ * @param [options] - The mock options, e.g. the seed. See {@link ArvoContractMockOptions}
+ * @returns An ArvoContractMock instance for the specified contract version
+ *
+ * @example
+ * ```typescript
+ * const mock = createArvoContractMock(userContract.version('1.0.0'), { seed: 42 });
+ * const event = mock.acceptsEvent();
+ * ```
+ */
+export const createArvoContractMock = <TContract extends VersionedArvoContract<any, any>>(
+  contract: TContract,
+  options?: ArvoContractMockOptions,
+) => new ArvoContractMock(contract, options);
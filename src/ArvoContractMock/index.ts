@@ -0,0 +1,161 @@
+import type { z } from 'zod';
+import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+import type { CreateArvoEvent } from '../ArvoEvent/types';
+import type ArvoEventFactory from '../ArvoEventFactory';
+import { createArvoEventFactory } from '../ArvoEventFactory/helpers';
+import type { ArvoOrchestratorContract } from '../ArvoOrchestratorContract/types';
+import { ArvoSeededRandom } from '../ArvoProviders/utils';
+import type { ArvoContractMockOptions, ArvoMockDataOptions } from './types';
+import { generateMockData } from './utils';
+
+/**
+ * Generates sample data which is valid for a zod schema. The generation is seeded, so
+ * the same seed always generates the same data for the same schema.
+ *
+ * The generator respects the string formats (e.g. email, uuid, url, datetime), enums,
+ * literals, min/max/length constraints, optional and nullable fields, unions, intersections
+ * and nested objects and arrays. The data is generated as the input of the schema, i.e.
+ * before its transforms and defaults are applied.
+ *
+ * @param schema - The zod schema to generate the data for
+ * @param [options] - The generation options. See {@link ArvoMockDataOptions}
+ * @returns The generated data
+ *
+ * @throws {Error} If the schema contains a type which cannot be generated (e.g. `z.never()`) or a
+ * refinement which the generated data does not satisfy
+ *
+ * @example
+ * ```typescript
+ * const data = generateArvoMockData(z.object({ email: z.string().email() }), { seed: 42 });
+ * ```
+ */
+export const generateArvoMockData = <TSchema extends z.ZodTypeAny>(
+  schema: TSchema,
+  options: ArvoMockDataOptions = {},
+): z.input<TSchema> => generateMockData(schema, new ArvoSeededRandom(options.seed), options) as z.input<TSchema>;
+
+/**
+ * Generates seeded sample data and events from the schemas of a versioned contract, for
+ * fixtures, property-based and snapshot tests which stay in sync with the contract.
+ *
+ * The mock keeps a single seeded random generator, so the successive calls generate
+ * different data while the whole sequence is reproducible from the seed.
+ *
+ * @example
+ * ```typescript
+ * const mock = createArvoContractMock(userContract.version('1.0.0'), { seed: 42 });
+ *
+ * const data = mock.accepts();
+ * const event = mock.acceptsEvent({ source: 'com.test.service' });
+ * const response = mock.emitsEvent('evt.user.created', { parentid: event.id });
+ * ```
+ */
+export default class ArvoContractMock<TContract extends VersionedArvoContract<any, any>> {
+  protected readonly contract: TContract;
+  private readonly options: ArvoContractMockOptions;
+  private readonly random: ArvoSeededRandom;
+  private readonly factory: ArvoEventFactory<TContract>;
+  private readonly source: string;
+
+  /**
+   * @param contract - The versioned contract to generate the data for
+   * @param [options] - The mock options. See {@link ArvoContractMockOptions}
+   */
+  constructor(contract: TContract, options: ArvoContractMockOptions = {}) {
+    this.contract = contract;
+    this.options = options;
+    this.random = new ArvoSeededRandom(options.seed);
+    this.factory = createArvoEventFactory(contract, options.providers);
+    this.source = options.source ?? 'com.arvo.mock';
+  }
+
+  /**
+   * Generates the data of the accepted event of the contract. For an orchestrator
+   * contract, the `parentSubject$$` is null, i.e. the data of a root orchestration.
+   *
+   * @throws {Error} If the data cannot be generated. See {@link generateArvoMockData}
+   */
+  accepts(): z.input<TContract['accepts']['schema']> {
+    const data = generateMockData(this.contract.accepts.schema, this.random, this.options) as Record<string, any>;
+    if ((this.contract.metadata as ArvoOrchestratorContract['metadata'])?.contractType === 'ArvoOrchestratorContract') {
+      return { ...data, parentSubject$$: null };
+    }
+    return data;
+  }
+
+  /**
+   * Generates the data of an emitted event of the contract.
+   *
+   * @param type - The emitted event type
+   *
+   * @throws {Error} If the contract does not emit the event type
+   * @throws {Error} If the data cannot be generated. See {@link generateArvoMockData}
+   */
+  emits<U extends string & keyof TContract['emits']>(type: U): z.input<TContract['emits'][U]> {
+    const schema = (this.contract.emits as Record<string, z.ZodTypeAny>)[type];
+    if (!schema) {
+      throw new Error(
+        `The contract (uri=${this.contract.uri}, version=${this.contract.version}) does not emit the event type '${type}'`,
+      );
+    }
+    return generateMockData(schema, this.random, this.options) as z.input<TContract['emits'][U]>;
+  }
+
+  /**
+   * Creates an accepted event of the contract via {@link ArvoEventFactory.accepts} with
+   * the generated data. Any field provided in the event overrides the generated value.
+   *
+   * @param [event] - The event fields. The `source` defaults to the mock source
+   * @param [extensions] - Optional additional properties for the event
+   */
+  acceptsEvent<TExtension extends Record<string, any>>(
+    event?: Partial<
+      Omit<
+        CreateArvoEvent<z.input<TContract['accepts']['schema']>, TContract['accepts']['type']>,
+        'type' | 'datacontenttype' | 'dataschema' | 'subject' | 'domain'
+      > & { subject?: string; domain?: string | null }
+    >,
+    extensions?: TExtension,
+  ) {
+    return this.factory.accepts<TExtension>(
+      {
+        ...event,
+        source: event?.source ?? this.source,
+        data: event?.data ?? this.accepts(),
+      },
+      extensions,
+    );
+  }
+
+  /**
+   * Creates an emitted event of the contract via {@link ArvoEventFactory.emits} with
+   * the generated data. Any field provided in the event overrides the generated value.
+   *
+   * @param type - The emitted event type
+   * @param [event] - The event fields. The `source` defaults to the accepted event type of the contract
+   * @param [extensions] - Optional additional properties for the event
+   */
+  emitsEvent<U extends string & keyof TContract['emits'], TExtension extends Record<string, any>>(
+    type: U,
+    event?: Partial<
+      Omit<
+        CreateArvoEvent<z.input<TContract['emits'][U]>, U>,
+        'type' | 'datacontenttype' | 'dataschema' | 'subject' | 'domain'
+      > & {
+        subject?: string;
+        domain?: string | null;
+      }
+    >,
+    extensions?: TExtension,
+  ) {
+    return this.factory.emits<U, TExtension>(
+      {
+        ...event,
+        type,
+        source: event?.source ?? this.contract.accepts.type,
+        data: event?.data ?? this.emits(type),
+      },
+      extensions,
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import type { ArvoProviders } from '../ArvoProviders/types';
+
+/**
+ * The options of the mock data generation
+ */
+export type ArvoMockDataOptions = {
+  /**
+   * The seed of the pseudo random generator. The same seed always generates
+   * the same data for the same schema. Defaults to 0
+   */
+  seed?: number | string;
+  /**
+   * The probability, between 0 and 1, that an optional, nullable or defaulted field
+   * is generated with a value instead of being omitted (or set to null). Defaults to 0.5
+   */
+  optionalProbability?: number;
+  /**
+   * The maximum length of the generated arrays, sets, maps and records when the
+   * schema does not constrain it. Defaults to 3
+   */
+  maxArrayLength?: number;
+  /**
+   * The maximum nesting depth of the generated data. Beyond it, the optional fields are
+   * omitted and the arrays are generated with their minimum length, so that recursive
+   * (`z.lazy`) schemas terminate. Defaults to 5
+   */
+  maxDepth?: number;
+};
+
+/**
+ * The options of the ArvoContractMock
+ */
+export type ArvoContractMockOptions = ArvoMockDataOptions & {
+  /**
+   * The default `source` of the generated events. The emitted events default to the
+   * accepted event type of the contract, i.e. the handler identity. Defaults to `com.arvo.mock`
+   */
+  source?: string;
+  /**
+   * The clock and the id generator of the generated events. Defaults to the global providers
+   * (see `setArvoProviders`). Use a manual clock and a seeded id generator for reproducible events
+   */
+  providers?: Partial<ArvoProviders>;
+};
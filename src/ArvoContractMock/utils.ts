@@ -0,0 +1,339 @@
+import { z } from 'zod';
+import type { ArvoSeededRandom } from '../ArvoProviders/utils';
+import type { ArvoMockDataOptions } from './types';
+
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+const ALPHANUMERIC = `${LOWERCASE}0123456789`;
+const HEX = '0123456789abcdef';
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const NANOID = `${ALPHANUMERIC}ABCDEFGHIJKLMNOPQRSTUVWXYZ_-`;
+
+// The generated dates are within [2020-01-01, 2030-01-01) unless the schema constrains them
+const MIN_DATE = Date.UTC(2020, 0, 1);
+const MAX_DATE = Date.UTC(2030, 0, 1);
+
+type GeneratorContext = {
+  random: ArvoSeededRandom;
+  optionalProbability: number;
+  maxArrayLength: number;
+  maxDepth: number;
+  depth: number;
+};
+
+type Check = { kind: string; value?: any; inclusive?: boolean; [key: string]: any };
+
+const getChecks = (schema: z.ZodTypeAny): Check[] => (schema._def.checks ?? []) as Check[];
+
+const getCheck = (checks: Check[], kind: string) => checks.find((item) => item.kind === kind);
+
+const nested = (context: GeneratorContext): GeneratorContext => ({ ...context, depth: context.depth + 1 });
+
+const isBeyondDepth = (context: GeneratorContext) => context.depth >= context.maxDepth;
+
+const toBase64Url = (value: string) => value.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64 = (random: ArvoSeededRandom, bytes: number, url = false) => {
+  const encoded = Buffer.from(Array.from({ length: bytes }, () => random.int(0, 255))).toString('base64');
+  return url ? toBase64Url(encoded) : encoded;
+};
+
+const isoDate = (random: ArvoSeededRandom) => new Date(random.int(MIN_DATE, MAX_DATE - 1));
+
+const generateFormattedString = (checks: Check[], random: ArvoSeededRandom): string | null => {
+  const word = () => random.chars(LOWERCASE, random.int(4, 8));
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'email':
+        return `${word()}@${word()}.com`;
+      case 'url':
+        return `https://${word()}.com/${word()}`;
+      case 'uuid':
+        return [8, 4, 4, 4, 12]
+          .map((length, index) => {
+            if (index === 2) return `4${random.chars(HEX, 3)}`;
+            if (index === 3) return `${random.pick(['8', '9', 'a', 'b'])}${random.chars(HEX, 3)}`;
+            return random.chars(HEX, length);
+          })
+          .join('-');
+      case 'cuid':
+        return `c${random.chars(ALPHANUMERIC, 24)}`;
+      case 'cuid2':
+        return `${random.chars(LOWERCASE, 1)}${random.chars(ALPHANUMERIC, 23)}`;
+      case 'ulid':
+        return `${random.chars('01234567', 1)}${random.chars(CROCKFORD_BASE32, 25)}`;
+      case 'nanoid':
+        return random.chars(NANOID, 21);
+      case 'datetime': {
+        const value = isoDate(random).toISOString();
+        if (check.precision === 0) return value.replace(/\.\d{3}Z$/, 'Z');
+        if (typeof check.precision === 'number' && check.precision !== 3) {
+          return value.replace(/\.\d{3}Z$/, `.${random.chars('0123456789', check.precision)}Z`);
+        }
+        return value;
+      }
+      case 'date':
+        return isoDate(random).toISOString().slice(0, 10);
+      case 'time':
+        return isoDate(random).toISOString().slice(11, 19);
+      case 'duration':
+        return `P${random.int(1, 30)}DT${random.int(0, 23)}H`;
+      case 'ip':
+        return check.version === 'v6'
+          ? Array.from({ length: 8 }, () => random.chars(HEX, 4)).join(':')
+          : Array.from({ length: 4 }, () => random.int(1, 254)).join('.');
+      case 'cidr':
+        return check.version === 'v6'
+          ? `${Array.from({ length: 8 }, () => random.chars(HEX, 4)).join(':')}/64`
+          : `${Array.from({ length: 4 }, () => random.int(1, 254)).join('.')}/24`;
+      case 'base64':
+        return base64(random, random.int(3, 12) * 3);
+      case 'base64url':
+        return base64(random, random.int(3, 12) * 3, true);
+      case 'jwt': {
+        const encode = (value: object) => toBase64Url(Buffer.from(JSON.stringify(value)).toString('base64'));
+        const header = encode({ alg: check.alg ?? 'HS256', typ: 'JWT' });
+        return `${header}.${encode({ sub: word() })}.${base64(random, 32, true)}`;
+      }
+      case 'emoji':
+        return random.pick(['😀', '🚀', '🎉', '✅']);
+    }
+  }
+  return null;
+};
+
+const generateString = (schema: z.ZodString, context: GeneratorContext): string => {
+  const { random } = context;
+  const checks = getChecks(schema);
+  const formatted = generateFormattedString(checks, random);
+  if (formatted !== null) return formatted;
+
+  const prefix = getCheck(checks, 'startsWith')?.value ?? '';
+  const suffix = getCheck(checks, 'endsWith')?.value ?? '';
+  const includes = getCheck(checks, 'includes')?.value ?? '';
+  const exact = getCheck(checks, 'length')?.value;
+  const min = exact ?? getCheck(checks, 'min')?.value ?? 1;
+  const max = exact ?? getCheck(checks, 'max')?.value ?? Math.max(min, 12);
+  const fixedLength = prefix.length + includes.length + suffix.length;
+  const length = Math.max(random.int(Math.min(min, max), max) - fixedLength, 0);
+  const value = `${prefix}${includes}${random.chars(LOWERCASE, length)}${suffix}`;
+
+  const regex = getCheck(checks, 'regex')?.regex as RegExp | undefined;
+  if (!regex || regex.test(value)) return value;
+  // A string cannot be generated from a regex in general, so a few common shapes
+  // are tried in turn with the lengths allowed by the schema
+  const shapes: ((size: number) => string)[] = [
+    (size) => random.chars(LOWERCASE, size),
+    (size) => random.chars('0123456789', size),
+    (size) => random.chars(ALPHANUMERIC, size),
+    (size) => random.chars(LOWERCASE, size).toUpperCase(),
+    (size) => Array.from({ length: size }, () => random.chars(LOWERCASE, 4)).join('.'),
+    (size) => Array.from({ length: size }, () => random.chars(LOWERCASE, 4)).join('-'),
+  ];
+  for (const shape of shapes) {
+    for (let size = Math.max(min, 1); size <= Math.min(max, 16); size++) {
+      const candidate = shape(size);
+      if (regex.test(candidate)) return candidate;
+    }
+  }
+  return value;
+};
+
+const generateNumber = (schema: z.ZodNumber, context: GeneratorContext): number => {
+  const { random } = context;
+  const checks = getChecks(schema);
+  const isInt = Boolean(getCheck(checks, 'int'));
+  const minCheck = getCheck(checks, 'min');
+  const maxCheck = getCheck(checks, 'max');
+  const step = isInt ? 1 : 0.01;
+  const upperBound: number | null = maxCheck ? maxCheck.value - (maxCheck.inclusive ? 0 : step) : null;
+  const min: number = minCheck
+    ? minCheck.value + (minCheck.inclusive ? 0 : step)
+    : upperBound !== null
+      ? Math.min(0, upperBound - 1000)
+      : 0;
+  const max: number = upperBound ?? min + 1000;
+
+  const multipleOf = getCheck(checks, 'multipleOf')?.value as number | undefined;
+  if (multipleOf) {
+    const lower = Math.ceil(min / multipleOf);
+    const upper = Math.floor(max / multipleOf);
+    return random.int(lower, Math.max(lower, upper)) * multipleOf;
+  }
+  if (isInt) return random.int(Math.ceil(min), Math.floor(max));
+  return Math.round(random.float(min, max) * 100) / 100;
+};
+
+const generateBigInt = (schema: z.ZodBigInt, context: GeneratorContext): bigint => {
+  const checks = getChecks(schema);
+  const minCheck = getCheck(checks, 'min');
+  const maxCheck = getCheck(checks, 'max');
+  const min = minCheck ? Number(minCheck.value) + (minCheck.inclusive ? 0 : 1) : 0;
+  const max = maxCheck ? Number(maxCheck.value) - (maxCheck.inclusive ? 0 : 1) : min + 1000;
+  return BigInt(context.random.int(min, max));
+};
+
+const generateDate = (schema: z.ZodDate, context: GeneratorContext): Date => {
+  const checks = getChecks(schema);
+  const min = getCheck(checks, 'min')?.value ?? MIN_DATE;
+  const max = getCheck(checks, 'max')?.value ?? Math.max(min, MAX_DATE - 1);
+  return new Date(context.random.int(min, max));
+};
+
+const getLength = (
+  context: GeneratorContext,
+  bounds: { min?: number | null; max?: number | null; exact?: number | null },
+): number => {
+  if (bounds.exact !== null && bounds.exact !== undefined) return bounds.exact;
+  const min = bounds.min ?? 0;
+  if (isBeyondDepth(context)) return min;
+  const max = bounds.max ?? Math.max(min, context.maxArrayLength);
+  return context.random.int(min, max);
+};
+
+const generateObject = (schema: z.ZodObject<any>, context: GeneratorContext): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    const generated = generateValue(value, nested(context));
+    if (generated !== undefined) {
+      result[key] = generated;
+    }
+  }
+  return result;
+};
+
+const merge = (left: unknown, right: unknown): unknown => {
+  if (left && right && typeof left === 'object' && typeof right === 'object' && !Array.isArray(left)) {
+    return { ...(left as object), ...(right as object) };
+  }
+  return right === undefined ? left : right;
+};
+
+/**
+ * Generates a value which is valid for the zod schema, as its input (i.e. before the
+ * transforms and defaults of the schema are applied).
+ *
+ * @throws {Error} If the schema type cannot be generated, e.g. `z.never()`, `z.function()` or `z.promise()`
+ */
+export const generateValue = (schema: z.ZodTypeAny, context: GeneratorContext): unknown => {
+  const { random } = context;
+  if (schema instanceof z.ZodString) return generateString(schema, context);
+  if (schema instanceof z.ZodNumber) return generateNumber(schema, context);
+  if (schema instanceof z.ZodBigInt) return generateBigInt(schema, context);
+  if (schema instanceof z.ZodBoolean) return random.bool();
+  if (schema instanceof z.ZodDate) return generateDate(schema, context);
+  if (schema instanceof z.ZodNull) return null;
+  if (schema instanceof z.ZodUndefined || schema instanceof z.ZodVoid) return undefined;
+  if (schema instanceof z.ZodNaN) return Number.NaN;
+  if (schema instanceof z.ZodLiteral) return schema.value;
+  if (schema instanceof z.ZodEnum) return random.pick(schema.options as string[]);
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.entries(schema.enum as Record<string, string | number>)
+      // The numeric enums have a reverse mapping from the value to the key
+      .filter(([key]) => Number.isNaN(Number(key)))
+      .map(([, value]) => value);
+    return random.pick(values);
+  }
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return random.chars(LOWERCASE, 8);
+  if (schema instanceof z.ZodObject) return generateObject(schema, context);
+  if (schema instanceof z.ZodArray) {
+    const length = getLength(context, {
+      min: schema._def.minLength?.value,
+      max: schema._def.maxLength?.value,
+      exact: schema._def.exactLength?.value,
+    });
+    return Array.from({ length }, () => generateValue(schema.element, nested(context)));
+  }
+  if (schema instanceof z.ZodTuple) {
+    const items = (schema.items as z.ZodTypeAny[]).map((item) => generateValue(item, nested(context)));
+    const rest = schema._def.rest as z.ZodTypeAny | null;
+    const restLength = rest ? getLength(context, {}) : 0;
+    return [
+      ...items,
+      ...Array.from({ length: restLength }, () => generateValue(rest as z.ZodTypeAny, nested(context))),
+    ];
+  }
+  if (schema instanceof z.ZodSet) {
+    const length = getLength(context, { min: schema._def.minSize?.value, max: schema._def.maxSize?.value });
+    const result = new Set<unknown>();
+    // The duplicates are dropped, so a bounded number of attempts is made to reach the length
+    for (let attempt = 0; result.size < length && attempt < length * 10; attempt++) {
+      result.add(generateValue(schema._def.valueType, nested(context)));
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodMap) {
+    const length = getLength(context, {});
+    return new Map(
+      Array.from({ length }, () => [
+        generateValue(schema._def.keyType, nested(context)),
+        generateValue(schema._def.valueType, nested(context)),
+      ]),
+    );
+  }
+  if (schema instanceof z.ZodRecord) {
+    const length = getLength(context, {});
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = generateValue(schema.keySchema, nested(context));
+      result[String(key)] = generateValue(schema.valueSchema, nested(context));
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = (schema instanceof z.ZodUnion ? schema.options : Array.from(schema.options)) as z.ZodTypeAny[];
+    return generateValue(random.pick(options), context);
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return merge(generateValue(schema._def.left, context), generateValue(schema._def.right, context));
+  }
+  if (schema instanceof z.ZodOptional) {
+    if (isBeyondDepth(context) || !random.bool(context.optionalProbability)) return undefined;
+    return generateValue(schema.unwrap(), context);
+  }
+  if (schema instanceof z.ZodNullable) {
+    if (isBeyondDepth(context) || !random.bool(context.optionalProbability)) return null;
+    return generateValue(schema.unwrap(), context);
+  }
+  if (schema instanceof z.ZodDefault) {
+    if (!random.bool(context.optionalProbability)) return undefined;
+    return generateValue(schema._def.innerType, context);
+  }
+  if (schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly) {
+    return generateValue(schema._def.innerType, context);
+  }
+  if (schema instanceof z.ZodBranded) return generateValue(schema.unwrap(), context);
+  if (schema instanceof z.ZodEffects) return generateValue(schema.innerType(), context);
+  if (schema instanceof z.ZodPipeline) return generateValue(schema._def.in, context);
+  if (schema instanceof z.ZodLazy) return generateValue(schema.schema, context);
+  throw new Error(`Cannot generate the mock data of the zod type '${schema._def.typeName}'`);
+};
+
+/**
+ * Generates the mock data of a zod schema with the given seeded random generator
+ *
+ * @throws {Error} If no valid data is generated within a few attempts, e.g. because
+ * of a refinement or a regex which the generator cannot satisfy
+ */
+export const generateMockData = (
+  schema: z.ZodTypeAny,
+  random: ArvoSeededRandom,
+  options: Omit<ArvoMockDataOptions, 'seed'> = {},
+): unknown => {
+  const context: GeneratorContext = {
+    random,
+    optionalProbability: options.optionalProbability ?? 0.5,
+    maxArrayLength: options.maxArrayLength ?? 3,
+    maxDepth: options.maxDepth ?? 5,
+    depth: 0,
+  };
+  let error: z.ZodError | null = null;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const value = generateValue(schema, context);
+    const result = schema.safeParse(value);
+    if (result.success) return value;
+    error = result.error;
+  }
+  throw new Error(
+    `Unable to generate mock data which satisfies the schema -> ${error?.issues.map((item) => `${item.path.join('.') || '<root>'}: ${item.message}`).join('; ')}`,
+  );
+};
@@ -0,0 +1,17 @@
+import ArvoContractPact from '.';
+
+/**
+ * Creates an ArvoContractPact which records the expectations of a consumer on the events
+ * emitted by the producer of a contract.
+ *
+ * @param param - The pact parties
+ * @param param.consumer - The name of the consuming service, e.g. its event source
+ * @param param.contract - The uri of the producer contract
+ * @returns A new ArvoContractPact instance without expectations
+ *
+ * @example
+ * ```typescript
+ * const pact = createArvoContractPact({ consumer: 'com.billing.service', contract: userContract.uri });
+ * ```
+ */
+export const createArvoContractPact = (param: { consumer: string; contract: string }) => new ArvoContractPact(param);
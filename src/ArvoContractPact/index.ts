@@ -0,0 +1,197 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type ArvoEvent from '../ArvoEvent';
+import { isValidArvoSemanticVersion } from '../schema';
+import type { ArvoSemanticVersion, ArvoSemanticVersionRange } from '../types';
+import { EventDataschemaUtil, satisfiesSemanticVersionRange } from '../utils';
+import type { ArvoContractPactExpectation, ArvoContractPactExpectationParam, ArvoContractPactJSON } from './types';
+
+const PACT_FILE_SUFFIX = '.pact.json';
+
+const toFileNameSegment = (value: string) =>
+  value
+    .replace(/[^a-zA-Z0-9.-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+
+// The samples are stored as they are read back from the pact file
+const toJsonValue = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+/**
+ * Records the expectations of a consumer on the events emitted by the producer of a
+ * contract, as a pact-like JSON file. The pact files are written from the consumer tests
+ * and shared with the producer, which verifies them against its contract with
+ * {@link verifyArvoContractPact}, so that a producer change which breaks a consumer is
+ * caught in the producer tests without any network.
+ *
+ * @example
+ * ```typescript
+ * // In the consumer tests
+ * const pact = createArvoContractPact({ consumer: 'com.billing.service', contract: '#/services/user' });
+ *
+ * pact.expect({
+ *   description: 'bills the created user',
+ *   type: 'evt.user.created',
+ *   version: '^1.0.0',
+ *   shape: z.object({ id: z.string(), email: z.string() }),
+ * });
+ * pact.expectEvent(receivedEvent, { description: 'bills the created user' });
+ *
+ * await pact.write('./pacts');
+ * ```
+ */
+export default class ArvoContractPact {
+  protected readonly _consumer: string;
+  protected readonly _contract: string;
+  protected readonly _expectations: ArvoContractPactExpectation[] = [];
+
+  /**
+   * @param param - The pact parties
+   * @param param.consumer - The name of the consuming service, e.g. its event source
+   * @param param.contract - The uri of the producer contract
+   */
+  constructor(param: { consumer: string; contract: string }) {
+    if (!param.consumer) {
+      throw new Error('The pact consumer must be a non-empty string');
+    }
+    this._consumer = param.consumer;
+    this._contract = param.contract;
+  }
+
+  public get consumer() {
+    return this._consumer;
+  }
+  public get contract() {
+    return this._contract;
+  }
+  public get expectations(): ArvoContractPactExpectation[] {
+    return [...this._expectations];
+  }
+
+  /**
+   * Records an expectation. The samples of an expectation with the same description,
+   * event type and version are appended to the already recorded ones.
+   *
+   * @param param - The expectation. It must have at least one sample or a shape
+   * @returns The pact itself to allow chaining
+   *
+   * @throws {Error} If the version is neither a semantic version nor a valid range
+   * @throws {Error} If the expectation has neither a sample nor a shape
+   */
+  public expect(param: ArvoContractPactExpectationParam): this {
+    if (!isValidArvoSemanticVersion(param.version)) {
+      // Throws on an invalid range
+      satisfiesSemanticVersionRange('0.0.0', param.version as ArvoSemanticVersionRange);
+    }
+    const samples = toJsonValue(param.samples ?? []) as unknown[];
+    const shape = param.shape ? zodToJsonSchema(param.shape as any) : null;
+    const existing = this._expectations.find(
+      (item) => item.description === param.description && item.type === param.type && item.version === param.version,
+    );
+    if (existing) {
+      existing.samples.push(...samples);
+      existing.shape = shape ?? existing.shape;
+      return this;
+    }
+    if (!samples.length && !shape) {
+      throw new Error(
+        `The pact expectation '${param.description}' (type=${param.type}) must have at least one sample or a shape`,
+      );
+    }
+    this._expectations.push({
+      description: param.description,
+      type: param.type,
+      version: param.version,
+      samples,
+      shape,
+    });
+    return this;
+  }
+
+  /**
+   * Records the data of an event received by the consumer as a sample. The event
+   * type and, unless provided, the contract version are taken from the event.
+   *
+   * @param event - The event handled by the consumer
+   * @param param - The expectation description, and optionally the version (range) and the shape
+   * @returns The pact itself to allow chaining
+   *
+   * @throws {Error} If the event dataschema does not reference a version of the pact contract
+   */
+  public expectEvent(
+    event: ArvoEvent,
+    param: { description: string } & Partial<Pick<ArvoContractPactExpectationParam, 'version' | 'shape'>>,
+  ): this {
+    const dataschema = event.dataschema ? EventDataschemaUtil.parse(event.dataschema) : null;
+    if (!dataschema || dataschema.uri !== this._contract) {
+      throw new Error(
+        `The event (type=${event.type}, dataschema=${event.dataschema}) does not belong to the pact contract (uri=${this._contract})`,
+      );
+    }
+    return this.expect({
+      description: param.description,
+      type: event.type,
+      version: param.version ?? (dataschema.version as ArvoSemanticVersion),
+      samples: [event.data],
+      shape: param.shape,
+    });
+  }
+
+  /**
+   * @returns The pact file content
+   */
+  public toJSON(): ArvoContractPactJSON {
+    return {
+      pactVersion: '1',
+      consumer: this._consumer,
+      contract: this._contract,
+      expectations: this.expectations,
+    };
+  }
+
+  /**
+   * Writes the pact file, named `{consumer}--{contract}.pact.json`, to the directory.
+   *
+   * @param directory - The directory of the pact files. It is created if missing
+   * @returns The path of the written pact file
+   */
+  public async write(directory: string): Promise<string> {
+    await mkdir(directory, { recursive: true });
+    const path = join(
+      directory,
+      `${toFileNameSegment(this._consumer)}--${toFileNameSegment(this._contract)}${PACT_FILE_SUFFIX}`,
+    );
+    await writeFile(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`, 'utf8');
+    return path;
+  }
+
+  /**
+   * Reads a pact file.
+   *
+   * @param path - The path of the pact file
+   * @returns The pact file content
+   *
+   * @throws {Error} If the file is not a pact file of a supported version
+   */
+  static async read(path: string): Promise<ArvoContractPactJSON> {
+    const json = JSON.parse(await readFile(path, 'utf8'));
+    if (json?.pactVersion !== '1' || !json.consumer || !json.contract || !Array.isArray(json.expectations)) {
+      throw new Error(`The file '${path}' is not a supported pact file`);
+    }
+    return json as ArvoContractPactJSON;
+  }
+
+  /**
+   * Reads all the pact files (`*.pact.json`) of a directory.
+   *
+   * @param directory - The directory of the pact files
+   * @param [contract] - If provided, only the pacts of the contract uri are returned
+   * @returns The pact files content, ordered by file name
+   */
+  static async readAll(directory: string, contract?: string): Promise<ArvoContractPactJSON[]> {
+    const files = (await readdir(directory)).filter((item) => item.endsWith(PACT_FILE_SUFFIX)).sort();
+    const pacts = await Promise.all(files.map((item) => ArvoContractPact.read(join(directory, item))));
+    return contract ? pacts.filter((item) => item.contract === contract) : pacts;
+  }
+}
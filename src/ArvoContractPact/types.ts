@@ -0,0 +1,93 @@
+import type { z } from 'zod';
+import type { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ArvoSemanticVersion, ArvoSemanticVersionRange } from '../types';
+
+/**
+ * An expectation of a consumer on an event emitted by the producer of a contract, as
+ * it is stored in the pact file.
+ */
+export type ArvoContractPactExpectation = {
+  /** The human readable description of what the consumer relies on */
+  description: string;
+  /** The emitted event type the consumer handles */
+  type: string;
+  /** The contract version, or the range of versions, the consumer handles */
+  version: ArvoSemanticVersion | ArvoSemanticVersionRange;
+  /** The sample payloads the consumer handles. Each of them must be a valid producer payload */
+  samples: unknown[];
+  /**
+   * The JSON schema of the partial shape the consumer relies on, e.g. only the fields it reads.
+   * Every payload the producer may emit must satisfy it. Null when the consumer relies on the samples only
+   */
+  shape: ReturnType<typeof zodToJsonSchema> | null;
+};
+
+/**
+ * The parameters to record an expectation. The partial shape is given as a zod schema
+ * and recorded as its JSON schema.
+ */
+export type ArvoContractPactExpectationParam = Omit<ArvoContractPactExpectation, 'samples' | 'shape'> & {
+  samples?: unknown[];
+  shape?: z.ZodTypeAny;
+};
+
+/**
+ * The pact file between a consumer and the producer of a contract
+ */
+export type ArvoContractPactJSON = {
+  /** The version of the pact file format */
+  pactVersion: '1';
+  /** The name of the consuming service, e.g. its event source */
+  consumer: string;
+  /** The uri of the producer contract */
+  contract: string;
+  expectations: ArvoContractPactExpectation[];
+};
+
+/**
+ * The categories of the mismatches found when verifying a pact against a producer contract
+ * - `VERSION_NOT_FOUND`: No version of the contract is within the expected version or range
+ * - `EVENT_TYPE_NOT_EMITTED`: The contract version does not emit the expected event type
+ * - `SAMPLE_REJECTED`: A consumer sample is not a valid payload of the producer
+ * - `SHAPE_VIOLATED`: A payload the producer may emit does not satisfy the consumer shape
+ * - `PAYLOAD_GENERATION_FAILED`: The producer payloads, to check against the consumer shape, cannot be generated
+ */
+export type ArvoContractPactMismatchKind =
+  | 'VERSION_NOT_FOUND'
+  | 'EVENT_TYPE_NOT_EMITTED'
+  | 'SAMPLE_REJECTED'
+  | 'SHAPE_VIOLATED'
+  | 'PAYLOAD_GENERATION_FAILED';
+
+export type ArvoContractPactMismatch = {
+  kind: ArvoContractPactMismatchKind;
+  /** The description of the expectation */
+  expectation: string;
+  type: string;
+  /** The verified contract version. Null when no version matches the expectation */
+  version: ArvoSemanticVersion | null;
+  message: string;
+};
+
+/**
+ * The result of verifying a pact against a producer contract
+ */
+export type ArvoContractPactVerificationReport = {
+  consumer: string;
+  contract: string;
+  /** True if no mismatch is found */
+  success: boolean;
+  /** The number of (expectation, contract version) pairs verified */
+  verified: number;
+  mismatches: ArvoContractPactMismatch[];
+};
+
+export type ArvoContractPactVerificationOptions = {
+  /**
+   * The number of payloads generated from each producer schema to check the consumer
+   * shape against, via `generateArvoMockData`. Defaults to 30
+   */
+  samples?: number;
+  /** The seed of the generated payloads. Defaults to 0 */
+  seed?: number | string;
+};
@@ -0,0 +1,161 @@
+import type { z } from 'zod';
+import ArvoContractPact from '.';
+import type ArvoContract from '../ArvoContract';
+import { jsonSchemaToZod } from '../ArvoContract/JsonSchema/utils';
+import { generateArvoMockData } from '../ArvoContractMock';
+import { isValidArvoSemanticVersion } from '../schema';
+import type { ArvoSemanticVersion, ArvoSemanticVersionRange } from '../types';
+import { satisfiesSemanticVersionRange } from '../utils';
+import type {
+  ArvoContractPactJSON,
+  ArvoContractPactMismatch,
+  ArvoContractPactVerificationOptions,
+  ArvoContractPactVerificationReport,
+} from './types';
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((item) => `${item.path.join('.') || '<root>'}: ${item.message}`).join('; ');
+
+/**
+ * Verifies the expectations of a consumer pact against the producer contract. Each expectation is
+ * verified against every contract version within its version (range), by checking that:
+ * - The contract version emits the expected event type.
+ * - Every consumer sample is a valid payload of the producer emit schema.
+ * - Every payload the producer may emit satisfies the consumer shape. The payloads are generated
+ *   from the producer emit schema with {@link generateArvoMockData}, with and without the
+ *   optional fields, so that the consumer reliance on an optional field is caught as well.
+ *
+ * @param contract - The producer contract
+ * @param pact - The consumer pact, or the pact file content (see {@link ArvoContractPact.read})
+ * @param [options] - The verification options
+ * @returns The verification report. It is successful if no mismatch is found
+ *
+ * @throws {Error} If the pact is not about the contract
+ *
+ * @example
+ * ```typescript
+ * // In the producer tests
+ * it('satisfies the consumer pacts', async () => {
+ *   for (const pact of await ArvoContractPact.readAll('./pacts', userContract.uri)) {
+ *     expect(verifyArvoContractPact(userContract, pact).mismatches).toEqual([]);
+ *   }
+ * });
+ * ```
+ */
+export const verifyArvoContractPact = (
+  contract: ArvoContract,
+  pact: ArvoContractPact | ArvoContractPactJSON,
+  options: ArvoContractPactVerificationOptions = {},
+): ArvoContractPactVerificationReport => {
+  const json = pact instanceof ArvoContractPact ? pact.toJSON() : pact;
+  if (json.contract !== contract.uri) {
+    throw new Error(
+      `The pact of the consumer '${json.consumer}' is about the contract (uri=${json.contract}), not (uri=${contract.uri})`,
+    );
+  }
+  const sampleCount = options.samples ?? 30;
+  const versions = Object.keys(contract.versions) as ArvoSemanticVersion[];
+  const mismatches: ArvoContractPactMismatch[] = [];
+  let verified = 0;
+
+  for (const expectation of json.expectations) {
+    const mismatch = (
+      kind: ArvoContractPactMismatch['kind'],
+      version: ArvoSemanticVersion | null,
+      message: string,
+    ): ArvoContractPactMismatch => ({
+      kind,
+      expectation: expectation.description,
+      type: expectation.type,
+      version,
+      message,
+    });
+
+    const matchedVersions = versions.filter((version) =>
+      isValidArvoSemanticVersion(expectation.version)
+        ? version === expectation.version
+        : satisfiesSemanticVersionRange(version, expectation.version as ArvoSemanticVersionRange),
+    );
+    if (!matchedVersions.length) {
+      mismatches.push(
+        mismatch(
+          'VERSION_NOT_FOUND',
+          null,
+          `The contract (uri=${contract.uri}) has no version matching '${expectation.version}'. Available versions: [${versions.join(', ')}]`,
+        ),
+      );
+      continue;
+    }
+
+    const shape = expectation.shape ? jsonSchemaToZod(expectation.shape) : null;
+    for (const version of matchedVersions) {
+      verified++;
+      const schema = (contract.version(version).emits as Record<string, z.ZodTypeAny>)[expectation.type];
+      if (!schema) {
+        mismatches.push(
+          mismatch(
+            'EVENT_TYPE_NOT_EMITTED',
+            version,
+            `The contract (uri=${contract.uri}, version=${version}) does not emit the event type '${expectation.type}'`,
+          ),
+        );
+        continue;
+      }
+
+      expectation.samples.forEach((sample, index) => {
+        const result = schema.safeParse(sample);
+        if (!result.success) {
+          mismatches.push(
+            mismatch(
+              'SAMPLE_REJECTED',
+              version,
+              `The sample #${index} is not a valid payload of the producer -> ${formatIssues(result.error)}`,
+            ),
+          );
+        }
+      });
+
+      if (!shape) continue;
+      for (let i = 0; i < sampleCount; i++) {
+        let payload: unknown;
+        try {
+          payload = schema.parse(
+            generateArvoMockData(schema, {
+              seed: `${options.seed ?? 0}:${i}`,
+              // Alternates the payloads without, with and with some of the optional fields
+              optionalProbability: [0, 1, 0.5][i % 3],
+            }),
+          );
+        } catch (e) {
+          mismatches.push(
+            mismatch(
+              'PAYLOAD_GENERATION_FAILED',
+              version,
+              `Unable to generate the producer payloads to check the consumer shape -> ${(e as Error).message}`,
+            ),
+          );
+          break;
+        }
+        const result = shape.safeParse(payload);
+        if (!result.success) {
+          mismatches.push(
+            mismatch(
+              'SHAPE_VIOLATED',
+              version,
+              `The producer may emit a payload which does not satisfy the consumer shape -> ${formatIssues(result.error)}. Payload: ${JSON.stringify(payload)}`,
+            ),
+          );
+          break;
+        }
+      }
+    }
+  }
+
+  return {
+    consumer: json.consumer,
+    contract: json.contract,
+    success: mismatches.length === 0,
+    verified,
+    mismatches,
+  };
+};
@@ -0,0 +1,19 @@
+import ArvoContractRegistry from '.';
+import type ArvoContract from '../ArvoContract';
+
+/**
+ * Creates a new ArvoContractRegistry instance with the given ArvoContract instances.
+ *
+ * @param contracts - One or more ArvoContract instances to initialize the registry.
+ * @returns A new ArvoContractRegistry instance containing the provided contracts.
+ *
+ * @throws {Error} If a contract uri or accepted event type is duplicated
+ *
+ * @example
+ * ```typescript
+ * const registry = createArvoContractRegistry(userContract, orderContract);
+ * const contract = registry.get('#/contracts/user');
+ * ```
+ */
+export const createArvoContractRegistry = <T extends ArvoContract[]>(...contracts: T) =>
+  new ArvoContractRegistry<T[number]>(contracts);
@@ -0,0 +1,202 @@
+import type ArvoContract from '../ArvoContract';
+import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+import { WildCardArvoSemanticVersion } from '../ArvoContract/WildCardArvoSemanticVersion';
+import type ArvoEvent from '../ArvoEvent';
+import { logToSpan } from '../OpenTelemetry';
+import { EventDataschemaUtil } from '../utils';
+import type { ArvoContractRegistrySystemErrorRecord } from './types';
+
+/**
+ * Extracts the URI type from a given ArvoContract type.
+ * @template T - The ArvoContract type to extract from.
+ */
+type ExtractContractUri<T> = T extends { uri: infer U } ? U : never;
+
+/**
+ * A registry of ArvoContract instances which resolves contracts by their uri,
+ * their accepted event type and the `dataschema` of the incoming events.
+ *
+ * The registry guarantees that each contract uri and each accepted event type
+ * is registered only once, so that every lookup resolves to exactly one contract.
+ *
+ * @template T - The type of ArvoContract stored in the registry.
+ *
+ * @example
+ * ```typescript
+ * const registry = createArvoContractRegistry(userContract, orderContract);
+ *
+ * const versionedContract = registry.resolve(event);
+ * if (!versionedContract) {
+ *   throw new Error(`No contract found for the event (type=${event.type}, dataschema=${event.dataschema})`);
+ * }
+ * ```
+ */
+export default class ArvoContractRegistry<T extends ArvoContract = ArvoContract> {
+  private readonly _contracts: Map<string, T> = new Map();
+  private readonly _contractsByType: Map<string, T> = new Map();
+
+  /**
+   * Creates an instance of ArvoContractRegistry.
+   * @param contracts - The contracts to register initially. See {@link ArvoContractRegistry.register}
+   * @throws {Error} If a contract uri or accepted event type is duplicated
+   */
+  constructor(contracts: T[] = []) {
+    for (const contract of contracts) {
+      this.register(contract);
+    }
+  }
+
+  /**
+   * Registers a contract in the registry.
+   *
+   * @param contract - The contract to register
+   * @returns The registry itself to allow chaining
+   *
+   * @throws {Error} If a contract with the same uri is already registered
+   * @throws {Error} If a contract accepting the same event type is already registered
+   */
+  public register(contract: T): this {
+    if (this._contracts.has(contract.uri)) {
+      throw new Error(`Duplicate contract URI found: ${contract.uri}`);
+    }
+    const existing = this._contractsByType.get(contract.type);
+    if (existing) {
+      throw new Error(
+        `Duplicate contract event type found: The contracts (uri=${existing.uri}) and (uri=${contract.uri}) both accept the event type '${contract.type}'`,
+      );
+    }
+    this._contracts.set(contract.uri, contract);
+    this._contractsByType.set(contract.type, contract);
+    return this;
+  }
+
+  /**
+   * Checks if the registry contains a contract with the given URI.
+   * @param uri - The URI to check for.
+   * @returns True if a contract with the given URI exists in the registry, false otherwise.
+   */
+  public has(uri: string): boolean {
+    return this._contracts.has(uri);
+  }
+
+  /**
+   * Retrieves an ArvoContract instance by its URI.
+   * @param uri - The URI of the contract to retrieve.
+   * @returns The ArvoContract instance matching the given URI.
+   * @throws {Error} If no contract with the given URI is found in the registry.
+   */
+  public get<U extends ExtractContractUri<T>>(uri: U): Extract<T, { uri: U }> {
+    const contract = this._contracts.get(uri);
+    if (!contract) {
+      throw new Error(`ArvoContract with URI "${uri}" not found in the registry`);
+    }
+    return contract as Extract<T, { uri: U }>;
+  }
+
+  /**
+   * Finds the contract which handles the given event type. This is the contract
+   * which accepts the event type or whose system error has the event type.
+   *
+   * @param type - The event type to search for
+   * @returns The matching contract or null if no contract handles the event type
+   */
+  public findByType(type: string): T | null {
+    const contract = this._contractsByType.get(type);
+    if (contract) return contract;
+    for (const item of Array.from(this._contracts.values())) {
+      if (item.systemError.type === type) return item;
+    }
+    return null;
+  }
+
+  /**
+   * Finds the versioned contract which matches the given `dataschema` (i.e. `{uri}/{version}`).
+   * The wildcard version ({@link WildCardArvoSemanticVersion}), used by the system error events,
+   * resolves to the system error record of the contract as the system error schema is version independent.
+   *
+   * @param dataschema - The dataschema to resolve
+   * @returns The matching versioned contract, the system error record of the contract for the wildcard
+   * version, or null if the dataschema is invalid, the contract is not registered or it does not have the version
+   */
+  public findByDataschema(
+    dataschema: string,
+  ): VersionedArvoContract<any, any> | ArvoContractRegistrySystemErrorRecord<T> | null {
+    const parsed = EventDataschemaUtil.parse(dataschema);
+    if (!parsed) return null;
+    const contract = this._contracts.get(parsed.uri);
+    if (!contract) return null;
+    if (parsed.version === WildCardArvoSemanticVersion) {
+      return this.systemErrorRecord(contract);
+    }
+    if (!(parsed.version in contract.versions)) return null;
+    return contract.version(parsed.version);
+  }
+
+  /**
+   * Resolves an incoming event to the versioned contract it was created against.
+   *
+   * The contract and its version are resolved from the event `dataschema`. A system error
+   * event is resolved to the system error record of its contract when its `dataschema` has the
+   * wildcard version, or when it has no (valid) `dataschema`, as system errors are version
+   * independent. The resolved version must define the event type either as its accepted event,
+   * one of its emitted events or its system error.
+   *
+   * @param event - The incoming event
+   * @returns The versioned contract of the event, the system error record of its contract, or
+   * null if it cannot be resolved
+   */
+  public resolve(event: ArvoEvent): VersionedArvoContract<any, any> | ArvoContractRegistrySystemErrorRecord<T> | null {
+    const parsed = event.dataschema ? EventDataschemaUtil.parse(event.dataschema) : null;
+    const contract = parsed ? (this._contracts.get(parsed.uri) ?? null) : this.findByType(event.type);
+    if (contract && (!parsed || parsed.version === WildCardArvoSemanticVersion)) {
+      if (contract.systemError.type === event.type) return this.systemErrorRecord(contract);
+    }
+    const versionedContract =
+      contract && parsed && parsed.version !== WildCardArvoSemanticVersion && parsed.version in contract.versions
+        ? contract.version(parsed.version)
+        : null;
+
+    if (
+      !versionedContract ||
+      !(
+        versionedContract.accepts.type === event.type ||
+        versionedContract.systemError.type === event.type ||
+        event.type in versionedContract.emits
+      )
+    ) {
+      logToSpan({
+        level: 'WARNING',
+        message: `Unable to resolve the contract of the event (type=${event.type}, dataschema=${event.dataschema})`,
+      });
+      return null;
+    }
+    return versionedContract;
+  }
+
+  /**
+   * Builds the system error record of a contract, which the wildcard dataschema resolves to.
+   */
+  private systemErrorRecord(contract: T): ArvoContractRegistrySystemErrorRecord<T> {
+    return {
+      ...contract.systemError,
+      contract,
+      uri: contract.uri,
+      version: WildCardArvoSemanticVersion,
+      dataschema: EventDataschemaUtil.build(contract.uri, WildCardArvoSemanticVersion),
+    };
+  }
+
+  /**
+   * Returns all the ArvoContract instances in the registry, in registration order.
+   */
+  public list(): T[] {
+    return Array.from(this._contracts.values());
+  }
+
+  /**
+   * Returns the number of contracts in the registry.
+   */
+  public get size(): number {
+    return this._contracts.size;
+  }
+}
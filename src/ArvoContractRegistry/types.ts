@@ -0,0 +1,20 @@
+import type ArvoContract from '../ArvoContract';
+import type { WildCardArvoSemanticVersion } from '../ArvoContract/WildCardArvoSemanticVersion';
+
+/**
+ * The system error record of a registered contract. The registry resolves the wildcard
+ * dataschema (i.e. `{uri}/0.0.0`) of the system error events to this record instead of
+ * a contract version, as the system error schema is version independent.
+ *
+ * @template T - The type of the ArvoContract
+ */
+export type ArvoContractRegistrySystemErrorRecord<T extends ArvoContract = ArvoContract> = T['systemError'] & {
+  /** The contract which defines the system error */
+  contract: T;
+  /** The uri of the contract */
+  uri: T['uri'];
+  /** The wildcard version */
+  version: typeof WildCardArvoSemanticVersion;
+  /** The wildcard dataschema of the system error events i.e. `{uri}/0.0.0` */
+  dataschema: string;
+};
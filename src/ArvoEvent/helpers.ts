@@ -1,4 +1,6 @@
 import ArvoEvent from '.';
+import { getArvoProviders } from '../ArvoProviders';
+import type { ArvoProviders } from '../ArvoProviders/types';
 import { ArvoOpenTelemetry, currentOpenTelemetryHeaders, logToSpan } from '../OpenTelemetry';
 import { cleanString, createTimestamp } from '../utils';
 import { createArvoEventId } from './id';
@@ -12,6 +14,8 @@ const generator = (
   event: CreateArvoEvent<any, any>,
   extensions: any,
   otelHeaders: ReturnType<typeof currentOpenTelemetryHeaders>,
+  providers: ArvoProviders,
+  sensitiveDataPaths?: string[],
 ) => {
   if (event.datacontenttype && event.datacontenttype !== ArvoDataContentType) {
     const warning = cleanString(`
@@ -27,7 +31,7 @@ const generator = (
 
   return new ArvoEvent<any, any, any>(
     {
-      id: createArvoEventId(event.id),
+      id: createArvoEventId(event.id, providers.idGenerator),
       type: event.type,
       accesscontrol: event.accesscontrol ?? null,
       executionunits: event.executionunits ?? null,
@@ -35,7 +39,7 @@ const generator = (
       tracestate: event.tracestate ?? otelHeaders.tracestate ?? null,
       datacontenttype: event.datacontenttype ?? ArvoDataContentType,
       specversion: event.specversion ?? '1.0',
-      time: event.time ?? createTimestamp(),
+      time: event.time ?? createTimestamp(0, providers.clock),
       source: encodeURI(event.source),
       subject: encodeURI(event.subject),
       to: event.to ? encodeURI(event.to) : encodeURI(event.type),
@@ -46,6 +50,7 @@ const generator = (
     },
     event.data,
     extensions,
+    sensitiveDataPaths,
   );
 };
 
@@ -56,6 +61,10 @@ const generator = (
  * @param [extensions] - Optional cloud event extensions
  * @param [opentelemetry] - OpenTelemetry configuration with options:
  *   - disable - Completely disables telemetry if true
+ * @param [providers] - The clock and the id generator of the event `time` and `id`, when not
+ * provided in the event. Defaults to the global providers (see `setArvoProviders`)
+ * @param [sensitiveDataPaths] - The JSON paths of the sensitive fields of the data, which are masked
+ * in the string representation of the event (see `ArvoEvent.toString`)
  *
  * @throw {Error} In case any validation in {@link ArvoEvent} fails.
  *
@@ -94,20 +103,74 @@ export const createArvoEvent = <
   opentelemetry?: {
     disable?: boolean;
   },
+  providers?: Partial<ArvoProviders>,
+  sensitiveDataPaths?: string[],
 ): ArvoEvent<TData, TExtension, TType> => {
+  const resolvedProviders = getArvoProviders(providers);
   if (opentelemetry?.disable) {
-    return generator(event, extensions, {
-      traceparent: null,
-      tracestate: null,
-    });
+    return generator(
+      event,
+      extensions,
+      {
+        traceparent: null,
+        tracestate: null,
+      },
+      resolvedProviders,
+      sensitiveDataPaths,
+    );
   }
 
   return ArvoOpenTelemetry.getInstance().startActiveSpan({
     name: `createArvoEvent<${event.type}>`,
     fn: (span) => {
-      const generatedEvent = generator(event, extensions, currentOpenTelemetryHeaders());
+      const generatedEvent = generator(
+        event,
+        extensions,
+        currentOpenTelemetryHeaders(),
+        resolvedProviders,
+        sensitiveDataPaths,
+      );
       span.setAttributes(generatedEvent.otelAttributes);
       return generatedEvent;
     },
   });
 };
+
+/**
+ * Creates a validated ArvoEvent from flat CloudEvent attributes (without `data`) and
+ * the event data, as received from a transport binding.
+ *
+ * @param attributes - The flat CloudEvent attributes
+ * @param data - The event data
+ * @param origin - The name of the transport message, used in the error messages
+ * @param [headerPrefix] - The prefix of the headers which carry the attributes in the binary mode. When
+ * provided, the attributes are the header strings, and the numeric `executionunits` is parsed from its string
+ *
+ * @throws {Error} If the `executionunits` header is not a number, or the attributes or the data fail
+ * the ArvoEvent validation. See {@link ArvoEvent.safeParse}
+ */
+export const createArvoEventFromAttributes = (
+  attributes: Record<string, unknown>,
+  data: unknown,
+  origin: string,
+  headerPrefix?: string,
+): ArvoEvent => {
+  let parsedAttributes = attributes;
+  if (headerPrefix !== undefined && attributes.executionunits !== undefined) {
+    const executionunits = Number(attributes.executionunits);
+    if (Number.isNaN(executionunits)) {
+      throw new Error(`Invalid header '${headerPrefix}executionunits': '${attributes.executionunits}' is not a number`);
+    }
+    parsedAttributes = { ...attributes, executionunits };
+  }
+  const result = ArvoEvent.safeParse({ ...parsedAttributes, data });
+  if (!result.success) {
+    throw new Error(
+      cleanString(`
+        Unable to import ArvoEvent from the ${origin}. The event validation
+        failed -> ${result.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}
+      `),
+    );
+  }
+  return result.data;
+};
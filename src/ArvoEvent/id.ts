@@ -1,6 +1,7 @@
 import pako from 'pako';
-import { v4 as uuid4 } from 'uuid';
 import { z } from 'zod';
+import { getArvoProviders } from '../ArvoProviders';
+import type { ArvoIdGenerator } from '../ArvoProviders/types';
 import type { CreateArvoEvent } from './types';
 
 export const ArvoEventIdObjectSchema = z.object({
@@ -10,9 +11,19 @@ export const ArvoEventIdObjectSchema = z.object({
 
 export type ArvoEventIdObject = z.infer<typeof ArvoEventIdObjectSchema>;
 
-export const createArvoEventId = (id?: CreateArvoEvent<Record<string, unknown>, string>['id']) => {
+/**
+ * Creates the id of an event, following its deduplication strategy.
+ *
+ * @param [id] - The id and its deduplication strategy. A random id is created when omitted
+ * @param [idGenerator] - The generator of the random ids. Defaults to the global id generator (see `setArvoProviders`)
+ */
+export const createArvoEventId = (
+  id?: CreateArvoEvent<Record<string, unknown>, string>['id'],
+  idGenerator?: ArvoIdGenerator,
+) => {
+  const generator = getArvoProviders({ idGenerator }).idGenerator;
   if (id?.deduplication === 'ARVO_MANAGED' && id.value.trim()) {
-    const data = ArvoEventIdObjectSchema.parse({ uuid: uuid4(), value: id.value.trim() });
+    const data = ArvoEventIdObjectSchema.parse({ uuid: generator.next(), value: id.value.trim() });
     const jsonString = JSON.stringify(data);
     const compressed = pako.deflate(new TextEncoder().encode(jsonString));
     return Buffer.from(compressed).toString('base64');
@@ -20,7 +31,7 @@ export const createArvoEventId = (id?: CreateArvoEvent<Record<string, unknown>,
   if (id?.deduplication === 'DEVELOPER_MANAGED' && id.value.trim()) {
     return id.value.trim();
   }
-  return uuid4();
+  return generator.next();
 };
 
 export const parseArvoEventId = (id: string) => {
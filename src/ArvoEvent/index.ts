@@ -1,5 +1,9 @@
+import type { z } from 'zod';
+import type { ArvoEventClaimCheckHookOptions } from '../ArvoEventClaimCheck/types';
+import { ArvoRedactionMask, maskPaths } from '../ArvoEventRedaction/utils';
 import { OTelNull } from '../OpenTelemetry';
 import type { InferArvoEvent } from '../types';
+import { cleanString } from '../utils';
 import {
   ArvoDataContentType,
   ArvoDataSchema,
@@ -10,12 +14,35 @@ import {
 } from './schema';
 import type {
   ArvoEventData,
+  ArvoEventParseIssue,
+  ArvoEventParseOptions,
+  ArvoEventSafeParseResult,
   ArvoExtension,
   CloudEventContext,
   CloudEventExtension,
   OpenTelemetryExtension,
 } from './types';
 
+/**
+ * The list of all the ArvoEvent fields which are not custom extensions. Any
+ * other field is treated as a custom CloudEvent extension.
+ */
+const ARVO_EVENT_FIELDS: string[] = [
+  ...Object.keys(CloudEventContextSchema.shape),
+  ...Object.keys(ArvoExtensionSchema.shape),
+  ...Object.keys(OpenTelemetryExtensionSchema.shape),
+  'data',
+];
+
+/**
+ * Converts the zod issues to ArvoEvent field-level parse issues
+ */
+const toParseIssues = (error: z.ZodError, prefix: string[] = []): ArvoEventParseIssue[] =>
+  error.issues.map((issue) => ({
+    path: [...prefix, ...issue.path].join('.') || '<root>',
+    message: issue.message,
+  }));
+
 /**
  * Represents an ArvoEvent, which extends the CloudEvent specification with
  * Arvo-specific extensions for event routing, access control, execution metrics,
@@ -78,12 +105,21 @@ export default class ArvoEvent<
 
   private readonly _extensions: TExtension & ArvoExtension & OpenTelemetryExtension;
 
+  /**
+   * The JSON paths of the sensitive fields of the data (e.g. `$.email`), which are masked
+   * in the string representation of the event. The event factories set them from the
+   * sensitive fields of the contract. They are not part of the event JSON.
+   */
+  public readonly sensitiveDataPaths: string[];
+
   /**
    * Creates an instance of ArvoEvent with CloudEvent context, data, and optional extensions.
    *
    * @param context - The CloudEvent context combined with required Arvo and OpenTelemetry extensions
    * @param data - The event data payload (must be JSON serializable)
    * @param extensions - Optional additional custom extensions with lowercase alphanumeric keys
+   * @param sensitiveDataPaths - Optional JSON paths of the sensitive fields of the data, which are
+   * masked in the string representation of the event. See {@link ArvoEvent.toString}
    *
    * @throws {Error} If datacontenttype is "application/cloudevents+json;charset=UTF-8;profile=arvo" but the 'to' field is not defined
    * @throws {Error} If any validation fails according to the respective schemas
@@ -117,6 +153,7 @@ export default class ArvoEvent<
     context: CloudEventContext & ArvoExtension & OpenTelemetryExtension,
     data: TData,
     extensions?: TExtension,
+    sensitiveDataPaths?: string[],
   ) {
     const cloudEventContext = CloudEventContextSchema.parse(context);
     this.id = cloudEventContext.id;
@@ -128,6 +165,7 @@ export default class ArvoEvent<
     this.specversion = cloudEventContext.specversion;
     this.dataschema = cloudEventContext.dataschema;
     this.data = ArvoDataSchema.parse(data) as TData;
+    this.sensitiveDataPaths = sensitiveDataPaths ?? [];
 
     const arvoExtension = ArvoExtensionSchema.parse(context);
     const otelExtension = OpenTelemetryExtensionSchema.parse(context);
@@ -153,6 +191,149 @@ export default class ArvoEvent<
     Object.freeze(this._extensions);
   }
 
+  /**
+   * Parses a flat CloudEvent JSON object (e.g. the output of {@link ArvoEvent.toJSON} received
+   * off the wire) into an ArvoEvent without throwing. The object is split into the core
+   * CloudEvent fields, the Arvo and OpenTelemetry extensions and the custom extensions, and each
+   * part is validated against its schema. Absent Arvo and OpenTelemetry extensions, as well
+   * as an absent `dataschema`, default to null.
+   *
+   * @param obj - The untrusted flat CloudEvent JSON object
+   * @param [options] - The parse options. See {@link ArvoEventParseOptions}
+   * @returns A result object which either contains the parsed ArvoEvent or all the
+   * field-level issues found during the validation
+   *
+   * @example
+   * ```typescript
+   * const result = ArvoEvent.safeParse(JSON.parse(message));
+   * if (!result.success) {
+   *   console.log(result.issues); // [{ path: 'type', message: '...' }]
+   * } else {
+   *   console.log(result.data.type);
+   * }
+   * ```
+   */
+  static safeParse<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(obj: unknown, options?: ArvoEventParseOptions): ArvoEventSafeParseResult<ArvoEvent<TData, TExtension, TType>> {
+    if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
+      return { success: false, issues: [{ path: '<root>', message: 'The event must be a JSON object' }] };
+    }
+    const { data, ...attributes } = obj as Record<string, unknown>;
+    const extensions = Object.fromEntries(
+      Object.entries(attributes).filter(([key]) => !ARVO_EVENT_FIELDS.includes(key)),
+    );
+    const context = {
+      dataschema: null,
+      to: null,
+      accesscontrol: null,
+      redirectto: null,
+      executionunits: null,
+      parentid: null,
+      domain: null,
+      traceparent: null,
+      tracestate: null,
+      ...Object.fromEntries(Object.entries(attributes).filter(([key]) => ARVO_EVENT_FIELDS.includes(key))),
+    };
+
+    const issues: ArvoEventParseIssue[] = [];
+    for (const result of [
+      CloudEventContextSchema.safeParse(context),
+      ArvoExtensionSchema.safeParse(context),
+      OpenTelemetryExtensionSchema.safeParse(context),
+      CloudEventExtensionSchema.safeParse(extensions),
+    ]) {
+      if (!result.success) issues.push(...toParseIssues(result.error));
+    }
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      issues.push({ path: 'data', message: 'The event data must be a JSON object' });
+    } else {
+      const dataResult = ArvoDataSchema.safeParse(data);
+      if (!dataResult.success) issues.push(...toParseIssues(dataResult.error, ['data']));
+    }
+    if ((attributes.datacontenttype ?? ArvoDataContentType) === ArvoDataContentType && !context.to) {
+      issues.push({ path: 'to', message: `The ArvoEvent must have a non-empty 'to' field` });
+    }
+    if (issues.length) {
+      return { success: false, issues };
+    }
+
+    try {
+      return {
+        success: true,
+        data: new ArvoEvent<TData, TExtension, TType>(
+          context as CloudEventContext & ArvoExtension & OpenTelemetryExtension,
+          data as TData,
+          extensions as TExtension,
+          options?.sensitiveDataPaths,
+        ),
+      };
+    } catch (e) {
+      return { success: false, issues: [{ path: '<root>', message: (e as Error).message }] };
+    }
+  }
+
+  /**
+   * Parses a flat CloudEvent JSON object (e.g. the output of {@link ArvoEvent.toJSON} received
+   * off the wire) into an ArvoEvent. This is the inverse of {@link ArvoEvent.toJSON}.
+   *
+   * @param obj - The untrusted flat CloudEvent JSON object
+   * @param [options] - The parse options (see {@link ArvoEventParseOptions}) and the claim check which rehydrates
+   * the offloaded event data. When the claim check is provided, the parsed event is rehydrated and a promise of
+   * it is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns The validated ArvoEvent
+   *
+   * @throws {Error} If the object is not a valid ArvoEvent. The error message lists all the field-level issues.
+   *
+   * @see {@link ArvoEvent.safeParse} for the non-throwing variant
+   *
+   * @example
+   * ```typescript
+   * const event = ArvoEvent.fromJSON(JSON.parse(message));
+   * const sameEvent = ArvoEvent.fromJSON(event.toJSON());
+   * const rehydratedEvent = await ArvoEvent.fromJSON(JSON.parse(message), { claimCheck });
+   * ```
+   */
+  static fromJSON<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(
+    obj: unknown,
+    options: ArvoEventParseOptions & ArvoEventClaimCheckHookOptions,
+  ): Promise<ArvoEvent<TData, TExtension, TType>>;
+  static fromJSON<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(obj: unknown, options?: ArvoEventParseOptions): ArvoEvent<TData, TExtension, TType>;
+  static fromJSON<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(
+    obj: unknown,
+    options?: ArvoEventParseOptions & Partial<ArvoEventClaimCheckHookOptions>,
+  ): ArvoEvent<TData, TExtension, TType> | Promise<ArvoEvent<TData, TExtension, TType>> {
+    const { claimCheck, ...parseOptions } = options ?? {};
+    if (claimCheck) {
+      return Promise.resolve().then(() =>
+        claimCheck.rehydrate<TData, TExtension, TType>(ArvoEvent.fromJSON(obj, parseOptions)),
+      );
+    }
+    const result = ArvoEvent.safeParse<TData, TExtension, TType>(obj, parseOptions);
+    if (!result.success) {
+      throw new Error(
+        cleanString(`
+          Invalid ArvoEvent JSON -> ${result.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}
+        `),
+      );
+    }
+    return result.data;
+  }
+
   /**
    * Gets the CloudEvent-specified fields separated into default attributes and extensions.
    *
@@ -215,10 +396,12 @@ export default class ArvoEvent<
   }
 
   /**
-   * Converts the ArvoEvent to a JSON string representation.
+   * Converts the ArvoEvent to a JSON string representation, e.g. for the logs and traces.
+   * The sensitive fields of the data (see {@link ArvoEvent.sensitiveDataPaths}) are masked,
+   * so use `JSON.stringify(event.toJSON())` to serialise the complete event for a transport.
    *
    * @param spacing - The number of spaces to use for indentation (default: 0 for compact output)
-   * @returns A JSON string representation of the complete ArvoEvent
+   * @returns A JSON string representation of the ArvoEvent
    *
    * @example
    * ```typescript
@@ -227,7 +410,13 @@ export default class ArvoEvent<
    * ```
    */
   toString(spacing = 0) {
-    return JSON.stringify(this.toJSON(), null, spacing);
+    const json = this.toJSON();
+    if (!this.sensitiveDataPaths.length) return JSON.stringify(json, null, spacing);
+    return JSON.stringify(
+      { ...json, data: maskPaths(json.data, this.sensitiveDataPaths, ArvoRedactionMask) },
+      null,
+      spacing,
+    );
   }
 
   /**
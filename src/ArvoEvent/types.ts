@@ -96,3 +96,40 @@ export type CreateArvoEvent<TData extends ArvoEventData, TType extends string> =
   /** Specifies the processing domain for event routing and workflow orchestration. Must contain only lowercase letters, numbers, and dots. */
   domain?: string;
 };
+
+/**
+ * Represents a field-level validation issue found while parsing an ArvoEvent
+ * from its JSON representation.
+ */
+export type ArvoEventParseIssue = {
+  /** The dot separated path of the offending field (e.g. 'type', 'data.userId', 'customext') */
+  path: string;
+  /** A human-readable description of the issue */
+  message: string;
+};
+
+/**
+ * The options of parsing an ArvoEvent from its JSON representation
+ */
+export type ArvoEventParseOptions = {
+  /**
+   * The JSON paths of the sensitive fields of the data. They are not part of the event JSON,
+   * so they must be carried over when an event is rebuilt from its JSON. See `ArvoEvent.sensitiveDataPaths`
+   */
+  sensitiveDataPaths?: string[];
+};
+
+/**
+ * Represents the non-throwing result of parsing an ArvoEvent from its JSON representation.
+ *
+ * @template TEvent - The type of the parsed event
+ */
+export type ArvoEventSafeParseResult<TEvent> =
+  | {
+      success: true;
+      data: TEvent;
+    }
+  | {
+      success: false;
+      issues: ArvoEventParseIssue[];
+    };
@@ -0,0 +1,190 @@
+import ArvoEvent from '../ArvoEvent';
+import type { ArvoEventData, CloudEventExtension } from '../ArvoEvent/types';
+import { cleanString } from '../utils';
+import type { ArvoEventBlobStore, ArvoEventClaimCheckOptions, ArvoEventDataRefExtension } from './types';
+
+/**
+ * Implements the claim-check pattern for the ArvoEvents whose data is too large for the
+ * broker. The data above a size threshold is offloaded to a blob store and the event carries
+ * the reference of the stored data in the CloudEvents `dataref` extension instead, with an
+ * empty data object. The consumer rehydrates the event, which restores the original data.
+ *
+ * The claim check can be applied to each event explicitly, via {@link offload} and {@link rehydrate},
+ * passed to `ArvoEvent.fromJSON` and the export and import methods of `ArvoEventHttp` and
+ * `ArvoEventKafka` (see {@link ArvoEventClaimCheckHookOptions}), or hooked into any other event
+ * creation and parsing function, via {@link offloading} and {@link rehydrating}.
+ *
+ * The offloaded event keeps all of its attributes, including the `dataschema`, which still
+ * describes the original data. So, the event must be rehydrated before it is validated
+ * against its contract. Otherwise, the validation fails with a `DATA_OFFLOADED` violation.
+ *
+ * @example
+ * ```typescript
+ * const claimCheck = new ArvoEventClaimCheck({
+ *   store: new FileSystemArvoEventBlobStore('/var/lib/arvo/blobs'),
+ *   threshold: 128 * 1024,
+ * });
+ *
+ * // On the producer side
+ * await producer.send(await claimCheck.offload(factory.accepts({ ... })));
+ *
+ * // On the consumer side
+ * const event = await claimCheck.rehydrate(ArvoEvent.fromJSON(message));
+ *
+ * // Or, hooked into the transport bindings
+ * await producer.send(await ArvoEventKafka.exportToBinary(event, undefined, { claimCheck }));
+ * const received = await ArvoEventKafka.import(message, { claimCheck });
+ *
+ * // Or, hooked into any event creation and parsing function
+ * const createEvent = claimCheck.offloading((input: CreateInput) => factory.accepts(input));
+ * const importEvent = claimCheck.rehydrating(ArvoEventHttp.import);
+ * await producer.send(await createEvent({ ... }));
+ * const received = await importEvent(request);
+ * ```
+ */
+export default class ArvoEventClaimCheck {
+  readonly store: ArvoEventBlobStore;
+  readonly threshold: number;
+
+  /**
+   * @param options - The claim-check configuration. See {@link ArvoEventClaimCheckOptions}
+   * @throws {Error} If the threshold is not a non-negative number
+   */
+  constructor(options: ArvoEventClaimCheckOptions) {
+    this.store = options.store;
+    this.threshold = options.threshold ?? 256 * 1024;
+    if (!Number.isFinite(this.threshold) || this.threshold < 0) {
+      throw new Error(`Invalid claim-check threshold (=${this.threshold}). It must be a non-negative number of bytes`);
+    }
+  }
+
+  /**
+   * Checks if the data of an ArvoEvent is offloaded i.e. the event has the `dataref` extension.
+   *
+   * @param event - The event to check
+   * @returns True if the event data is offloaded, false otherwise
+   */
+  static isOffloaded(event: ArvoEvent): event is ArvoEvent<ArvoEventData, ArvoEventDataRefExtension> {
+    return typeof (event.extensions as Record<string, unknown>).dataref === 'string';
+  }
+
+  /**
+   * Offloads the data of an ArvoEvent to the blob store if its serialised size exceeds the
+   * threshold. Otherwise, or if the data is already offloaded, the event is returned as is.
+   *
+   * @param event - The event whose data to offload
+   * @returns The event with the `dataref` extension and an empty data object, or the provided event
+   */
+  async offload<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(
+    event: ArvoEvent<TData, TExtension, TType>,
+  ): Promise<
+    ArvoEvent<TData, TExtension, TType> | ArvoEvent<ArvoEventData, TExtension & ArvoEventDataRefExtension, TType>
+  > {
+    if (ArvoEventClaimCheck.isOffloaded(event)) return event;
+    const content = JSON.stringify(event.data);
+    if (Buffer.byteLength(content, 'utf8') <= this.threshold) return event;
+    const dataref = await this.store.put(content);
+    return ArvoEvent.fromJSON<ArvoEventData, TExtension & ArvoEventDataRefExtension, TType>(
+      { ...event.toJSON(), data: {}, dataref },
+      { sensitiveDataPaths: event.sensitiveDataPaths },
+    );
+  }
+
+  /**
+   * Hooks the claim check into an event creation function (e.g. `createArvoEvent`, a factory
+   * method or `ArvoEvent.fromJSON` on the producer side), so that the data of every created
+   * event is offloaded if its size exceeds the threshold. See {@link offload}.
+   *
+   * @param create - The function which creates the event
+   * @returns An async function with the same parameters, which resolves to the created event after the offload
+   *
+   * @example
+   * ```typescript
+   * const factory = createArvoEventFactory(contract.version('1.0.0'));
+   * const accepts = claimCheck.offloading(factory.accepts.bind(factory));
+   * const event = await accepts({ source: 'com.test.service', data: { ... } });
+   * ```
+   */
+  offloading<
+    TArgs extends unknown[],
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(
+    create: (...args: TArgs) => ArvoEvent<TData, TExtension, TType> | Promise<ArvoEvent<TData, TExtension, TType>>,
+  ): (
+    ...args: TArgs
+  ) => Promise<
+    ArvoEvent<TData, TExtension, TType> | ArvoEvent<ArvoEventData, TExtension & ArvoEventDataRefExtension, TType>
+  > {
+    return async (...args: TArgs) => this.offload(await create(...args));
+  }
+
+  /**
+   * Hooks the claim check into an event parsing function (e.g. `ArvoEvent.fromJSON`,
+   * `ArvoEventHttp.import` or `ArvoEventKafka.import`), so that every parsed event is
+   * rehydrated before it is returned. See {@link rehydrate}.
+   *
+   * @param parse - The function which parses the event
+   * @returns An async function with the same parameters, which resolves to the rehydrated event
+   *
+   * @example
+   * ```typescript
+   * const importEvent = claimCheck.rehydrating(ArvoEventKafka.import);
+   * const event = await importEvent(message);
+   * ```
+   */
+  rehydrating<TArgs extends unknown[]>(
+    parse: (...args: TArgs) => ArvoEvent | Promise<ArvoEvent>,
+  ): (...args: TArgs) => Promise<ArvoEvent> {
+    return async (...args: TArgs) => this.rehydrate(await parse(...args));
+  }
+
+  /**
+   * Restores the offloaded data of an ArvoEvent from the blob store. The returned event has
+   * the original data, without the `dataref` extension. An event whose data is not offloaded
+   * is returned as is.
+   *
+   * @param event - The received event
+   * @returns The event with its original data
+   *
+   * @throws {Error} If the referenced data does not exist in the blob store or is not a valid data object
+   */
+  async rehydrate<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(event: ArvoEvent): Promise<ArvoEvent<TData, TExtension, TType>> {
+    if (!ArvoEventClaimCheck.isOffloaded(event)) return event as ArvoEvent<TData, TExtension, TType>;
+    const { dataref } = event.extensions;
+    const content = await this.store.get(dataref);
+    if (content === null) {
+      throw new Error(
+        cleanString(`
+          Unable to rehydrate the event (id=${event.id}, type=${event.type}) as its data 
+          does not exist in the blob store (dataref=${dataref})
+        `),
+      );
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (e) {
+      throw new Error(
+        cleanString(`
+          Unable to rehydrate the event (id=${event.id}, type=${event.type}) as its data (dataref=${dataref}) is not a valid data object
+          -> ${(e as Error).message}
+        `),
+      );
+    }
+    const { dataref: _, ...json } = event.toJSON() as Record<string, unknown>;
+    return ArvoEvent.fromJSON<TData, TExtension, TType>(
+      { ...json, data },
+      { sensitiveDataPaths: event.sensitiveDataPaths },
+    );
+  }
+}
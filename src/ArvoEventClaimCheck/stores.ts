@@ -0,0 +1,94 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { v4 as uuid4 } from 'uuid';
+import type { ArvoEventBlobStore } from './types';
+
+const MEMORY_REF_PREFIX = 'memory://';
+
+/**
+ * A blob store which holds the offloaded event data in memory. It is meant for local
+ * development and tests, where the producers and consumers run in the same process.
+ */
+export class InMemoryArvoEventBlobStore implements ArvoEventBlobStore {
+  private readonly blobs: Map<string, string> = new Map();
+
+  async put(content: string): Promise<string> {
+    const ref = `${MEMORY_REF_PREFIX}${uuid4()}`;
+    this.blobs.set(ref, content);
+    return ref;
+  }
+
+  async get(ref: string): Promise<string | null> {
+    return this.blobs.get(ref) ?? null;
+  }
+
+  async delete(ref: string): Promise<void> {
+    this.blobs.delete(ref);
+  }
+
+  /**
+   * The number of blobs in the store
+   */
+  get size(): number {
+    return this.blobs.size;
+  }
+}
+
+/**
+ * A blob store which holds the offloaded event data as files in a directory, referenced
+ * by their `file://` URL. The directory is created on the first write. The references
+ * outside of the directory are never read or deleted.
+ */
+export class FileSystemArvoEventBlobStore implements ArvoEventBlobStore {
+  private readonly directory: string;
+
+  /**
+   * @param directory - The directory where the blobs are stored
+   */
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  async put(content: string): Promise<string> {
+    await mkdir(this.directory, { recursive: true });
+    const path = join(this.directory, `${uuid4()}.json`);
+    await writeFile(path, content, 'utf8');
+    return pathToFileURL(path).href;
+  }
+
+  async get(ref: string): Promise<string | null> {
+    const path = this.resolveRef(ref);
+    if (!path) return null;
+    try {
+      return await readFile(path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  async delete(ref: string): Promise<void> {
+    const path = this.resolveRef(ref);
+    if (path) await rm(path, { force: true });
+  }
+
+  /**
+   * Resolves a reference to a file path within the directory, or null otherwise
+   */
+  private resolveRef(ref: string): string | null {
+    if (!ref.startsWith('file://')) return null;
+    let path: string;
+    try {
+      path = fileURLToPath(ref);
+    } catch {
+      // A malformed reference or a reference to a file on another host
+      return null;
+    }
+    const relativePath = relative(this.directory, path);
+    if (!relativePath || relativePath.startsWith('..') || resolve(this.directory, relativePath) !== path) {
+      return null;
+    }
+    return path;
+  }
+}
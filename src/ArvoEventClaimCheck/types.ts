@@ -0,0 +1,62 @@
+import type ArvoEventClaimCheck from '.';
+
+/**
+ * A blob store which holds the offloaded data of the ArvoEvents. The store decides
+ * the reference of a stored blob, which is carried by the event as its `dataref`.
+ */
+export interface ArvoEventBlobStore {
+  /**
+   * Stores the content and returns its reference. The reference must be a URI
+   * (e.g. `s3://bucket/key`) which this store can resolve via {@link get}.
+   *
+   * @param content - The serialised event data
+   * @returns The reference of the stored content
+   */
+  put(content: string): Promise<string>;
+
+  /**
+   * Retrieves the content of a reference created by {@link put}.
+   *
+   * @param ref - The reference of the stored content
+   * @returns The stored content or null if it does not exist
+   */
+  get(ref: string): Promise<string | null>;
+
+  /**
+   * Deletes the content of a reference created by {@link put}, if it exists.
+   *
+   * @param ref - The reference of the stored content
+   */
+  delete(ref: string): Promise<void>;
+}
+
+/**
+ * The configuration of an {@link ArvoEventClaimCheck}
+ */
+export type ArvoEventClaimCheckOptions = {
+  /** The blob store which holds the offloaded data */
+  store: ArvoEventBlobStore;
+  /**
+   * The size, in bytes, of the serialised event data above which the data is offloaded
+   * to the blob store. Defaults to 262144 (256 KiB).
+   */
+  threshold?: number;
+};
+
+/**
+ * The CloudEvent extension carrying the reference of the offloaded data of an ArvoEvent
+ */
+export type ArvoEventDataRefExtension = {
+  /** The reference of the offloaded event data in the blob store */
+  dataref: string;
+};
+
+/**
+ * The options which hook an {@link ArvoEventClaimCheck} into `ArvoEvent.fromJSON` and the
+ * `ArvoEventHttp` and `ArvoEventKafka` bindings. The exported events are offloaded before they are
+ * serialised and the parsed or imported events are rehydrated before they are returned.
+ */
+export type ArvoEventClaimCheckHookOptions = {
+  /** The claim check which offloads and rehydrates the event data */
+  claimCheck: ArvoEventClaimCheck;
+};
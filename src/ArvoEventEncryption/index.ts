@@ -0,0 +1,167 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import ArvoEvent from '../ArvoEvent';
+import type { ArvoEventData, CloudEventExtension } from '../ArvoEvent/types';
+import { cleanString } from '../utils';
+import type {
+  ArvoEventDecryptionKeyResolver,
+  ArvoEventEncryptedData,
+  ArvoEventEncryptionAlgorithm,
+  ArvoEventEncryptionExtension,
+  ArvoEventEncryptionKey,
+} from './types';
+
+const ENCRYPTION_ALGORITHMS: ArvoEventEncryptionAlgorithm[] = ['aes-128-gcm', 'aes-192-gcm', 'aes-256-gcm'];
+
+/**
+ * The length of the GCM authentication tag in bytes. A shorter tag is rejected, as it
+ * would weaken the authentication of the data.
+ */
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * The additional authenticated data, which binds the encrypted data to its event
+ * so that the envelope cannot be moved into another event unnoticed.
+ */
+const createAdditionalData = (event: ArvoEvent) =>
+  Buffer.from(JSON.stringify([event.id, event.type, event.dataschema]));
+
+/**
+ * A utility class to encrypt the data of ArvoEvents which carry sensitive information
+ * (e.g. PII), so that the data is encrypted at rest on the broker while the event remains
+ * routable.
+ *
+ * The data is encrypted with AES-GCM into a JSON serializable envelope (see {@link ArvoEventEncryptedData})
+ * which replaces the event data, and the event is marked with the CloudEvent extensions describing
+ * the encryption (see {@link ArvoEventEncryptionExtension}). The context attributes and the other
+ * extensions are not encrypted, and the event id, type and dataschema are authenticated along with
+ * the data.
+ *
+ * @example
+ * ```typescript
+ * const encrypted = ArvoEventEncryption.encrypt(event, { keyId: 'pii-2024', key: piiKey });
+ *
+ * // On the consumer side
+ * const decrypted = ArvoEventEncryption.decrypt(encrypted, (keyId) => keys[keyId] ?? null);
+ * const result = contract.version('1.0.0').validateEvent(decrypted);
+ * ```
+ */
+// biome-ignore lint/complexity/noStaticOnlyClass: This needs to be a static class to group methods together
+export default class ArvoEventEncryption {
+  /**
+   * Encrypts the data of an ArvoEvent.
+   *
+   * @param event - The event whose data to encrypt
+   * @param key - The encryption key. See {@link ArvoEventEncryptionKey}
+   * @returns A new event, identical to the provided one, whose data is the encrypted
+   * envelope and which has the encryption extensions
+   *
+   * @throws {Error} If the event is already encrypted, the algorithm is not supported
+   * or the key does not match the algorithm
+   */
+  static encrypt<TExtension extends CloudEventExtension = CloudEventExtension, TType extends string = string>(
+    event: ArvoEvent<ArvoEventData, TExtension, TType>,
+    key: ArvoEventEncryptionKey,
+  ): ArvoEvent<ArvoEventEncryptedData, TExtension & ArvoEventEncryptionExtension, TType> {
+    if (ArvoEventEncryption.isEncrypted(event)) {
+      throw new Error(`The data of the event (id=${event.id}, type=${event.type}) is already encrypted`);
+    }
+    const algorithm = key.algorithm ?? 'aes-256-gcm';
+    if (!ENCRYPTION_ALGORITHMS.includes(algorithm)) {
+      throw new Error(`Unsupported ArvoEvent encryption algorithm '${algorithm}'`);
+    }
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(algorithm, key.key, iv, { authTagLength: AUTH_TAG_LENGTH });
+    cipher.setAAD(createAdditionalData(event));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(event.data), 'utf8'), cipher.final()]);
+    const data: ArvoEventEncryptedData = {
+      version: 1,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+    return ArvoEvent.fromJSON<ArvoEventEncryptedData, TExtension & ArvoEventEncryptionExtension, TType>(
+      {
+        ...event.toJSON(),
+        data,
+        encryptionalgorithm: algorithm,
+        encryptionkeyid: key.keyId,
+      },
+      { sensitiveDataPaths: event.sensitiveDataPaths },
+    );
+  }
+
+  /**
+   * Checks if the data of an ArvoEvent is encrypted i.e. the event has the encryption extensions.
+   *
+   * @param event - The event to check
+   * @returns True if the event data is encrypted, false otherwise
+   */
+  static isEncrypted(event: ArvoEvent): event is ArvoEvent<ArvoEventEncryptedData, ArvoEventEncryptionExtension> {
+    const { encryptionalgorithm, encryptionkeyid } = event.extensions as Record<string, unknown>;
+    return typeof encryptionalgorithm === 'string' && typeof encryptionkeyid === 'string';
+  }
+
+  /**
+   * Decrypts the data of an encrypted ArvoEvent. The returned event has the original data,
+   * without the encryption extensions, and can then be validated against its contract
+   * (e.g. via `VersionedArvoContract.validateEvent`), as the data type is not checked here.
+   *
+   * @param event - The encrypted event
+   * @param resolveKey - Resolves the decryption key from the key id and algorithm of the event.
+   * See {@link ArvoEventDecryptionKeyResolver}
+   * @returns A new event with the decrypted data
+   *
+   * @throws {Error} If the event is not encrypted, the key is unknown, or the data cannot be
+   * decrypted or authenticated (e.g. a wrong key or a tampered event)
+   */
+  static decrypt<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(event: ArvoEvent, resolveKey: ArvoEventDecryptionKeyResolver): ArvoEvent<TData, TExtension, TType> {
+    if (!ArvoEventEncryption.isEncrypted(event)) {
+      throw new Error(`The data of the event (id=${event.id}, type=${event.type}) is not encrypted`);
+    }
+    const { encryptionalgorithm: algorithm, encryptionkeyid: keyId } = event.extensions;
+    try {
+      if (!ENCRYPTION_ALGORITHMS.includes(algorithm)) {
+        throw new Error(`Unsupported encryption algorithm '${algorithm}'`);
+      }
+      const key = resolveKey(keyId, algorithm);
+      if (!key) {
+        throw new Error(`Unknown encryption key (keyId=${keyId}, algorithm=${algorithm})`);
+      }
+      const envelope = event.data;
+      if (envelope.version !== 1) {
+        throw new Error(`Unsupported encrypted data envelope version '${envelope.version}'`);
+      }
+      const tag = Buffer.from(envelope.tag, 'base64');
+      if (tag.length !== AUTH_TAG_LENGTH) {
+        throw new Error(`Invalid authentication tag length ${tag.length}, expected ${AUTH_TAG_LENGTH} bytes`);
+      }
+      const decipher = createDecipheriv(algorithm, key, Buffer.from(envelope.iv, 'base64'), {
+        authTagLength: AUTH_TAG_LENGTH,
+      });
+      decipher.setAAD(createAdditionalData(event));
+      decipher.setAuthTag(tag);
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+        decipher.final(),
+      ]).toString('utf8');
+      const { encryptionalgorithm, encryptionkeyid, ...json } = event.toJSON() as Record<string, unknown>;
+      return ArvoEvent.fromJSON<TData, TExtension, TType>(
+        {
+          ...json,
+          data: JSON.parse(plaintext),
+        },
+        { sensitiveDataPaths: event.sensitiveDataPaths },
+      );
+    } catch (e) {
+      throw new Error(
+        cleanString(`
+          Unable to decrypt the data of the event (id=${event.id}, type=${event.type}) -> ${(e as Error).message}
+        `),
+      );
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { KeyObject } from 'node:crypto';
+
+/**
+ * The supported ArvoEvent data encryption algorithms. The key size must match the
+ * algorithm i.e. 16, 24 or 32 bytes respectively.
+ */
+export type ArvoEventEncryptionAlgorithm = 'aes-128-gcm' | 'aes-192-gcm' | 'aes-256-gcm';
+
+/**
+ * The key used to encrypt the data of an ArvoEvent. The key id is attached to the event
+ * so that the consumer can resolve the matching key, e.g. during a key rotation.
+ */
+export type ArvoEventEncryptionKey = {
+  /** The id of the key, attached to the event as the `encryptionkeyid` extension */
+  keyId: string;
+  /** The secret key, either as raw bytes or a secret KeyObject */
+  key: Uint8Array | KeyObject;
+  /** The encryption algorithm. Defaults to `aes-256-gcm` */
+  algorithm?: ArvoEventEncryptionAlgorithm;
+};
+
+/**
+ * Resolves the key to decrypt the data of an ArvoEvent from its key id and algorithm,
+ * or returns null if the key is unknown.
+ */
+export type ArvoEventDecryptionKeyResolver = (
+  keyId: string,
+  algorithm: ArvoEventEncryptionAlgorithm,
+) => Uint8Array | KeyObject | null;
+
+/**
+ * The JSON serializable envelope which replaces the data of an encrypted ArvoEvent
+ */
+export type ArvoEventEncryptedData = {
+  /** The version of the envelope format */
+  version: 1;
+  /** The base64 encoded initialisation vector */
+  iv: string;
+  /** The base64 encoded authentication tag */
+  tag: string;
+  /** The base64 encoded encrypted JSON of the original event data */
+  ciphertext: string;
+};
+
+/**
+ * The CloudEvent extensions describing the encryption of an encrypted ArvoEvent
+ */
+export type ArvoEventEncryptionExtension = {
+  /** The algorithm used to encrypt the event data */
+  encryptionalgorithm: ArvoEventEncryptionAlgorithm;
+  /** The id of the key used to encrypt the event data */
+  encryptionkeyid: string;
+};
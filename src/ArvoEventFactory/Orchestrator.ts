@@ -4,11 +4,14 @@ import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContrac
 import { createArvoEvent } from '../ArvoEvent/helpers';
 import { ArvoDataContentType } from '../ArvoEvent/schema';
 import type { CreateArvoEvent } from '../ArvoEvent/types';
+import { getContractSensitiveDataPaths, redactZodError } from '../ArvoEventRedaction';
 import ArvoOrchestrationSubject from '../ArvoOrchestrationSubject';
 import type { ArvoOrchestratorContract } from '../ArvoOrchestratorContract/types';
+import { getArvoProviders } from '../ArvoProviders';
+import type { ArvoProviders } from '../ArvoProviders/types';
 import { ArvoOpenTelemetry, currentOpenTelemetryHeaders } from '../OpenTelemetry';
 import { EventDataschemaUtil } from '../utils';
-import { createSpanOptions } from './utils';
+import { applyContractLifecycle, createSpanOptions } from './utils';
 
 /**
  * Factory class for creating and validating orchestrator-specific events with managed subject hierarchies.
@@ -26,11 +29,11 @@ export class ArvoOrchestratorEventFactory<
 > extends ArvoEventFactory<TContract> {
   protected readonly _name: string = 'OrchestratorEventFactory';
 
-  constructor(contract: TContract) {
+  constructor(contract: TContract, providers?: Partial<ArvoProviders>) {
     if ((contract.metadata as ArvoOrchestratorContract['metadata'])?.contractType !== 'ArvoOrchestratorContract') {
       throw new Error('This factory can only be used for ArvoOrchestratorContract');
     }
-    super(contract);
+    super(contract, providers);
   }
 
   /**
@@ -56,9 +59,14 @@ export class ArvoOrchestratorEventFactory<
       spanOptions: createSpanOptions(this.contract),
       fn: (span) => {
         const otelHeaders = currentOpenTelemetryHeaders();
+        applyContractLifecycle(this.contract, this.contract.accepts.type, getArvoProviders(this.providers).clock, span);
         const validationResult = this.contract.accepts.schema.safeParse(event.data);
         if (!validationResult.success) {
-          throw new Error(`Init Event data validation failed: ${validationResult.error.message}`);
+          const error = redactZodError(
+            validationResult.error,
+            getContractSensitiveDataPaths(this.contract, this.contract.accepts.type),
+          );
+          throw new Error(`Init Event data validation failed: ${error.message}`);
         }
         const parentSubject: string | null = validationResult.data.parentSubject$$;
         const eventSubject: string =
@@ -69,6 +77,7 @@ export class ArvoOrchestratorEventFactory<
                 subject: parentSubject,
                 version: this.contract.version,
                 domain: event.domain ?? null,
+                idGenerator: this.providers.idGenerator,
                 meta: Object.fromEntries(
                   Object.entries({
                     redirectto: event.redirectto ?? ArvoOrchestrationSubject.parse(parentSubject).execution.initiator,
@@ -80,6 +89,7 @@ export class ArvoOrchestratorEventFactory<
                 initiator: event.source,
                 version: this.contract.version,
                 domain: event.domain ?? null,
+                idGenerator: this.providers.idGenerator,
                 meta: event.redirectto
                   ? {
                       redirectto: event.redirectto,
@@ -104,6 +114,8 @@ export class ArvoOrchestratorEventFactory<
           },
           extensions,
           { disable: true },
+          this.providers,
+          getContractSensitiveDataPaths(this.contract, this.contract.accepts.type),
         );
         span.setAttributes(generatedEvent.otelAttributes);
         return generatedEvent;
@@ -139,10 +151,20 @@ export class ArvoOrchestratorEventFactory<
       spanOptions: createSpanOptions(this.contract),
       fn: (span) => {
         const otelHeaders = currentOpenTelemetryHeaders();
+        applyContractLifecycle(
+          this.contract,
+          this.contract.metadata.completeEventType,
+          getArvoProviders(this.providers).clock,
+          span,
+        );
         const validationResult = this.contract.emits?.[this.contract.metadata.completeEventType]?.safeParse(event.data);
         if (!validationResult?.success) {
-          const msg =
-            validationResult?.error?.message ?? `No schema available for ${this.contract.metadata.completeEventType}`;
+          const msg = validationResult?.error
+            ? redactZodError(
+                validationResult.error,
+                getContractSensitiveDataPaths(this.contract, this.contract.metadata.completeEventType),
+              ).message
+            : `No schema available for ${this.contract.metadata.completeEventType}`;
           throw new Error(`Emit Event data validation failed: ${msg}`);
         }
 
@@ -154,6 +176,7 @@ export class ArvoOrchestratorEventFactory<
             version: this.contract.version,
             orchestator: eventType,
             domain: event.domain ?? null,
+            idGenerator: this.providers.idGenerator,
             meta: event.redirectto
               ? {
                   redirectto: event.redirectto,
@@ -179,6 +202,8 @@ export class ArvoOrchestratorEventFactory<
           },
           extensions,
           { disable: true },
+          this.providers,
+          getContractSensitiveDataPaths(this.contract, eventType),
         );
         span.setAttributes(generatedEvent.otelAttributes);
         return generatedEvent;
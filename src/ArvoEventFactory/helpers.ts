@@ -1,11 +1,13 @@
 import ArvoEventFactory from '.';
 import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+import type { ArvoProviders } from '../ArvoProviders/types';
 import { ArvoOrchestratorEventFactory } from './Orchestrator';
 
 /**
  * Creates an ArvoEventFactory for a specific version of a contract.
  *
  * @param contract - The versioned contract to create a factory for
+ * @param [providers] - The clock and the id generator of the created events. Defaults to the global providers
  * @returns An ArvoEventFactory instance for the specified contract version
  *
  * @example
@@ -15,14 +17,17 @@ import { ArvoOrchestratorEventFactory } from './Orchestrator';
  * const factory = createArvoEventFactory(v1Contract);
  * ```
  */
-export const createArvoEventFactory = <TContract extends VersionedArvoContract<any, any>>(contract: TContract) =>
-  new ArvoEventFactory(contract);
+export const createArvoEventFactory = <TContract extends VersionedArvoContract<any, any>>(
+  contract: TContract,
+  providers?: Partial<ArvoProviders>,
+) => new ArvoEventFactory(contract, providers);
 
 /**
  * Creates an ArvoOrchestratorEventFactory instance for handling orchestration events.
  * Provides type-safe event creation with parent-child subject relationship handling.
  *
  * @param contract - The versioned contract for orchestration events
+ * @param [providers] - The clock and the id generator of the created events and subjects. Defaults to the global providers
  * @returns An ArvoOrchestratorEventFactory for creating orchestration events
  *
  * @example
@@ -37,4 +42,5 @@ export const createArvoEventFactory = <TContract extends VersionedArvoContract<a
  */
 export const createArvoOrchestratorEventFactory = <TContract extends VersionedArvoContract<any, any>>(
   contract: TContract,
-) => new ArvoOrchestratorEventFactory(contract);
+  providers?: Partial<ArvoProviders>,
+) => new ArvoOrchestratorEventFactory(contract, providers);
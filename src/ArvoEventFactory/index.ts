@@ -1,13 +1,17 @@
 import type { z } from 'zod';
 import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+import type ArvoEvent from '../ArvoEvent';
 import { createArvoEvent } from '../ArvoEvent/helpers';
 import { ArvoDataContentType } from '../ArvoEvent/schema';
 import type { CreateArvoEvent } from '../ArvoEvent/types';
+import { getContractSensitiveDataPaths, redactZodError } from '../ArvoEventRedaction';
 import ArvoOrchestrationSubject from '../ArvoOrchestrationSubject';
+import { getArvoProviders } from '../ArvoProviders';
+import type { ArvoProviders } from '../ArvoProviders/types';
 import { ArvoOpenTelemetry, currentOpenTelemetryHeaders } from '../OpenTelemetry';
 import type { ArvoErrorSchema } from '../schema';
 import { EventDataschemaUtil, createArvoError } from '../utils';
-import { createSpanOptions } from './utils';
+import { applyContractLifecycle, createResponseContext, createSpanOptions } from './utils';
 
 /**
  * Factory class for creating and validating events based on a versioned Arvo contract.
@@ -28,14 +32,18 @@ import { createSpanOptions } from './utils';
 export default class ArvoEventFactory<TContract extends VersionedArvoContract<any, any>> {
   protected readonly _name: string = 'EventFactory';
   protected readonly contract: TContract;
+  protected readonly providers: Partial<ArvoProviders>;
 
   /**
    * Creates an ArvoEventFactory instance for a specific version of a contract.
    *
    * @param contract - The versioned contract to use for event creation and validation
+   * @param [providers] - The clock and the id generator of the created events and subjects.
+   * The providers which are not given default to the global ones (see `setArvoProviders`)
    */
-  constructor(contract: TContract) {
+  constructor(contract: TContract, providers?: Partial<ArvoProviders>) {
     this.contract = contract;
+    this.providers = providers ?? {};
   }
 
   /**
@@ -67,10 +75,15 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
       name: `${this._name}.accepts<${this.contract.accepts.type}>`,
       spanOptions: createSpanOptions(this.contract),
       fn: (span) => {
+        applyContractLifecycle(this.contract, this.contract.accepts.type, getArvoProviders(this.providers).clock, span);
         const otelHeaders = currentOpenTelemetryHeaders();
         const validationResult = this.contract.accepts.schema.safeParse(event.data);
         if (!validationResult.success) {
-          throw new Error(`Accept Event data validation failed: ${validationResult.error.message}`);
+          const error = redactZodError(
+            validationResult.error,
+            getContractSensitiveDataPaths(this.contract, this.contract.accepts.type),
+          );
+          throw new Error(`Accept Event data validation failed: ${error.message}`);
         }
         const eventType = this.contract.accepts.type;
         const eventSubject: string =
@@ -85,6 +98,7 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
                 }
               : undefined,
             domain: event.domain ?? null,
+            idGenerator: this.providers.idGenerator,
           });
         const generatedEvent = createArvoEvent<
           z.infer<TContract['accepts']['schema']>,
@@ -104,6 +118,8 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
           },
           extensions,
           { disable: true },
+          this.providers,
+          getContractSensitiveDataPaths(this.contract, eventType),
         );
         span.setAttributes(generatedEvent.otelAttributes);
         return generatedEvent;
@@ -144,10 +160,13 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
       name: `${this._name}.emits<${event.type}>`,
       spanOptions: createSpanOptions(this.contract),
       fn: (span) => {
+        applyContractLifecycle(this.contract, event.type, getArvoProviders(this.providers).clock, span);
         const otelHeaders = currentOpenTelemetryHeaders();
         const validationResult = this.contract.emits?.[event.type]?.safeParse(event.data);
         if (!validationResult?.success) {
-          const msg = validationResult?.error?.message ?? `No contract available for ${event.type}`;
+          const msg = validationResult?.error
+            ? redactZodError(validationResult.error, getContractSensitiveDataPaths(this.contract, event.type)).message
+            : `No contract available for ${event.type}`;
           throw new Error(`Emit Event data validation failed: ${msg}`);
         }
 
@@ -163,6 +182,7 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
                 }
               : undefined,
             domain: event.domain ?? null,
+            idGenerator: this.providers.idGenerator,
           });
 
         const generatedEvent = createArvoEvent<z.infer<TContract['emits'][U]>, TExtension, U>(
@@ -178,6 +198,8 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
           },
           extensions,
           { disable: true },
+          this.providers,
+          getContractSensitiveDataPaths(this.contract, event.type),
         );
         span.setAttributes(generatedEvent.otelAttributes);
         return generatedEvent;
@@ -235,6 +257,7 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
                 }
               : undefined,
             domain: event.domain ?? null,
+            idGenerator: this.providers.idGenerator,
           });
 
         const generatedEvent = createArvoEvent<
@@ -255,10 +278,102 @@ export default class ArvoEventFactory<TContract extends VersionedArvoContract<an
           },
           extensions,
           { disable: true },
+          this.providers,
+          getContractSensitiveDataPaths(this.contract, eventType),
         );
         span.setAttributes(generatedEvent.otelAttributes);
         return generatedEvent;
       },
     });
   }
+
+  /**
+   * Creates a responder which derives the response events from an incoming event,
+   * following the routing semantics of the Arvo extensions:
+   * - `subject` is the incoming event subject, so the response stays in the same process.
+   * - `parentid` is the incoming event id, to keep the event lineage.
+   * - `to` is the incoming `redirectto` or, if not set, the incoming `source` for the emitted events.
+   *   For the system error events, it is always the incoming `source` (errors are never redirected).
+   * - `accesscontrol` and `domain` are propagated from the incoming event.
+   * - `traceparent` and `tracestate` are propagated from the incoming event when there is no active
+   *   OpenTelemetry context. Otherwise, the active context is used as in the other factory methods.
+   * - `source` defaults to the accepted event type of the contract i.e. the handler identity.
+   *
+   * Any field explicitly provided in the response event overrides the derived value.
+   *
+   * @param incoming - The event being responded to
+   * @returns The responder with the `emits` and `systemError` methods, which
+   * have the same validation and telemetry as their factory counterparts
+   *
+   * @example
+   * ```typescript
+   * const result = factory.respondTo(incomingEvent).emits({
+   *   type: 'evt.user.created',
+   *   data: { id: '123' },
+   * });
+   *
+   * const error = factory.respondTo(incomingEvent).systemError({
+   *   error: new Error('Something went wrong'),
+   * });
+   * ```
+   */
+  respondTo(incoming: ArvoEvent) {
+    return {
+      emits: <U extends string & keyof TContract['emits'], TExtension extends Record<string, any>>(
+        event: Omit<
+          CreateArvoEvent<z.input<TContract['emits'][U]>, U>,
+          'datacontenttype' | 'dataschema' | 'subject' | 'domain' | 'source'
+        > & {
+          source?: string;
+          subject?: string;
+          domain?: string | null;
+        },
+        extensions?: TExtension,
+      ) => {
+        const context = createResponseContext(incoming, 'emits');
+        return this.emits<U, TExtension>(
+          {
+            ...event,
+            source: event.source ?? this.contract.accepts.type,
+            subject: event.subject ?? context.subject,
+            parentid: event.parentid ?? context.parentid,
+            to: event.to ?? context.to,
+            accesscontrol: event.accesscontrol ?? context.accesscontrol,
+            domain: event.domain === undefined ? context.domain : event.domain,
+            traceparent: event.traceparent ?? context.traceparent,
+            tracestate: event.tracestate ?? context.tracestate,
+          },
+          extensions,
+        );
+      },
+      systemError: <TExtension extends Record<string, any>>(
+        event: Omit<
+          CreateArvoEvent<any, any>,
+          'data' | 'type' | 'datacontenttype' | 'dataschema' | 'subject' | 'domain' | 'source'
+        > & {
+          error: Error;
+          source?: string;
+          subject?: string;
+          domain?: string | null;
+        },
+        extensions?: TExtension,
+      ) => {
+        const context = createResponseContext(incoming, 'systemError');
+        return this.systemError<TExtension>(
+          {
+            ...event,
+            source: event.source ?? this.contract.accepts.type,
+            subject: event.subject ?? context.subject,
+            parentid: event.parentid ?? context.parentid,
+            to: event.to ?? context.to,
+            accesscontrol: event.accesscontrol ?? context.accesscontrol,
+            domain: event.domain === undefined ? context.domain : event.domain,
+            traceparent: event.traceparent ?? context.traceparent,
+            tracestate: event.tracestate ?? context.tracestate,
+          },
+          extensions,
+        );
+      },
+    };
+  }
 }
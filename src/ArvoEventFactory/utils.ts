@@ -1,5 +1,8 @@
-import { SpanKind } from '@opentelemetry/api';
+import { type Span, SpanKind } from '@opentelemetry/api';
 import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+import type ArvoEvent from '../ArvoEvent';
+import type { ArvoClock } from '../ArvoProviders/types';
+import { currentOpenTelemetryHeaders, logToSpan } from '../OpenTelemetry';
 import { ArvoExecution, ArvoExecutionSpanKind } from '../OpenTelemetry/ArvoExecution';
 import { OpenInference, OpenInferenceSpanKind } from '../OpenTelemetry/OpenInference';
 
@@ -12,3 +15,61 @@ export const createSpanOptions = (contract: VersionedArvoContract<any, any>) =>
     'arvo.contract.version': contract.version,
   },
 });
+
+/**
+ * Derives the fields of a response event from the incoming event. The incoming trace
+ * headers are used only when there is no active OpenTelemetry context to continue.
+ */
+export const createResponseContext = (incoming: ArvoEvent, kind: 'emits' | 'systemError') => {
+  const hasActiveContext = Boolean(currentOpenTelemetryHeaders().traceparent);
+  return {
+    subject: incoming.subject,
+    parentid: incoming.id,
+    to: kind === 'systemError' ? incoming.source : (incoming.redirectto ?? incoming.source),
+    accesscontrol: incoming.accesscontrol ?? undefined,
+    domain: incoming.domain,
+    traceparent: hasActiveContext ? undefined : (incoming.traceparent ?? undefined),
+    tracestate: hasActiveContext ? undefined : (incoming.tracestate ?? undefined),
+  };
+};
+
+/**
+ * Applies the lifecycle of the contract version to the creation of an event. The creation of an
+ * event for a deprecated version is logged as a warning on the span. If the version enforces its
+ * sunset, the creation is refused once the sunset date, per the given clock, has passed.
+ *
+ * @throws {Error} If the sunset of the version is enforced and has passed
+ */
+export const applyContractLifecycle = (
+  contract: VersionedArvoContract<any, any>,
+  eventType: string,
+  clock: ArvoClock,
+  span?: Span,
+) => {
+  const lifecycle = contract.lifecycle;
+  if (!lifecycle) return;
+  if (lifecycle.enforceSunset && contract.isSunset(clock.now())) {
+    const replacement = lifecycle.replacement ? ` Use the version '${lifecycle.replacement}' instead.` : '';
+    throw new Error(
+      `The contract (uri=${contract.uri}, version=${contract.version}) reached its sunset on ${lifecycle.sunset}. The event (type=${eventType}) cannot be created.${replacement}`,
+    );
+  }
+  if (!lifecycle.deprecated) return;
+  logToSpan(
+    {
+      level: 'WARNING',
+      message: [
+        `The event (type=${eventType}) is created for the deprecated contract (uri=${contract.uri}, version=${contract.version}).`,
+        lifecycle.sunset ? `Sunset: ${lifecycle.sunset}.` : null,
+        lifecycle.replacement ? `Replacement: ${lifecycle.replacement}.` : null,
+        lifecycle.reason ? `Reason: ${lifecycle.reason}` : null,
+      ]
+        .filter(Boolean)
+        .join(' '),
+      'arvo.contract.deprecated': 'true',
+      'arvo.contract.sunset': lifecycle.sunset ?? '',
+      'arvo.contract.replacement': lifecycle.replacement ?? '',
+    },
+    span,
+  );
+};
@@ -0,0 +1,254 @@
+import type ArvoEvent from '../ArvoEvent';
+import { createArvoEventFromAttributes } from '../ArvoEvent/helpers';
+import type { ArvoEventClaimCheckHookOptions } from '../ArvoEventClaimCheck/types';
+import type { ArvoEventHttpConfig, ArvoEventHttpRequest } from './types';
+
+/**
+ * The content type of a binary-mode HTTP message body
+ */
+const BINARY_CONTENT_TYPE = 'application/json';
+
+/**
+ * The content type prefix of a structured-mode HTTP message body
+ */
+const STRUCTURED_CONTENT_TYPE = 'application/cloudevents+json';
+
+/**
+ * The prefix of the HTTP headers carrying the CloudEvent attributes in binary-mode
+ */
+const HEADER_PREFIX = 'ce-';
+
+/**
+ * A utility class for converting ArvoEvents to and from HTTP messages following the
+ * [CloudEvents HTTP protocol binding](https://github.com/cloudevents/spec/blob/main/cloudevents/bindings/http-protocol-binding.md).
+ *
+ * Two modes are supported:
+ * - Binary mode: The event attributes (including the Arvo and OpenTelemetry extensions
+ *   such as `to`, `redirectto`, `parentid`, `domain` and `traceparent`) are carried in
+ *   `ce-*` headers and the body contains only the event data.
+ * - Structured mode: The complete event is carried in the body with the
+ *   content type `application/cloudevents+json`.
+ *
+ * @remarks
+ * In binary mode, the `content-type` header is always `application/json` and the event
+ * `datacontenttype` is carried in the `ce-datacontenttype` header. This is because the Arvo
+ * datacontenttype contains `application/cloudevents+json`, which HTTP receivers would
+ * otherwise mistake for a structured-mode message.
+ *
+ * Since HTTP headers are strings, the custom extension values of a binary-mode message
+ * are always imported as strings.
+ */
+// biome-ignore lint/complexity/noStaticOnlyClass: This needs to be a static class to group methods together
+export default class ArvoEventHttp {
+  /**
+   * Exports an ArvoEvent to a CloudEvent binary-mode HTTP message.
+   * Attributes with null values are omitted from the headers.
+   *
+   * @param event - The ArvoEvent to export.
+   * @param [options] - The claim check which offloads the event data above its threshold before the
+   * export. When provided, a promise of the message is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns An ArvoEventHttpConfig object with `ce-*` headers and the event data as the body.
+   *
+   * @example
+   * ```typescript
+   * const { headers, data } = ArvoEventHttp.exportToBinary(event);
+   * await fetch(url, { method: 'POST', headers, body: JSON.stringify(data) });
+   * ```
+   */
+  static exportToBinary(event: ArvoEvent, options: ArvoEventClaimCheckHookOptions): Promise<ArvoEventHttpConfig>;
+  static exportToBinary(event: ArvoEvent): ArvoEventHttpConfig;
+  static exportToBinary(
+    event: ArvoEvent,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEventHttpConfig | Promise<ArvoEventHttpConfig> {
+    if (options) {
+      return options.claimCheck.offload(event).then((offloaded) => ArvoEventHttp.exportToBinary(offloaded));
+    }
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(event.toJSON())) {
+      if (key === 'data' || value === null || value === undefined) continue;
+      headers[`${HEADER_PREFIX}${key}`] = ArvoEventHttp.encodeHeaderValue(String(value));
+    }
+    return {
+      headers: {
+        ...headers,
+        'content-type': BINARY_CONTENT_TYPE,
+      },
+      data: { ...event.data },
+    };
+  }
+
+  /**
+   * Exports an ArvoEvent to a CloudEvent structured-mode HTTP message.
+   *
+   * @param event - The ArvoEvent to export.
+   * @param [options] - The claim check which offloads the event data above its threshold before the
+   * export. When provided, a promise of the message is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns An ArvoEventHttpConfig object with the complete event as the body.
+   */
+  static exportToStructured(event: ArvoEvent, options: ArvoEventClaimCheckHookOptions): Promise<ArvoEventHttpConfig>;
+  static exportToStructured(event: ArvoEvent): ArvoEventHttpConfig;
+  static exportToStructured(
+    event: ArvoEvent,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEventHttpConfig | Promise<ArvoEventHttpConfig> {
+    if (options) {
+      return options.claimCheck.offload(event).then((offloaded) => ArvoEventHttp.exportToStructured(offloaded));
+    }
+    return {
+      headers: {
+        'content-type': event.datacontenttype.includes(STRUCTURED_CONTENT_TYPE)
+          ? event.datacontenttype
+          : `${STRUCTURED_CONTENT_TYPE};charset=UTF-8`,
+      },
+      data: event.toJSON(),
+    };
+  }
+
+  /**
+   * Imports an ArvoEvent from a binary-mode HTTP message.
+   *
+   * @param request - The incoming HTTP headers and body.
+   * @param [options] - The claim check which rehydrates the offloaded event data. When provided, a
+   * promise of the rehydrated event is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns A new validated ArvoEvent instance.
+   * @throws {Error} If the content type is invalid, the body is not a JSON object, or the
+   * event attributes fail the ArvoEvent validation.
+   */
+  static importFromBinary(request: ArvoEventHttpRequest, options: ArvoEventClaimCheckHookOptions): Promise<ArvoEvent>;
+  static importFromBinary(request: ArvoEventHttpRequest): ArvoEvent;
+  static importFromBinary(
+    request: ArvoEventHttpRequest,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEvent | Promise<ArvoEvent> {
+    if (options) {
+      return options.claimCheck.rehydrating(ArvoEventHttp.importFromBinary)(request);
+    }
+    const headers = ArvoEventHttp.normalizeHeaders(request.headers);
+    const contentType = headers['content-type'] ?? '';
+    if (!contentType.includes(BINARY_CONTENT_TYPE)) {
+      throw new Error(`Invalid content-type: '${contentType}'. Expected: '${BINARY_CONTENT_TYPE}'`);
+    }
+    const attributes: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      if (key.startsWith(HEADER_PREFIX)) {
+        attributes[key.slice(HEADER_PREFIX.length)] = ArvoEventHttp.decodeHeaderValue(value);
+      }
+    }
+    return createArvoEventFromAttributes(
+      attributes,
+      ArvoEventHttp.parseBody(request.data),
+      'HTTP message',
+      HEADER_PREFIX,
+    );
+  }
+
+  /**
+   * Imports an ArvoEvent from a structured-mode HTTP message.
+   *
+   * @param request - The incoming HTTP headers and body.
+   * @param [options] - The claim check which rehydrates the offloaded event data. When provided, a
+   * promise of the rehydrated event is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns A new validated ArvoEvent instance.
+   * @throws {Error} If the content type is invalid, the body is not a JSON object, or the
+   * event fails the ArvoEvent validation.
+   */
+  static importFromStructured(
+    request: ArvoEventHttpRequest,
+    options: ArvoEventClaimCheckHookOptions,
+  ): Promise<ArvoEvent>;
+  static importFromStructured(request: ArvoEventHttpRequest): ArvoEvent;
+  static importFromStructured(
+    request: ArvoEventHttpRequest,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEvent | Promise<ArvoEvent> {
+    if (options) {
+      return options.claimCheck.rehydrating(ArvoEventHttp.importFromStructured)(request);
+    }
+    const headers = ArvoEventHttp.normalizeHeaders(request.headers);
+    const contentType = headers['content-type'] ?? '';
+    if (!contentType.includes(STRUCTURED_CONTENT_TYPE)) {
+      throw new Error(`Invalid content-type: '${contentType}'. Expected: '${STRUCTURED_CONTENT_TYPE}'`);
+    }
+    const { data, ...attributes } = ArvoEventHttp.parseBody(request.data);
+    return createArvoEventFromAttributes(attributes, data, 'HTTP message');
+  }
+
+  /**
+   * Imports an ArvoEvent from an HTTP message, detecting the mode from
+   * the `content-type` header.
+   *
+   * @param request - The incoming HTTP headers and body.
+   * @param [options] - The claim check which rehydrates the offloaded event data. When provided, a
+   * promise of the rehydrated event is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns A new validated ArvoEvent instance.
+   * @throws {Error} If the message cannot be imported in the detected mode.
+   */
+  static import(request: ArvoEventHttpRequest, options: ArvoEventClaimCheckHookOptions): Promise<ArvoEvent>;
+  static import(request: ArvoEventHttpRequest): ArvoEvent;
+  static import(
+    request: ArvoEventHttpRequest,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEvent | Promise<ArvoEvent> {
+    if (options) {
+      return options.claimCheck.rehydrating(ArvoEventHttp.import)(request);
+    }
+    const contentType = ArvoEventHttp.normalizeHeaders(request.headers)['content-type'] ?? '';
+    if (contentType.includes(STRUCTURED_CONTENT_TYPE)) {
+      return ArvoEventHttp.importFromStructured(request);
+    }
+    return ArvoEventHttp.importFromBinary(request);
+  }
+
+  /**
+   * Parses the HTTP body into a JSON object.
+   */
+  private static parseBody(data: ArvoEventHttpRequest['data']): Record<string, any> {
+    let parsed: unknown = data;
+    if (typeof data === 'string') {
+      try {
+        parsed = JSON.parse(data);
+      } catch (e) {
+        throw new Error(`Unable to parse the HTTP body as JSON: ${(e as Error).message}`);
+      }
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('The HTTP body must be a JSON object');
+    }
+    return parsed as Record<string, any>;
+  }
+
+  /**
+   * Lowercases the header keys and collapses multi-value headers to their first value.
+   */
+  private static normalizeHeaders(headers: ArvoEventHttpRequest['headers']): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      const resolved = Array.isArray(value) ? value[0] : value;
+      if (resolved !== undefined) {
+        normalized[key.toLowerCase()] = String(resolved);
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * Percent-encodes the characters which are not allowed in a CloudEvent HTTP header
+   * value i.e. anything outside the printable ASCII range, space, `"` and `%`.
+   */
+  private static encodeHeaderValue(value: string): string {
+    return value.replace(/[^\x21\x23\x24\x26-\x7E]+/g, (match) => encodeURIComponent(match));
+  }
+
+  /**
+   * Decodes a percent-encoded CloudEvent HTTP header value. Malformed
+   * encodings are returned as is.
+   */
+  private static decodeHeaderValue(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Represents the HTTP message representation of an ArvoEvent as produced
+ * by `ArvoEventHttp`. The header keys are lowercase.
+ */
+export type ArvoEventHttpConfig = {
+  /** The HTTP headers of the message */
+  headers: Record<string, string>;
+  /** The HTTP body of the message as a JSON serializable object */
+  data: Record<string, any>;
+};
+
+/**
+ * Represents an incoming HTTP message which can be converted into an ArvoEvent.
+ * This shape is intentionally permissive so that header maps from common
+ * HTTP servers (e.g. Node `IncomingHttpHeaders`) can be passed in directly.
+ */
+export type ArvoEventHttpRequest = {
+  /** The HTTP headers of the message. The header key lookup is case-insensitive */
+  headers: Record<string, string | string[] | number | undefined>;
+  /** The HTTP body of the message. Either a raw JSON string or an already parsed object */
+  data: string | Record<string, any>;
+};
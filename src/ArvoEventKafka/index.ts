@@ -0,0 +1,270 @@
+import type ArvoEvent from '../ArvoEvent';
+import { createArvoEventFromAttributes } from '../ArvoEvent/helpers';
+import type { ArvoEventClaimCheckHookOptions } from '../ArvoEventClaimCheck/types';
+import ArvoOrchestrationSubject from '../ArvoOrchestrationSubject';
+import type { ArvoEventKafkaMessage, ArvoEventKafkaPartitionKeyStrategy, ArvoEventKafkaRecord } from './types';
+
+/**
+ * The content type of a binary-mode Kafka record value
+ */
+const BINARY_CONTENT_TYPE = 'application/json';
+
+/**
+ * The content type prefix of a structured-mode Kafka record value
+ */
+const STRUCTURED_CONTENT_TYPE = 'application/cloudevents+json';
+
+/**
+ * The prefix of the Kafka headers carrying the CloudEvent attributes in binary-mode
+ */
+const HEADER_PREFIX = 'ce_';
+
+/**
+ * A utility class for converting ArvoEvents to and from Kafka records following the
+ * [CloudEvents Kafka protocol binding](https://github.com/cloudevents/spec/blob/main/cloudevents/bindings/kafka-protocol-binding.md).
+ *
+ * Two modes are supported:
+ * - Binary mode: The event attributes (including the Arvo and OpenTelemetry extensions)
+ *   are carried in `ce_*` headers and the value contains only the event data.
+ * - Structured mode: The complete event is carried in the value with the
+ *   content type `application/cloudevents+json`.
+ *
+ * The record key is resolved via a pluggable {@link ArvoEventKafkaPartitionKeyStrategy}, which
+ * defaults to {@link ArvoEventKafka.executionIdPartitionKey}.
+ *
+ * @remarks
+ * In binary mode, the `content-type` header is always `application/json` and the event
+ * `datacontenttype` is carried in the `ce_datacontenttype` header, mirroring `ArvoEventHttp`.
+ * Since Kafka headers are strings, the custom extension values of a binary-mode record
+ * are always imported as strings.
+ */
+// biome-ignore lint/complexity/noStaticOnlyClass: This needs to be a static class to group methods together
+export default class ArvoEventKafka {
+  /**
+   * The default partition key strategy. It resolves the key to the orchestration execution
+   * id parsed from the event `subject`, so all the events of one orchestration execution land
+   * on the same partition. If the subject is not an Arvo orchestration subject, the subject
+   * itself is used as the key.
+   *
+   * @param event - The ArvoEvent to resolve the key for
+   * @returns The record key
+   */
+  static executionIdPartitionKey(event: ArvoEvent): string | null {
+    try {
+      return ArvoOrchestrationSubject.parse(event.subject).execution.id;
+    } catch {
+      return event.subject;
+    }
+  }
+
+  /**
+   * Exports an ArvoEvent to a CloudEvent binary-mode Kafka record.
+   * Attributes with null values are omitted from the headers.
+   *
+   * @param event - The ArvoEvent to export.
+   * @param [partitionKey] - The strategy to resolve the record key. Defaults to {@link ArvoEventKafka.executionIdPartitionKey}
+   * @param [options] - The claim check which offloads the event data above its threshold before the
+   * export. When provided, a promise of the message is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns An ArvoEventKafkaRecord with `ce_*` headers and the event data as the value.
+   *
+   * @example
+   * ```typescript
+   * const record = ArvoEventKafka.exportToBinary(event);
+   * await producer.send({ topic: event.to, messages: [record] });
+   * ```
+   */
+  static exportToBinary(
+    event: ArvoEvent,
+    partitionKey: ArvoEventKafkaPartitionKeyStrategy | undefined,
+    options: ArvoEventClaimCheckHookOptions,
+  ): Promise<ArvoEventKafkaRecord>;
+  static exportToBinary(event: ArvoEvent, partitionKey?: ArvoEventKafkaPartitionKeyStrategy): ArvoEventKafkaRecord;
+  static exportToBinary(
+    event: ArvoEvent,
+    partitionKey: ArvoEventKafkaPartitionKeyStrategy = ArvoEventKafka.executionIdPartitionKey,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEventKafkaRecord | Promise<ArvoEventKafkaRecord> {
+    if (options) {
+      return options.claimCheck
+        .offload(event)
+        .then((offloaded) => ArvoEventKafka.exportToBinary(offloaded, partitionKey));
+    }
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(event.toJSON())) {
+      if (key === 'data' || value === null || value === undefined) continue;
+      headers[`${HEADER_PREFIX}${key}`] = String(value);
+    }
+    return {
+      key: partitionKey(event),
+      headers: {
+        ...headers,
+        'content-type': BINARY_CONTENT_TYPE,
+      },
+      value: JSON.stringify(event.data),
+    };
+  }
+
+  /**
+   * Exports an ArvoEvent to a CloudEvent structured-mode Kafka record.
+   *
+   * @param event - The ArvoEvent to export.
+   * @param [partitionKey] - The strategy to resolve the record key. Defaults to {@link ArvoEventKafka.executionIdPartitionKey}
+   * @param [options] - The claim check which offloads the event data above its threshold before the
+   * export. When provided, a promise of the message is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns An ArvoEventKafkaRecord with the complete event as the value.
+   */
+  static exportToStructured(
+    event: ArvoEvent,
+    partitionKey: ArvoEventKafkaPartitionKeyStrategy | undefined,
+    options: ArvoEventClaimCheckHookOptions,
+  ): Promise<ArvoEventKafkaRecord>;
+  static exportToStructured(event: ArvoEvent, partitionKey?: ArvoEventKafkaPartitionKeyStrategy): ArvoEventKafkaRecord;
+  static exportToStructured(
+    event: ArvoEvent,
+    partitionKey: ArvoEventKafkaPartitionKeyStrategy = ArvoEventKafka.executionIdPartitionKey,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEventKafkaRecord | Promise<ArvoEventKafkaRecord> {
+    if (options) {
+      return options.claimCheck
+        .offload(event)
+        .then((offloaded) => ArvoEventKafka.exportToStructured(offloaded, partitionKey));
+    }
+    return {
+      key: partitionKey(event),
+      headers: {
+        'content-type': event.datacontenttype.includes(STRUCTURED_CONTENT_TYPE)
+          ? event.datacontenttype
+          : `${STRUCTURED_CONTENT_TYPE};charset=UTF-8`,
+      },
+      value: JSON.stringify(event.toJSON()),
+    };
+  }
+
+  /**
+   * Imports an ArvoEvent from a binary-mode Kafka record.
+   *
+   * @param message - The incoming Kafka record.
+   * @param [options] - The claim check which rehydrates the offloaded event data. When provided, a
+   * promise of the rehydrated event is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns A new validated ArvoEvent instance.
+   * @throws {Error} If the content type is invalid, the value is not a JSON object, or the
+   * event attributes fail the ArvoEvent validation.
+   */
+  static importFromBinary(message: ArvoEventKafkaMessage, options: ArvoEventClaimCheckHookOptions): Promise<ArvoEvent>;
+  static importFromBinary(message: ArvoEventKafkaMessage): ArvoEvent;
+  static importFromBinary(
+    message: ArvoEventKafkaMessage,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEvent | Promise<ArvoEvent> {
+    if (options) {
+      return options.claimCheck.rehydrating(ArvoEventKafka.importFromBinary)(message);
+    }
+    const headers = ArvoEventKafka.normalizeHeaders(message.headers);
+    const contentType = headers['content-type'] ?? '';
+    if (!contentType.includes(BINARY_CONTENT_TYPE)) {
+      throw new Error(`Invalid content-type: '${contentType}'. Expected: '${BINARY_CONTENT_TYPE}'`);
+    }
+    const attributes: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      if (key.startsWith(HEADER_PREFIX)) {
+        attributes[key.slice(HEADER_PREFIX.length)] = value;
+      }
+    }
+    return createArvoEventFromAttributes(
+      attributes,
+      ArvoEventKafka.parseValue(message.value),
+      'Kafka record',
+      HEADER_PREFIX,
+    );
+  }
+
+  /**
+   * Imports an ArvoEvent from a structured-mode Kafka record.
+   *
+   * @param message - The incoming Kafka record.
+   * @param [options] - The claim check which rehydrates the offloaded event data. When provided, a
+   * promise of the rehydrated event is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns A new validated ArvoEvent instance.
+   * @throws {Error} If the content type is invalid, the value is not a JSON object, or the
+   * event fails the ArvoEvent validation.
+   */
+  static importFromStructured(
+    message: ArvoEventKafkaMessage,
+    options: ArvoEventClaimCheckHookOptions,
+  ): Promise<ArvoEvent>;
+  static importFromStructured(message: ArvoEventKafkaMessage): ArvoEvent;
+  static importFromStructured(
+    message: ArvoEventKafkaMessage,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEvent | Promise<ArvoEvent> {
+    if (options) {
+      return options.claimCheck.rehydrating(ArvoEventKafka.importFromStructured)(message);
+    }
+    const headers = ArvoEventKafka.normalizeHeaders(message.headers);
+    const contentType = headers['content-type'] ?? '';
+    if (!contentType.includes(STRUCTURED_CONTENT_TYPE)) {
+      throw new Error(`Invalid content-type: '${contentType}'. Expected: '${STRUCTURED_CONTENT_TYPE}'`);
+    }
+    const { data, ...attributes } = ArvoEventKafka.parseValue(message.value);
+    return createArvoEventFromAttributes(attributes, data, 'Kafka record');
+  }
+
+  /**
+   * Imports an ArvoEvent from a Kafka record, detecting the mode from
+   * the `content-type` header.
+   *
+   * @param message - The incoming Kafka record.
+   * @param [options] - The claim check which rehydrates the offloaded event data. When provided, a
+   * promise of the rehydrated event is returned. See {@link ArvoEventClaimCheckHookOptions}
+   * @returns A new validated ArvoEvent instance.
+   * @throws {Error} If the record cannot be imported in the detected mode.
+   */
+  static import(message: ArvoEventKafkaMessage, options: ArvoEventClaimCheckHookOptions): Promise<ArvoEvent>;
+  static import(message: ArvoEventKafkaMessage): ArvoEvent;
+  static import(
+    message: ArvoEventKafkaMessage,
+    options?: ArvoEventClaimCheckHookOptions,
+  ): ArvoEvent | Promise<ArvoEvent> {
+    if (options) {
+      return options.claimCheck.rehydrating(ArvoEventKafka.import)(message);
+    }
+    const contentType = ArvoEventKafka.normalizeHeaders(message.headers)['content-type'] ?? '';
+    if (contentType.includes(STRUCTURED_CONTENT_TYPE)) {
+      return ArvoEventKafka.importFromStructured(message);
+    }
+    return ArvoEventKafka.importFromBinary(message);
+  }
+
+  /**
+   * Parses the Kafka record value into a JSON object.
+   */
+  private static parseValue(value: ArvoEventKafkaMessage['value']): Record<string, any> {
+    let parsed: unknown = value;
+    if (typeof value === 'string' || Buffer.isBuffer(value)) {
+      try {
+        parsed = JSON.parse(value.toString());
+      } catch (e) {
+        throw new Error(`Unable to parse the Kafka record value as JSON: ${(e as Error).message}`);
+      }
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('The Kafka record value must be a JSON object');
+    }
+    return parsed as Record<string, any>;
+  }
+
+  /**
+   * Lowercases the header keys, decodes buffers and collapses multi-value
+   * headers to their first value.
+   */
+  private static normalizeHeaders(headers: ArvoEventKafkaMessage['headers']): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers ?? {})) {
+      const resolved = Array.isArray(value) ? value[0] : value;
+      if (resolved !== undefined) {
+        normalized[key.toLowerCase()] = resolved.toString();
+      }
+    }
+    return normalized;
+  }
+}
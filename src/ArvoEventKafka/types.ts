@@ -0,0 +1,34 @@
+import type ArvoEvent from '../ArvoEvent';
+
+/**
+ * Represents the Kafka record representation of an ArvoEvent. The shape is
+ * compatible with the message format of common Kafka clients (e.g. kafkajs).
+ */
+export type ArvoEventKafkaRecord = {
+  /** The record key used for partitioning. Null lets the producer choose the partition */
+  key: string | null;
+  /** The record headers */
+  headers: Record<string, string>;
+  /** The record value as a JSON string */
+  value: string;
+};
+
+/**
+ * Represents an incoming Kafka record which can be converted into an ArvoEvent.
+ * This shape is intentionally permissive so that messages from common Kafka
+ * clients (e.g. kafkajs `KafkaMessage`) can be passed in directly.
+ */
+export type ArvoEventKafkaMessage = {
+  /** The record key. It is not part of the event and is ignored during the import */
+  key?: string | Buffer | null;
+  /** The record headers. The header key lookup is case-insensitive */
+  headers?: Record<string, string | Buffer | (string | Buffer)[] | undefined>;
+  /** The record value. Either a raw JSON string/buffer or an already parsed object */
+  value: string | Buffer | Record<string, any> | null;
+};
+
+/**
+ * Resolves the Kafka record key for an ArvoEvent. Events with the same key
+ * are delivered to the same partition and are, hence, consumed in order.
+ */
+export type ArvoEventKafkaPartitionKeyStrategy = (event: ArvoEvent) => string | null;
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+import ArvoEvent from '../ArvoEvent';
+import type { ArvoEventData, CloudEventExtension } from '../ArvoEvent/types';
+import type { ArvoEventRedactionOptions } from './types';
+import { ArvoRedactionMask, ArvoSensitiveDataMarker, findSensitivePaths, isWithinPaths, maskPaths } from './utils';
+
+/**
+ * Marks a zod schema as sensitive by adding the {@link ArvoSensitiveDataMarker} to its
+ * description. The values of the sensitive fields are masked by the redaction utilities.
+ *
+ * @param schema - The zod schema of the sensitive field
+ * @param [description] - The description of the field
+ * @returns The described schema
+ *
+ * @example
+ * ```typescript
+ * const schema = z.object({
+ *   name: z.string(),
+ *   email: markSensitive(z.string().email(), 'The email of the user'),
+ * });
+ * ```
+ */
+export const markSensitive = <T extends z.ZodTypeAny>(schema: T, description?: string): T =>
+  schema.describe(description ? `${ArvoSensitiveDataMarker} ${description}` : ArvoSensitiveDataMarker) as T;
+
+/**
+ * Returns the JSON paths of the sensitive fields of a zod schema i.e. the fields whose
+ * description contains the {@link ArvoSensitiveDataMarker}. The array items and record
+ * values are denoted by `[*]`.
+ *
+ * @param schema - The zod schema to inspect
+ * @returns The JSON paths of the sensitive fields e.g. `['$.email', '$.cards[*].number']`
+ */
+export const getSensitiveDataPaths = (schema: z.ZodTypeAny): string[] => findSensitivePaths(schema);
+
+/**
+ * Returns the JSON paths of the sensitive fields of the data of an event type of a contract.
+ * These are the sensitive fields of the zod schema of the event type and the JSON paths listed
+ * in the `sensitiveFields` of the contract metadata, which apply to all the event types.
+ *
+ * @param contract - The versioned contract
+ * @param type - The event type
+ * @returns The JSON paths of the sensitive fields
+ */
+export const getContractSensitiveDataPaths = (contract: VersionedArvoContract<any, any>, type: string): string[] => {
+  let schema: z.ZodTypeAny | null = null;
+  if (contract.accepts.type === type) schema = contract.accepts.schema;
+  else if (contract.systemError.type === type) schema = contract.systemError.schema;
+  else if (type in contract.emits) schema = contract.emits[type];
+  // The sensitive fields of the metadata are validated by the ArvoContract constructor
+  const metadataPaths: string[] = contract.metadata?.sensitiveFields ?? [];
+  return Array.from(new Set([...(schema ? findSensitivePaths(schema) : []), ...metadataPaths]));
+};
+
+/**
+ * Returns a copy of the data where the values at the JSON paths are replaced by the mask.
+ *
+ * @param data - The data to redact
+ * @param paths - The JSON paths of the sensitive fields e.g. `$.email`, `$.cards[*].number` or `$.secrets.*`
+ * @param [mask] - The value which replaces the sensitive fields. Defaults to {@link ArvoRedactionMask}
+ * @returns The redacted copy of the data
+ *
+ * @throws {Error} If a JSON path is invalid
+ */
+export const redactData = <T>(data: T, paths: string[], mask: string = ArvoRedactionMask): T =>
+  maskPaths(data, paths, mask);
+
+/**
+ * Returns a masked copy of an ArvoEvent, whose sensitive data fields are replaced by the mask,
+ * for logs, traces and error messages. The sensitive fields are resolved from the contract of
+ * the event (see {@link getContractSensitiveDataPaths}), the `sensitiveDataPaths` of the event
+ * and the provided JSON paths.
+ *
+ * @param event - The event to redact
+ * @param [options] - The redaction options. See {@link ArvoEventRedactionOptions}
+ * @returns The redacted copy of the event, or the event itself if it has no sensitive fields
+ *
+ * @example
+ * ```typescript
+ * console.log(redactArvoEvent(event, { contract: userContract.version('1.0.0') }).toString());
+ * ```
+ */
+export const redactArvoEvent = <
+  TExtension extends CloudEventExtension = CloudEventExtension,
+  TType extends string = string,
+>(
+  event: ArvoEvent<any, TExtension, TType>,
+  options?: ArvoEventRedactionOptions,
+): ArvoEvent<ArvoEventData, TExtension, TType> => {
+  const paths = [
+    ...event.sensitiveDataPaths,
+    ...(options?.contract ? getContractSensitiveDataPaths(options.contract, event.type) : []),
+    ...(options?.paths ?? []),
+  ];
+  if (!paths.length) return event;
+  return ArvoEvent.fromJSON<ArvoEventData, TExtension, TType>(
+    {
+      ...event.toJSON(),
+      data: maskPaths(event.data, paths, options?.mask ?? ArvoRedactionMask),
+    },
+    { sensitiveDataPaths: event.sensitiveDataPaths },
+  );
+};
+
+/**
+ * Returns a copy of a zod error where the issues of the sensitive fields are replaced by
+ * a generic issue, as some issue messages contain the received value (e.g. an invalid enum value).
+ *
+ * @param error - The zod error to redact
+ * @param paths - The JSON paths of the sensitive fields
+ * @returns The redacted copy of the error, or the error itself if there are no sensitive fields
+ */
+export const redactZodError = (error: z.ZodError, paths: string[]): z.ZodError => {
+  if (!paths.length) return error;
+  return new z.ZodError(
+    error.issues.map((issue) =>
+      isWithinPaths(issue.path, paths)
+        ? { code: z.ZodIssueCode.custom, path: issue.path, message: 'Invalid sensitive value' }
+        : issue,
+    ),
+  );
+};
@@ -0,0 +1,23 @@
+import type { VersionedArvoContract } from '../ArvoContract/VersionedArvoContract';
+
+/**
+ * The options of the ArvoEvent redaction
+ */
+export type ArvoEventRedactionOptions = {
+  /**
+   * The contract of the event. The sensitive fields of the event data are resolved from
+   * the zod schema of the event type and the `sensitiveFields` of the contract metadata.
+   */
+  contract?: VersionedArvoContract<any, any>;
+
+  /**
+   * Additional JSON paths of the sensitive fields of the event data
+   * e.g. `$.email`, `$.cards[*].number` or `$.secrets.*`
+   */
+  paths?: string[];
+
+  /**
+   * The value which replaces the sensitive fields. Defaults to `[REDACTED]`.
+   */
+  mask?: string;
+};
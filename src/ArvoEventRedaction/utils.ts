@@ -0,0 +1,153 @@
+import { z } from 'zod';
+
+/**
+ * The marker of the sensitive fields in the zod schema descriptions
+ */
+export const ArvoSensitiveDataMarker = '@sensitive';
+
+/**
+ * The default value which replaces the sensitive fields
+ */
+export const ArvoRedactionMask = '[REDACTED]';
+
+/**
+ * A parsed JSON path, where `*` matches any object key or array index
+ */
+type PathSegments = (string | number)[];
+
+const isSensitiveDescription = (description: string | undefined) =>
+  Boolean(description && new RegExp(`(^|\\s)${ArvoSensitiveDataMarker}(\\s|$)`).test(description));
+
+/**
+ * Parses a JSON path with the dot and bracket notations, e.g. `$.cards[*].number`,
+ * `$.secrets.*`, `$.items[0]` or `$['first name']`.
+ */
+export const parseJsonPath = (path: string): PathSegments => {
+  if (!path.startsWith('$')) {
+    throw new Error(`Invalid JSON path '${path}'. It must start with '$'`);
+  }
+  const segments: PathSegments = [];
+  const pattern = /\.([^.[\]]+)|\[(\*|\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g;
+  let index = 1;
+  let match = pattern.exec(path);
+  while (match && match.index === index) {
+    const [token, dotKey, bracketKey, singleQuoted, doubleQuoted] = match;
+    if (bracketKey !== undefined) {
+      segments.push(bracketKey === '*' ? '*' : Number(bracketKey));
+    } else {
+      segments.push(dotKey ?? singleQuoted ?? doubleQuoted);
+    }
+    index += token.length;
+    match = pattern.exec(path);
+  }
+  if (index !== path.length) {
+    throw new Error(`Invalid JSON path '${path}'`);
+  }
+  return segments;
+};
+
+const toJsonPath = (segments: PathSegments) =>
+  `$${segments
+    .map((item) => {
+      if (item === '*') return '[*]';
+      if (typeof item === 'number') return `[${item}]`;
+      return /^[^.[\]'"]+$/.test(item) ? `.${item}` : `['${item}']`;
+    })
+    .join('')}`;
+
+/**
+ * Collects the JSON paths of the fields whose zod schema description has the sensitive marker
+ */
+const collectSensitivePaths = (
+  schema: z.ZodTypeAny,
+  path: PathSegments,
+  result: string[],
+  visited: Set<z.ZodTypeAny>,
+): void => {
+  if (visited.has(schema)) return;
+  if (isSensitiveDescription(schema.description)) {
+    if (path.length) result.push(toJsonPath(path));
+    return;
+  }
+  visited.add(schema);
+  if (schema instanceof z.ZodObject) {
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      collectSensitivePaths(value, [...path, key], result, visited);
+    }
+  } else if (schema instanceof z.ZodArray) {
+    collectSensitivePaths(schema.element, [...path, '*'], result, visited);
+  } else if (schema instanceof z.ZodTuple) {
+    schema.items.forEach((item: z.ZodTypeAny, index: number) =>
+      collectSensitivePaths(item, [...path, index], result, visited),
+    );
+  } else if (schema instanceof z.ZodRecord) {
+    collectSensitivePaths(schema.valueSchema, [...path, '*'], result, visited);
+  } else if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    for (const option of schema.options as z.ZodTypeAny[]) {
+      collectSensitivePaths(option, path, result, visited);
+    }
+  } else if (schema instanceof z.ZodIntersection) {
+    collectSensitivePaths(schema._def.left, path, result, visited);
+    collectSensitivePaths(schema._def.right, path, result, visited);
+  } else if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    collectSensitivePaths(schema.unwrap(), path, result, visited);
+  } else if (schema instanceof z.ZodDefault || schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly) {
+    collectSensitivePaths(schema._def.innerType, path, result, visited);
+  } else if (schema instanceof z.ZodEffects) {
+    collectSensitivePaths(schema.innerType(), path, result, visited);
+  } else if (schema instanceof z.ZodBranded) {
+    collectSensitivePaths(schema.unwrap(), path, result, visited);
+  } else if (schema instanceof z.ZodPipeline) {
+    collectSensitivePaths(schema._def.in, path, result, visited);
+  } else if (schema instanceof z.ZodLazy) {
+    collectSensitivePaths(schema.schema, path, result, visited);
+  }
+};
+
+export const findSensitivePaths = (schema: z.ZodTypeAny): string[] => {
+  const result: string[] = [];
+  collectSensitivePaths(schema, [], result, new Set());
+  return Array.from(new Set(result));
+};
+
+const matchesSegment = (pattern: string | number, segment: string | number) =>
+  pattern === '*' || String(pattern) === String(segment);
+
+/**
+ * Checks if a value path (e.g. the path of a zod issue) is within one of the sensitive paths
+ */
+export const isWithinPaths = (path: (string | number)[], paths: string[]): boolean =>
+  paths.some((item) => {
+    const segments = parseJsonPath(item);
+    return (
+      segments.length > 0 &&
+      segments.length <= path.length &&
+      segments.every((segment, index) => matchesSegment(segment, path[index]))
+    );
+  });
+
+const maskPath = (value: unknown, segments: PathSegments, mask: string): unknown => {
+  if (!segments.length) return mask;
+  if (value === null || typeof value !== 'object') return value;
+  const [segment, ...rest] = segments;
+  if (Array.isArray(value)) {
+    return value.map((item, index) => (matchesSegment(segment, index) ? maskPath(item, rest, mask) : item));
+  }
+  const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  for (const key of Object.keys(result)) {
+    if (result[key] !== undefined && matchesSegment(segment, key)) {
+      result[key] = maskPath(result[key], rest, mask);
+    }
+  }
+  return result;
+};
+
+/**
+ * Returns a copy of the data where the values at the JSON paths are replaced by the mask.
+ * The root path (`$`) is ignored, so the result has the shape of the data.
+ */
+export const maskPaths = <T>(data: T, paths: string[], mask: string): T =>
+  paths.reduce<unknown>((acc, item) => {
+    const segments = parseJsonPath(item);
+    return segments.length ? maskPath(acc, segments, mask) : acc;
+  }, data) as T;
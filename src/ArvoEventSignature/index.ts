@@ -0,0 +1,188 @@
+import { KeyObject, createHmac, sign, timingSafeEqual, verify } from 'node:crypto';
+import ArvoEvent from '../ArvoEvent';
+import type { ArvoEventData, CloudEventExtension } from '../ArvoEvent/types';
+import type {
+  ArvoEventSignatureAlgorithm,
+  ArvoEventSignatureExtension,
+  ArvoEventSignatureVerificationResult,
+  ArvoEventSigningKey,
+  ArvoEventVerificationKeyResolver,
+} from './types';
+
+const SIGNATURE_ALGORITHMS: ArvoEventSignatureAlgorithm[] = ['hmac-sha256', 'ed25519'];
+
+/**
+ * Serialises a JSON value with the object keys sorted at every level
+ */
+const canonicalStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalStringify).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+};
+
+const computeHmac = (payload: string, secret: string | Uint8Array) => {
+  // An asymmetric key must never be used as a shared secret, e.g. a public key known to anyone
+  if ((secret as unknown) instanceof KeyObject || (typeof secret === 'string' && secret.includes('-----BEGIN'))) {
+    throw new Error('An asymmetric key cannot be used as the HMAC secret');
+  }
+  return createHmac('sha256', secret).update(payload).digest();
+};
+
+/**
+ * A utility class to sign ArvoEvents and to verify their signatures, so that the receiver
+ * of an event which crossed a trust boundary can prove it was produced by a trusted producer.
+ *
+ * The signature is computed over a canonical representation of the event, which covers all
+ * of its context attributes, extensions (including the signature key id and algorithm) and
+ * data, and is attached to the event as CloudEvent extensions (see {@link ArvoEventSignatureExtension}).
+ * Since the extensions are regular CloudEvent attributes, the signed event can be carried by
+ * any transport (e.g. {@link ArvoEventHttp} or {@link ArvoEventKafka}) as long as the extension
+ * values are preserved.
+ *
+ * @remarks
+ * The binary-mode transports carry the custom extensions as strings, so the custom extensions
+ * of a signed event should be strings to keep the signature verifiable on receipt.
+ */
+// biome-ignore lint/complexity/noStaticOnlyClass: This needs to be a static class to group methods together
+export default class ArvoEventSignature {
+  /**
+   * Computes the canonical representation of an ArvoEvent, which is the signed payload.
+   * It is the JSON of the event context attributes, extensions and data with the keys sorted
+   * at every level, excluding the `signature` extension itself.
+   *
+   * @param event - The event to canonicalise
+   * @returns The canonical representation of the event
+   */
+  static canonicalize(event: ArvoEvent): string {
+    const { signature, ...rest } = JSON.parse(JSON.stringify(event.toJSON())) as Record<string, unknown>;
+    return canonicalStringify(rest);
+  }
+
+  /**
+   * Signs an ArvoEvent. Any existing signature of the event is replaced.
+   *
+   * @param event - The event to sign
+   * @param key - The signing key. See {@link ArvoEventSigningKey}
+   * @returns A new event, identical to the provided one, with the signature extensions
+   *
+   * @throws {Error} If the key algorithm is not supported or the signing fails
+   *
+   * @example
+   * ```typescript
+   * const signed = ArvoEventSignature.sign(event, {
+   *   algorithm: 'ed25519',
+   *   keyId: 'producer-2024',
+   *   privateKey: process.env.PRODUCER_PRIVATE_KEY,
+   * });
+   * ```
+   */
+  static sign<
+    TData extends ArvoEventData = ArvoEventData,
+    TExtension extends CloudEventExtension = CloudEventExtension,
+    TType extends string = string,
+  >(
+    event: ArvoEvent<TData, TExtension, TType>,
+    key: ArvoEventSigningKey,
+  ): ArvoEvent<TData, TExtension & ArvoEventSignatureExtension, TType> {
+    if (!SIGNATURE_ALGORITHMS.includes(key.algorithm)) {
+      throw new Error(`Unsupported ArvoEvent signature algorithm '${(key as { algorithm: string }).algorithm}'`);
+    }
+    const { signature, ...json } = event.toJSON() as Record<string, unknown>;
+    const unsigned = ArvoEvent.fromJSON(
+      {
+        ...json,
+        signaturekeyid: key.keyId,
+        signaturealgorithm: key.algorithm,
+      },
+      { sensitiveDataPaths: event.sensitiveDataPaths },
+    );
+    const payload = Buffer.from(ArvoEventSignature.canonicalize(unsigned));
+    const value =
+      key.algorithm === 'hmac-sha256'
+        ? computeHmac(payload.toString(), key.secret)
+        : sign(null, payload, key.privateKey);
+    return ArvoEvent.fromJSON<TData, TExtension & ArvoEventSignatureExtension, TType>(
+      {
+        ...unsigned.toJSON(),
+        signature: value.toString('base64url'),
+      },
+      { sensitiveDataPaths: event.sensitiveDataPaths },
+    );
+  }
+
+  /**
+   * Checks if an ArvoEvent carries the signature extensions. It does not verify the signature.
+   *
+   * @param event - The event to check
+   * @returns True if the event has the signature extensions, false otherwise
+   */
+  static isSigned(event: ArvoEvent): event is ArvoEvent<ArvoEventData, ArvoEventSignatureExtension> {
+    const { signature, signaturekeyid, signaturealgorithm } = event.extensions as Record<string, unknown>;
+    return (
+      typeof signature === 'string' && typeof signaturekeyid === 'string' && typeof signaturealgorithm === 'string'
+    );
+  }
+
+  /**
+   * Verifies the signature of an ArvoEvent without throwing.
+   *
+   * @param event - The received event
+   * @param resolveKey - Resolves the verification key, bound to its algorithm, from the key id of the event.
+   * See {@link ArvoEventVerificationKeyResolver}
+   * @returns A result object which either contains the key id and algorithm of the valid
+   * signature or the reason why the event is not verified
+   *
+   * @example
+   * ```typescript
+   * const result = ArvoEventSignature.verify(event, (keyId) =>
+   *   trustedPublicKeys[keyId] ? { algorithm: 'ed25519', publicKey: trustedPublicKeys[keyId] } : null,
+   * );
+   * if (!result.success) {
+   *   throw result.error;
+   * }
+   * ```
+   */
+  static verify(event: ArvoEvent, resolveKey: ArvoEventVerificationKeyResolver): ArvoEventSignatureVerificationResult {
+    const failure = (message: string): ArvoEventSignatureVerificationResult => ({
+      success: false,
+      error: new Error(`ArvoEvent signature verification failed (id=${event.id}, type=${event.type}) -> ${message}`),
+    });
+    if (!ArvoEventSignature.isSigned(event)) {
+      return failure('The event is not signed');
+    }
+    const { signature, signaturekeyid: keyId, signaturealgorithm: algorithm } = event.extensions;
+    if (!SIGNATURE_ALGORITHMS.includes(algorithm)) {
+      return failure(`Unsupported signature algorithm '${algorithm}'`);
+    }
+    try {
+      const key = resolveKey(keyId);
+      if (!key) {
+        return failure(`Unknown or untrusted signing key (keyId=${keyId}, algorithm=${algorithm})`);
+      }
+      if (key.algorithm !== algorithm) {
+        return failure(
+          `The signature algorithm '${algorithm}' does not match the algorithm '${key.algorithm}' of the key (keyId=${keyId})`,
+        );
+      }
+      const payload = Buffer.from(ArvoEventSignature.canonicalize(event));
+      const actual = Buffer.from(signature, 'base64url');
+      let valid: boolean;
+      if (key.algorithm === 'hmac-sha256') {
+        const expected = computeHmac(payload.toString(), key.secret);
+        valid = expected.length === actual.length && timingSafeEqual(expected, actual);
+      } else {
+        valid = verify(null, payload, key.publicKey, actual);
+      }
+      return valid ? { success: true, keyId, algorithm } : failure('The signature does not match the event');
+    } catch (e) {
+      return failure((e as Error).message);
+    }
+  }
+}
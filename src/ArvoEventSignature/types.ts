@@ -0,0 +1,80 @@
+import type { KeyObject } from 'node:crypto';
+
+/**
+ * The supported ArvoEvent signature algorithms
+ * - `hmac-sha256`: A symmetric HMAC-SHA256 signature with a shared secret
+ * - `ed25519`: An asymmetric Ed25519 signature with a private key, verifiable with its public key
+ */
+export type ArvoEventSignatureAlgorithm = 'hmac-sha256' | 'ed25519';
+
+/**
+ * The key used to sign an ArvoEvent. The key id is attached to the event so that
+ * the receiver can resolve the matching verification key, e.g. during a key rotation.
+ */
+export type ArvoEventSigningKey =
+  | {
+      algorithm: 'hmac-sha256';
+      /** The id of the key, attached to the event as the `signaturekeyid` extension */
+      keyId: string;
+      /** The shared HMAC secret */
+      secret: string | Uint8Array;
+    }
+  | {
+      algorithm: 'ed25519';
+      /** The id of the key, attached to the event as the `signaturekeyid` extension */
+      keyId: string;
+      /** The Ed25519 private key, either as a KeyObject or a PEM string */
+      privateKey: KeyObject | string;
+    };
+
+/**
+ * The key used to verify an ArvoEvent signature. The key is bound to a single algorithm, so
+ * the event cannot choose another algorithm to be verified with the same key material.
+ */
+export type ArvoEventVerificationKey =
+  | {
+      algorithm: 'hmac-sha256';
+      /** The shared HMAC secret. An asymmetric key (e.g. a PEM string) is refused */
+      secret: string | Uint8Array;
+    }
+  | {
+      algorithm: 'ed25519';
+      /** The Ed25519 public key, either as a KeyObject or a PEM string */
+      publicKey: KeyObject | string;
+    };
+
+/**
+ * Resolves the key to verify an ArvoEvent signature from the key id of the event, or
+ * returns null if the key is unknown or not trusted. The event is rejected when its
+ * signature algorithm differs from the algorithm of the resolved key.
+ */
+export type ArvoEventVerificationKeyResolver = (keyId: string) => ArvoEventVerificationKey | null;
+
+/**
+ * The CloudEvent extensions carrying the signature of a signed ArvoEvent
+ */
+export type ArvoEventSignatureExtension = {
+  /** The base64url encoded signature of the canonical representation of the event */
+  signature: string;
+  /** The id of the key which signed the event */
+  signaturekeyid: string;
+  /** The algorithm of the signature */
+  signaturealgorithm: ArvoEventSignatureAlgorithm;
+};
+
+/**
+ * The result of an ArvoEvent signature verification
+ */
+export type ArvoEventSignatureVerificationResult =
+  | {
+      success: true;
+      /** The id of the key which signed the event */
+      keyId: string;
+      /** The algorithm of the signature */
+      algorithm: ArvoEventSignatureAlgorithm;
+    }
+  | {
+      success: false;
+      /** The reason of the verification failure */
+      error: Error;
+    };
@@ -0,0 +1,172 @@
+import pako from 'pako';
+import type { ArvoOrchestrationSubjectCodec, ArvoOrchestrationSubjectEncoding } from './type';
+
+/**
+ * The version of the orchestration subject envelope i.e. `v{version}.{codec}.{payload}`.
+ * The subjects in the legacy `deflate-base64` encoding have no envelope.
+ */
+export const ArvoOrchestrationSubjectEnvelopeVersion = 1;
+
+/**
+ * The encoding of the subjects which have no envelope. The standard base64 alphabet
+ * has no `.`, so these subjects can never be mistaken for an envelope.
+ */
+export const LegacyArvoOrchestrationSubjectEncoding = 'deflate-base64';
+
+const deflate = (json: string) => pako.deflate(new TextEncoder().encode(json));
+const inflate = (data: Uint8Array) => new TextDecoder().decode(pako.inflate(data));
+
+const codecs = new Map<string, ArvoOrchestrationSubjectCodec>();
+
+let defaultEncoding: ArvoOrchestrationSubjectEncoding = LegacyArvoOrchestrationSubjectEncoding;
+
+export const registerCodec = (codec: ArvoOrchestrationSubjectCodec) => {
+  if (!/^[a-z0-9-]+$/.test(codec.name)) {
+    throw new Error(`Invalid orchestration subject codec name '${codec.name}'. It must match /^[a-z0-9-]+$/`);
+  }
+  codecs.set(codec.name, codec);
+};
+
+export const getCodec = (encoding: ArvoOrchestrationSubjectEncoding): ArvoOrchestrationSubjectCodec => {
+  const codec = codecs.get(encoding);
+  if (!codec) {
+    throw new Error(`Unknown orchestration subject encoding '${encoding}'`);
+  }
+  return codec;
+};
+
+export const getDefaultEncoding = () => defaultEncoding;
+
+export const setDefaultEncoding = (encoding: ArvoOrchestrationSubjectEncoding) => {
+  getCodec(encoding);
+  defaultEncoding = encoding;
+};
+
+registerCodec({
+  name: LegacyArvoOrchestrationSubjectEncoding,
+  encode: (json) => Buffer.from(deflate(json)).toString('base64'),
+  decode: (payload) => inflate(Buffer.from(payload, 'base64')),
+});
+
+registerCodec({
+  name: 'deflate-base64url',
+  encode: (json) => Buffer.from(deflate(json)).toString('base64url'),
+  decode: (payload) => inflate(Buffer.from(payload, 'base64url')),
+});
+
+/**
+ * The characters of the JSON which are kept as is by the readable JSON notation. They are
+ * left unchanged by `encodeURI`, so the subject is not escaped again by `createArvoEvent`.
+ */
+const READABLE_JSON_SAFE = /^[A-Za-z0-9;,/?:@&=+$\-_.*]$/;
+
+const READABLE_JSON_ENCODE: Record<string, string> = {
+  '{': '(',
+  '}': ')',
+  '"': "'",
+  '[': '!(',
+  ']': '!)',
+  '!': '!!',
+  "'": "!'",
+  '(': '!o',
+  ')': '!c',
+};
+
+const READABLE_JSON_DECODE: Record<string, string> = {
+  '(': '{',
+  ')': '}',
+  "'": '"',
+};
+
+const READABLE_JSON_ESCAPES: Record<string, string> = {
+  '(': '[',
+  ')': ']',
+  '!': '!',
+  "'": "'",
+  o: '(',
+  c: ')',
+};
+
+/**
+ * Converts the JSON into a readable notation without any character which `encodeURI` escapes,
+ * e.g. `{"name":"com.test","tags":["a b"]}` becomes `('name':'com.test','tags':!('a!u0020b'!))`.
+ * The braces become parentheses, the double quotes become single quotes, the brackets
+ * become `!(` and `!)`, and the other characters are escaped with a `!`.
+ */
+const toReadableJson = (json: string): string => {
+  let result = '';
+  for (const char of json.split('')) {
+    if (char in READABLE_JSON_ENCODE) {
+      result += READABLE_JSON_ENCODE[char];
+    } else if (READABLE_JSON_SAFE.test(char)) {
+      result += char;
+    } else {
+      result += `!u${`000${char.charCodeAt(0).toString(16)}`.slice(-4)}`;
+    }
+  }
+  return result;
+};
+
+/**
+ * Converts the readable notation created by {@link toReadableJson} back into the JSON
+ */
+const fromReadableJson = (payload: string): string => {
+  let result = '';
+  let index = 0;
+  while (index < payload.length) {
+    const char = payload[index];
+    if (char !== '!') {
+      result += READABLE_JSON_DECODE[char] ?? char;
+      index += 1;
+      continue;
+    }
+    const code = payload[index + 1];
+    if (code === 'u' && /^[0-9a-f]{4}$/.test(payload.slice(index + 2, index + 6))) {
+      result += String.fromCharCode(Number.parseInt(payload.slice(index + 2, index + 6), 16));
+      index += 6;
+    } else if (code !== undefined && code in READABLE_JSON_ESCAPES) {
+      result += READABLE_JSON_ESCAPES[code];
+      index += 2;
+    } else {
+      throw new Error(`Invalid escape sequence '!${code ?? ''}' in the readable JSON subject`);
+    }
+  }
+  return result;
+};
+
+registerCodec({
+  name: 'json',
+  encode: toReadableJson,
+  decode: fromReadableJson,
+});
+
+/**
+ * Encodes the JSON string of a subject content. The legacy encoding is emitted
+ * without an envelope, so that the subject stays readable by the older versions.
+ */
+export const encodeSubject = (json: string, encoding: ArvoOrchestrationSubjectEncoding): string => {
+  const payload = getCodec(encoding).encode(json);
+  if (encoding === LegacyArvoOrchestrationSubjectEncoding) return payload;
+  return `v${ArvoOrchestrationSubjectEnvelopeVersion}.${encoding}.${payload}`;
+};
+
+/**
+ * Detects the encoding of a subject string and decodes it into the JSON string of its content
+ */
+export const decodeSubject = (subject: string): { encoding: ArvoOrchestrationSubjectEncoding; json: string } => {
+  const envelope = /^v(\d+)\.([a-z0-9-]+)\./.exec(subject);
+  if (!envelope) {
+    return {
+      encoding: LegacyArvoOrchestrationSubjectEncoding,
+      json: getCodec(LegacyArvoOrchestrationSubjectEncoding).decode(subject),
+    };
+  }
+  const [prefix, version, encoding] = envelope;
+  if (Number(version) !== ArvoOrchestrationSubjectEnvelopeVersion) {
+    throw new Error(`Unsupported orchestration subject envelope version 'v${version}'`);
+  }
+  return {
+    encoding,
+    json: getCodec(encoding).decode(subject.slice(prefix.length)),
+  };
+};
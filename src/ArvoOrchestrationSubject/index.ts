@@ -1,16 +1,31 @@
-import pako from 'pako';
-import { v4 as uuid4 } from 'uuid';
 import { WildCardArvoSemanticVersion } from '../ArvoContract/WildCardArvoSemanticVersion';
+import { getArvoProviders } from '../ArvoProviders';
+import type { ArvoIdGenerator } from '../ArvoProviders/types';
 import type { ArvoSemanticVersion } from '../types';
 import { cleanString } from '../utils';
+import { decodeSubject, encodeSubject, getDefaultEncoding, registerCodec, setDefaultEncoding } from './codecs';
 import { ArvoOrchestrationSubjectContentSchema } from './schema';
-import type { ArvoOrchestrationSubjectContent } from './type';
+import { setKeyProvider, signSubject, splitSubject, verifySubject } from './signature';
+import type {
+  ArvoOrchestrationSubjectCodec,
+  ArvoOrchestrationSubjectContent,
+  ArvoOrchestrationSubjectEncoding,
+  ArvoOrchestrationSubjectKeyProvider,
+  ArvoOrchestrationSubjectLineageEntry,
+  ArvoOrchestrationSubjectSigningOptions,
+} from './type';
 
 /**
  * Handles the creation and parsing of Arvo orchestration subjects.
  */
 // biome-ignore lint/complexity/noStaticOnlyClass: This needs to be a static class to group methods together
 export default class ArvoOrchestrationSubject {
+  /**
+   * The default maximum nesting depth of an orchestration subject created via {@link from}.
+   * It guards against runaway recursive orchestrations.
+   */
+  static readonly DEFAULT_MAX_DEPTH = 32;
+
   /**
    * Creates a new Arvo orchestration subject with basic required parameters.
    * This is a convenience method that wraps the more detailed {@link create} method.
@@ -20,7 +35,10 @@ export default class ArvoOrchestrationSubject {
    * @param param.version - Version of the orchestrator. If null, defaults to {@link WildCardArvoSemanticVersion}
    * @param param.initiator - Identifier of the entity initiating the orchestration
    * @param param.meta - Optional metadata key-value pairs for additional orchestration context
-   * @returns A base64 encoded string containing the compressed orchestration subject data
+   * @param param.encoding - Optional encoding of the subject. Defaults to the default encoding (see {@link setDefaultEncoding})
+   * @param param.keyProvider - Optional key provider to sign the subject. Defaults to the key provider set via {@link setKeyProvider}
+   * @param param.idGenerator - Optional generator of the execution id. Defaults to the global id generator (see `setArvoProviders`)
+   * @returns The encoded orchestration subject string
    * @throws Error if the provided parameters result in invalid subject content
    *
    * @example
@@ -49,19 +67,25 @@ export default class ArvoOrchestrationSubject {
     initiator: string;
     domain?: string | null;
     meta?: Record<string, string>;
+    encoding?: ArvoOrchestrationSubjectEncoding;
+    keyProvider?: ArvoOrchestrationSubjectKeyProvider | null;
+    idGenerator?: ArvoIdGenerator;
   }): string {
-    return ArvoOrchestrationSubject.create({
-      orchestrator: {
-        name: param.orchestator,
-        version: param.version ?? WildCardArvoSemanticVersion,
-      },
-      execution: {
-        id: uuid4(),
-        initiator: param.initiator,
-        domain: param.domain ?? null,
+    return ArvoOrchestrationSubject.create(
+      {
+        orchestrator: {
+          name: param.orchestator,
+          version: param.version ?? WildCardArvoSemanticVersion,
+        },
+        execution: {
+          id: getArvoProviders({ idGenerator: param.idGenerator }).idGenerator.next(),
+          initiator: param.initiator,
+          domain: param.domain ?? null,
+        },
+        meta: param.meta ?? {},
       },
-      meta: param.meta ?? {},
-    });
+      { encoding: param.encoding, keyProvider: param.keyProvider },
+    );
   }
 
   /**
@@ -70,13 +94,22 @@ export default class ArvoOrchestrationSubject {
    * and creates a new subject with updated orchestrator information while maintaining
    * the relationship to the parent context.
    *
+   * The parent execution is appended to the lineage of the parent subject, so the new
+   * subject carries its full ancestry (see {@link getAncestry} and {@link getRootExecution}).
+   *
    * @param param - Configuration object for creating a new subject from a parent
    * @param param.orchestator - Name identifier of the new orchestrator
    * @param param.version - Version of the new orchestrator. If null, defaults to {@link WildCardArvoSemanticVersion}
-   * @param param.subject - Base64 encoded string of the parent orchestration subject
+   * @param param.subject - The parent orchestration subject string
    * @param param.meta - Optional additional metadata to merge with the parent's metadata
-   * @returns A new base64 encoded string containing the compressed orchestration subject data
-   * @throws Error if the parent subject is invalid or if the new parameters result in invalid subject content
+   * @param param.maxDepth - Optional maximum nesting depth of the new subject. Defaults to {@link DEFAULT_MAX_DEPTH}
+   * @param param.encoding - Optional encoding of the new subject. Defaults to the default encoding (see {@link setDefaultEncoding})
+   * @param param.keyProvider - Optional key provider to verify the parent subject and sign the new subject.
+   * Defaults to the key provider set via {@link setKeyProvider}
+   * @param param.idGenerator - Optional generator of the execution id. Defaults to the global id generator (see `setArvoProviders`)
+   * @returns The new encoded orchestration subject string
+   * @throws Error if the parent subject is invalid or forged, if the maximum depth is exceeded or if
+   * the new parameters result in invalid subject content
    *
    * @example
    * ```typescript
@@ -103,27 +136,99 @@ export default class ArvoOrchestrationSubject {
     subject: string;
     domain?: string | null;
     meta?: Record<string, string>;
+    maxDepth?: number;
+    encoding?: ArvoOrchestrationSubjectEncoding;
+    keyProvider?: ArvoOrchestrationSubjectKeyProvider | null;
+    idGenerator?: ArvoIdGenerator;
   }): string {
-    const parsedSubject = ArvoOrchestrationSubject.parse(param.subject);
-    return ArvoOrchestrationSubject.new({
-      initiator: parsedSubject.orchestrator.name,
-      version: param.version ?? WildCardArvoSemanticVersion,
-      orchestator: param.orchestator,
-      domain: param.domain ?? parsedSubject.execution.domain ?? null,
-      meta: {
-        ...(parsedSubject.meta ?? {}),
-        ...(param.meta ?? {}),
+    const parsedSubject = ArvoOrchestrationSubject.parse(param.subject, { keyProvider: param.keyProvider });
+    const maxDepth = param.maxDepth ?? ArvoOrchestrationSubject.DEFAULT_MAX_DEPTH;
+    const lineage = ArvoOrchestrationSubject.toAncestry(parsedSubject);
+    if (lineage.length > maxDepth) {
+      throw new Error(
+        cleanString(`
+        Unable to create the orchestration subject for '${param.orchestator}' as its depth
+        (${lineage.length}) exceeds the maximum depth (${maxDepth}). The orchestration may be
+        recursing without end. Root execution -> ${lineage[0].orchestrator} (id=${lineage[0].executionId})
+      `),
+      );
+    }
+    return ArvoOrchestrationSubject.create(
+      {
+        orchestrator: {
+          name: param.orchestator,
+          version: param.version ?? WildCardArvoSemanticVersion,
+        },
+        execution: {
+          id: getArvoProviders({ idGenerator: param.idGenerator }).idGenerator.next(),
+          initiator: parsedSubject.orchestrator.name,
+          domain: param.domain ?? parsedSubject.execution.domain ?? null,
+        },
+        meta: {
+          ...(parsedSubject.meta ?? {}),
+          ...(param.meta ?? {}),
+        },
+        lineage,
       },
-    });
+      { encoding: param.encoding, keyProvider: param.keyProvider },
+    );
+  }
+
+  /**
+   * Returns the full ancestry of an orchestration subject, ordered from the root
+   * execution to the execution of the subject itself (which is the last entry).
+   *
+   * @param subject - The orchestration subject string
+   * @returns The ancestry of the subject. It has a single entry for a root subject
+   * @throws Error if the subject is invalid
+   *
+   * @example
+   * ```typescript
+   * const ancestry = ArvoOrchestrationSubject.getAncestry(childSubject);
+   * console.log(ancestry.map((item) => item.orchestrator)); // ['parentProcess', 'childProcess']
+   * ```
+   */
+  static getAncestry(subject: string): ArvoOrchestrationSubjectLineageEntry[] {
+    return ArvoOrchestrationSubject.toAncestry(ArvoOrchestrationSubject.parse(subject));
+  }
+
+  /**
+   * Returns the root execution of an orchestration subject i.e. the execution
+   * which started the chain of nested orchestrations. For a root subject, this
+   * is the execution of the subject itself.
+   *
+   * @param subject - The orchestration subject string
+   * @returns The root execution of the subject
+   * @throws Error if the subject is invalid
+   */
+  static getRootExecution(subject: string): ArvoOrchestrationSubjectLineageEntry {
+    return ArvoOrchestrationSubject.getAncestry(subject)[0];
+  }
+
+  /**
+   * Returns the nesting depth of an orchestration subject i.e. the number of its
+   * ancestor executions. A root subject has a depth of 0.
+   *
+   * @param subject - The orchestration subject string
+   * @returns The depth of the subject
+   * @throws Error if the subject is invalid
+   */
+  static getDepth(subject: string): number {
+    return ArvoOrchestrationSubject.parse(subject).lineage?.length ?? 0;
   }
 
   /**
    * Creates an Arvo orchestration subject from detailed content parameters.
-   * The content is validated, compressed using zlib, and encoded in base64 format.
+   * The content is validated and encoded with the selected encoding. By default, it is
+   * compressed using zlib and encoded in base64 format (see {@link ArvoOrchestrationSubjectEncoding}).
    *
    * @param param - Detailed orchestration subject content following the {@link ArvoOrchestrationSubjectContent} structure
-   * @returns A base64 encoded string containing the compressed orchestration subject data
-   * @throws Error if validation fails or compression encounters an error
+   * @param [options] - Optional creation options
+   * @param [options.encoding] - The encoding of the subject. Defaults to the default encoding (see {@link setDefaultEncoding})
+   * @param [options.keyProvider] - The key provider to sign the subject with, in which case the HMAC-SHA256
+   * signature and the key id are appended to the subject. Defaults to the key provider set via {@link setKeyProvider}
+   * @returns The encoded orchestration subject string
+   * @throws Error if validation fails, the encoding is unknown or the encoding or signing encounters an error
    *
    * @example
    * ```typescript
@@ -139,15 +244,19 @@ export default class ArvoOrchestrationSubject {
    * });
    * ```
    */
-  static create(param: ArvoOrchestrationSubjectContent): string {
+  static create(
+    param: ArvoOrchestrationSubjectContent,
+    options?: { encoding?: ArvoOrchestrationSubjectEncoding } & Pick<
+      ArvoOrchestrationSubjectSigningOptions,
+      'keyProvider'
+    >,
+  ): string {
     try {
       const validationResult = ArvoOrchestrationSubjectContentSchema.safeParse(param);
       if (!validationResult.success) {
         throw new Error(`Invalid ArvoOrchestrationContextType: ${validationResult.error}`);
       }
-      const jsonString = JSON.stringify(param);
-      const compressed = pako.deflate(new TextEncoder().encode(jsonString));
-      return Buffer.from(compressed).toString('base64');
+      return signSubject(encodeSubject(JSON.stringify(param), options?.encoding ?? getDefaultEncoding()), options);
     } catch (e) {
       throw new Error(
         cleanString(`
@@ -160,12 +269,19 @@ export default class ArvoOrchestrationSubject {
   }
 
   /**
-   * Parses a base64 encoded orchestration subject string back into its structured content form.
-   * Performs decompression, JSON parsing, and validation of the subject content.
+   * Parses an orchestration subject string back into its structured content form.
+   * The encoding of the subject is detected from its envelope, where the subjects without
+   * an envelope are in the original `deflate-base64` encoding. Performs decoding, JSON parsing,
+   * and validation of the subject content.
    *
-   * @param subject - Base64 encoded string representing the compressed orchestration subject
+   * When there is a key provider, the subject signature is verified before decoding, so that
+   * the forged or tampered subjects are rejected. Without a key provider, the signature of a
+   * signed subject is ignored.
+   *
+   * @param subject - The encoded orchestration subject string
+   * @param [options] - The signature verification options. See {@link ArvoOrchestrationSubjectSigningOptions}
    * @returns The decoded and validated {@link ArvoOrchestrationSubjectContent}
-   * @throws Error if decompression, parsing, or validation fails
+   * @throws Error if the signature verification, decoding, parsing, or validation fails
    *
    * @example
    * ```typescript
@@ -174,12 +290,9 @@ export default class ArvoOrchestrationSubject {
    * console.log(content.execution.id);
    * ```
    */
-  static parse(subject: string): ArvoOrchestrationSubjectContent {
+  static parse(subject: string, options?: ArvoOrchestrationSubjectSigningOptions): ArvoOrchestrationSubjectContent {
     try {
-      const compressed = Buffer.from(subject, 'base64');
-      const decompressed = pako.inflate(compressed);
-      const jsonString = new TextDecoder().decode(decompressed);
-      const parsed = JSON.parse(jsonString);
+      const parsed = JSON.parse(decodeSubject(verifySubject(subject, options)).json);
       const validationResult = ArvoOrchestrationSubjectContentSchema.safeParse(parsed);
       if (!validationResult.success) {
         throw new Error(`Invalid ArvoOrchestrationContextType: ${validationResult.error}`);
@@ -196,13 +309,85 @@ export default class ArvoOrchestrationSubject {
     }
   }
 
+  private static toAncestry(content: ArvoOrchestrationSubjectContent): ArvoOrchestrationSubjectLineageEntry[] {
+    return [
+      ...(content.lineage ?? []),
+      {
+        executionId: content.execution.id,
+        orchestrator: content.orchestrator.name,
+        version: content.orchestrator.version,
+      },
+    ];
+  }
+
+  /**
+   * Detects the encoding of an orchestration subject string, without validating its content.
+   *
+   * @param subject - The encoded orchestration subject string
+   * @returns The encoding of the subject
+   * @throws Error if the subject cannot be decoded
+   */
+  static getEncoding(subject: string): ArvoOrchestrationSubjectEncoding {
+    return decodeSubject(splitSubject(subject).subject).encoding;
+  }
+
+  /**
+   * Registers a custom codec, which can then be selected as a subject encoding by its name.
+   * Registering a codec with the name of an existing one replaces it.
+   *
+   * @param codec - The codec to register
+   * @throws Error if the codec name is invalid
+   */
+  static registerCodec(codec: ArvoOrchestrationSubjectCodec): void {
+    registerCodec(codec);
+  }
+
+  /**
+   * Sets the encoding used when no encoding is provided while creating a subject,
+   * including the subjects created by the event factories. Defaults to `deflate-base64`.
+   *
+   * @param encoding - The default encoding
+   * @throws Error if the encoding is unknown
+   */
+  static setDefaultEncoding(encoding: ArvoOrchestrationSubjectEncoding): void {
+    setDefaultEncoding(encoding);
+  }
+
+  /**
+   * Sets the key provider used to sign the subjects on creation and to verify them on
+   * parsing, when no key provider is provided explicitly. This includes the subjects
+   * created by the event factories. Set it to null to disable the signing.
+   *
+   * @param keyProvider - The key provider. See {@link createArvoOrchestrationSubjectKeyProvider}
+   * @param [options] - The verification options
+   * @param [options.allowUnsigned] - Whether the unsigned subjects are accepted while parsing,
+   * e.g. during the migration to signed subjects. Defaults to false
+   *
+   * @example
+   * ```typescript
+   * ArvoOrchestrationSubject.setKeyProvider(
+   *   createArvoOrchestrationSubjectKeyProvider({
+   *     keys: { k1: process.env.SUBJECT_KEY_1, k2: process.env.SUBJECT_KEY_2 },
+   *     signingKeyId: 'k2',
+   *   }),
+   * );
+   * ```
+   */
+  static setKeyProvider(
+    keyProvider: ArvoOrchestrationSubjectKeyProvider | null,
+    options?: { allowUnsigned?: boolean },
+  ): void {
+    setKeyProvider(keyProvider, options);
+  }
+
   /**
    * Validates if a string represents a valid Arvo orchestration subject.
    * A valid subject must:
-   * - Be base64 encoded
-   * - Contain zlib-compressed JSON data
+   * - Be decodable in one of the registered encodings
+   * - Contain JSON data
    * - Match the ArvoOrchestrationSubjectContent schema when decoded
    * - Include valid orchestrator and execution details
+   * - Have a valid signature, if there is a key provider (see {@link setKeyProvider})
    *
    * Use this method for validating subjects before processing them in
    * orchestration workflows or when receiving subjects from external sources.
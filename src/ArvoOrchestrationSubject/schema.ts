@@ -45,5 +45,15 @@ export const ArvoOrchestrationSubjectContentSchema = z
         Use selectively to maintain clarity and avoid storing unnecessary information.  
       `),
     ),
+    lineage: z
+      .array(
+        z.object({
+          executionId: z.string().min(1, 'Execution ID must be a non-empty string'),
+          orchestrator: z.string().min(1, 'Orchestrator must be a non-empty string'),
+          version: ArvoSemanticVersionSchema,
+        }),
+      )
+      .optional()
+      .describe('The ancestor executions of a nested orchestration, from the root to the direct parent'),
   })
   .describe('Context information for Arvo orchestration');
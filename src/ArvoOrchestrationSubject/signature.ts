@@ -0,0 +1,114 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { ArvoOrchestrationSubjectKeyProvider, ArvoOrchestrationSubjectSigningOptions } from './type';
+
+const KeyIdPattern = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Matches the signature suffix `~{keyId}~{signature}` of a signed subject. None of the
+ * subject encodings end with such a suffix, so the unsigned subjects never match it.
+ */
+const SignaturePattern = /^([\s\S]+)~([A-Za-z0-9_-]+)~([A-Za-z0-9_-]+)$/;
+
+let defaultKeyProvider: ArvoOrchestrationSubjectKeyProvider | null = null;
+let defaultAllowUnsigned = false;
+
+export const setKeyProvider = (
+  keyProvider: ArvoOrchestrationSubjectKeyProvider | null,
+  options?: { allowUnsigned?: boolean },
+) => {
+  defaultKeyProvider = keyProvider;
+  defaultAllowUnsigned = options?.allowUnsigned ?? false;
+};
+
+const computeSignature = (subject: string, secret: string | Uint8Array) =>
+  createHmac('sha256', secret).update(subject).digest('base64url');
+
+/**
+ * Appends the HMAC-SHA256 signature of the encoded subject, along with the signing
+ * key id, to the subject. The subject is returned as is if there is no key provider.
+ */
+export const signSubject = (subject: string, options?: ArvoOrchestrationSubjectSigningOptions): string => {
+  const keyProvider = options?.keyProvider === undefined ? defaultKeyProvider : options.keyProvider;
+  if (!keyProvider) return subject;
+  const { keyId, secret } = keyProvider.getSigningKey();
+  if (!KeyIdPattern.test(keyId)) {
+    throw new Error(`Invalid orchestration subject signing key id '${keyId}'. It must match /^[A-Za-z0-9_-]+$/`);
+  }
+  return `${subject}~${keyId}~${computeSignature(subject, secret)}`;
+};
+
+/**
+ * Splits a subject into its encoded content and its signature (if any)
+ */
+export const splitSubject = (subject: string): { subject: string; keyId: string | null; signature: string | null } => {
+  const match = SignaturePattern.exec(subject);
+  if (!match) return { subject, keyId: null, signature: null };
+  return { subject: match[1], keyId: match[2], signature: match[3] };
+};
+
+/**
+ * Verifies the signature of a subject, if there is a key provider, and returns
+ * the encoded subject content without the signature.
+ */
+export const verifySubject = (subject: string, options?: ArvoOrchestrationSubjectSigningOptions): string => {
+  const keyProvider = options?.keyProvider === undefined ? defaultKeyProvider : options.keyProvider;
+  const signed = splitSubject(subject);
+  if (!keyProvider) return signed.subject;
+  if (!signed.keyId || !signed.signature) {
+    if (options?.allowUnsigned ?? defaultAllowUnsigned) return signed.subject;
+    throw new Error('The orchestration subject is not signed');
+  }
+  const secret = keyProvider.getVerificationKey(signed.keyId);
+  if (!secret) {
+    throw new Error(`Unknown or revoked orchestration subject signing key (keyId=${signed.keyId})`);
+  }
+  const expected = Buffer.from(computeSignature(signed.subject, secret));
+  const actual = Buffer.from(signed.signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error(
+      `Invalid orchestration subject signature (keyId=${signed.keyId}). The subject may have been tampered with`,
+    );
+  }
+  return signed.subject;
+};
+
+/**
+ * Creates a key provider from a static set of HMAC keys. To rotate the signing key, add
+ * the new key and make it the signing key, while keeping the previous keys until the
+ * subjects signed with them have expired.
+ *
+ * @param param - The key provider configuration
+ * @param param.keys - The HMAC secrets by their key id
+ * @param param.signingKeyId - The id of the key used to sign the new subjects
+ * @returns The key provider
+ *
+ * @throws {Error} If a key id is invalid or the signing key is not one of the keys
+ *
+ * @example
+ * ```typescript
+ * ArvoOrchestrationSubject.setKeyProvider(
+ *   createArvoOrchestrationSubjectKeyProvider({
+ *     keys: { '2024-01': process.env.SUBJECT_KEY_2024_01, '2024-06': process.env.SUBJECT_KEY_2024_06 },
+ *     signingKeyId: '2024-06',
+ *   }),
+ * );
+ * ```
+ */
+export const createArvoOrchestrationSubjectKeyProvider = (param: {
+  keys: Record<string, string | Uint8Array>;
+  signingKeyId: string;
+}): ArvoOrchestrationSubjectKeyProvider => {
+  for (const keyId of Object.keys(param.keys)) {
+    if (!KeyIdPattern.test(keyId)) {
+      throw new Error(`Invalid orchestration subject signing key id '${keyId}'. It must match /^[A-Za-z0-9_-]+$/`);
+    }
+  }
+  if (!(param.signingKeyId in param.keys)) {
+    throw new Error(`The signing key (keyId=${param.signingKeyId}) is not one of the provided keys`);
+  }
+  const keys = { ...param.keys };
+  return {
+    getSigningKey: () => ({ keyId: param.signingKeyId, secret: keys[param.signingKeyId] }),
+    getVerificationKey: (keyId) => (Object.prototype.hasOwnProperty.call(keys, keyId) ? keys[keyId] : null),
+  };
+};
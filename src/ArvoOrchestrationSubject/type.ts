@@ -1,5 +1,17 @@
 import type { ArvoSemanticVersion } from '../types';
 
+/**
+ * Represents an ancestor execution in the lineage of a nested orchestration subject.
+ */
+export type ArvoOrchestrationSubjectLineageEntry = {
+  /** The execution id of the ancestor orchestration */
+  executionId: string;
+  /** The name of the ancestor orchestrator */
+  orchestrator: string;
+  /** The version of the ancestor orchestrator */
+  version: ArvoSemanticVersion;
+};
+
 /**
  * Represents the content for Arvo orchestration subject.
  * This type provides information about the orchestrator and the current execution.
@@ -63,4 +75,78 @@ export type ArvoOrchestrationSubjectContent = {
    * Use selectively to maintain clarity and avoid storing unnecessary information.
    */
   meta: Record<string, string>;
+
+  /**
+   * The ancestor executions of a nested orchestration, ordered from the root execution
+   * to the direct parent execution. It is maintained by {@link ArvoOrchestrationSubject.from}
+   * and is absent for root subjects and subjects created before the lineage tracking.
+   */
+  lineage?: ArvoOrchestrationSubjectLineageEntry[];
+};
+
+/**
+ * A codec which converts the JSON representation of an orchestration subject content
+ * to and from the payload of the subject string.
+ */
+export type ArvoOrchestrationSubjectCodec = {
+  /**
+   * The codec name, which is recorded in the subject envelope so that the subject can
+   * be decoded without knowing its encoding upfront. It must match `/^[a-z0-9-]+$/`.
+   */
+  name: string;
+
+  /** Encodes the JSON string of the subject content into the subject payload */
+  encode: (json: string) => string;
+
+  /** Decodes the subject payload back into the JSON string of the subject content */
+  decode: (payload: string) => string;
+};
+
+/**
+ * The name of an orchestration subject encoding. The built-in encodings are:
+ * - `deflate-base64`: The zlib compressed JSON in standard base64, without an envelope.
+ *   This is the original subject format and the default encoding.
+ * - `deflate-base64url`: The zlib compressed JSON in URL-safe base64, in a versioned envelope.
+ * - `json`: The uncompressed JSON in a human-readable notation without any URI escapes, in a
+ *   versioned envelope, e.g. `v1.json.('orchestrator':('name':'com.test.orchestrator',...),...)`.
+ *
+ * Custom encodings can be added via {@link ArvoOrchestrationSubject.registerCodec}.
+ */
+export type ArvoOrchestrationSubjectEncoding = 'deflate-base64' | 'deflate-base64url' | 'json' | (string & {});
+
+/**
+ * Provides the HMAC keys to sign and verify the orchestration subjects. The keys are
+ * identified by their id, which is recorded in the signed subject, so that the signing
+ * key can be rotated while the subjects signed with the previous keys remain verifiable.
+ */
+export type ArvoOrchestrationSubjectKeyProvider = {
+  /**
+   * Returns the key used to sign the new subjects. The key id must match `/^[A-Za-z0-9_-]+$/`.
+   */
+  getSigningKey: () => { keyId: string; secret: string | Uint8Array };
+
+  /**
+   * Returns the secret of the key with the given id to verify a subject signature,
+   * or null if the key is unknown or has been revoked.
+   */
+  getVerificationKey: (keyId: string) => string | Uint8Array | null;
+};
+
+/**
+ * The signature options of the orchestration subject creation and parsing.
+ */
+export type ArvoOrchestrationSubjectSigningOptions = {
+  /**
+   * The key provider used to sign and verify the subjects. Defaults to the key provider
+   * set via {@link ArvoOrchestrationSubject.setKeyProvider}. When null, the subjects are
+   * neither signed nor verified.
+   */
+  keyProvider?: ArvoOrchestrationSubjectKeyProvider | null;
+
+  /**
+   * Whether the unsigned subjects are accepted while parsing with a key provider,
+   * e.g. during the migration to signed subjects. Defaults to the value set via
+   * {@link ArvoOrchestrationSubject.setKeyProvider}, which defaults to false.
+   */
+  allowUnsigned?: boolean;
 };
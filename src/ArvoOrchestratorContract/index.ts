@@ -1,5 +1,6 @@
 import type { z } from 'zod';
 import ArvoContract from '../ArvoContract';
+import type { ArvoContractVersionLifecycle } from '../ArvoContract/types';
 import type { ArvoSemanticVersion } from '../types';
 import { OrchestrationInitEventBaseSchema } from './schema';
 import { ArvoOrchestratorEventTypeGen } from './typegen';
@@ -89,6 +90,7 @@ export const createArvoOrchestratorContract = <
     {
       init: z.ZodObject<any, any, any>;
       complete: z.ZodObject<any, any, any>;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   >,
   TMetaData extends Record<string, any>,
@@ -123,6 +125,7 @@ export const createArvoOrchestratorContract = <
           emits: {
             [ArvoOrchestratorEventTypeGen.complete(contract.name)]: versionContract.complete,
           },
+          ...(versionContract.lifecycle ? { lifecycle: versionContract.lifecycle } : {}),
         },
       ]),
     ),
@@ -1,5 +1,6 @@
 import type { z } from 'zod';
 import type ArvoContract from '../ArvoContract';
+import type { ArvoContractVersionLifecycle } from '../ArvoContract/types';
 import type { ArvoSemanticVersion } from '../types';
 import type { OrchestrationInitEventBaseSchema } from './schema';
 import type { ArvoOrchestratorEventTypeGen } from './typegen';
@@ -87,6 +88,7 @@ export type CreateArvoOrchestratorContractParam<
     {
       init: z.ZodTypeAny;
       complete: z.ZodTypeAny;
+      lifecycle?: ArvoContractVersionLifecycle;
     }
   >,
   TMetaData extends Record<string, any>,
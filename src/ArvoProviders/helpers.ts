@@ -0,0 +1,78 @@
+import type { ArvoIdGenerator, ArvoManualClock } from './types';
+import { ArvoSeededRandom } from './utils';
+
+const HEX = '0123456789abcdef';
+
+const toTime = (time: Date | string | number, name: string): number => {
+  const value = new Date(time).getTime();
+  if (Number.isNaN(value)) {
+    throw new Error(`The ${name} (=${String(time)}) is not a valid date`);
+  }
+  return value;
+};
+
+/**
+ * Creates a clock which does not follow the system time. The time only moves forward on
+ * {@link ArvoManualClock.advance}, or on every read by the given step.
+ *
+ * @param [start] - The initial time of the clock. Defaults to the Unix epoch
+ * @param [options] - The clock options
+ * @param [options.step] - The number of milliseconds the clock moves forward after every read. Defaults to 0
+ * @returns The manual clock
+ *
+ * @throws {Error} If the start time is not a valid date
+ *
+ * @example
+ * ```typescript
+ * const clock = createManualArvoClock('2025-01-01T00:00:00Z', { step: 1000 });
+ * clock.now(); // 2025-01-01T00:00:00.000Z
+ * clock.now(); // 2025-01-01T00:00:01.000Z
+ * ```
+ */
+export const createManualArvoClock = (
+  start: Date | string | number = 0,
+  options?: { step?: number },
+): ArvoManualClock => {
+  let time = toTime(start, 'start time');
+  const step = options?.step ?? 0;
+  return {
+    now: () => {
+      const now = new Date(time);
+      time += step;
+      return now;
+    },
+    advance: (milliseconds: number) => {
+      time += milliseconds;
+    },
+    set: (value: Date | string) => {
+      time = toTime(value, 'time');
+    },
+  };
+};
+
+/**
+ * Creates an id generator of UUID v4 shaped ids drawn from a seeded pseudo random
+ * sequence, so that the same seed always produces the same ids.
+ *
+ * @param [seed] - The seed of the sequence. Defaults to 0
+ * @returns The seeded id generator
+ *
+ * @example
+ * ```typescript
+ * const idGenerator = createSeededArvoIdGenerator('replay-42');
+ * const factory = createArvoEventFactory(contract.version('1.0.0'), { idGenerator });
+ * ```
+ */
+export const createSeededArvoIdGenerator = (seed: number | string = 0): ArvoIdGenerator => {
+  const random = new ArvoSeededRandom(seed);
+  return {
+    next: () =>
+      [
+        random.chars(HEX, 8),
+        random.chars(HEX, 4),
+        `4${random.chars(HEX, 3)}`,
+        `${random.pick(['8', '9', 'a', 'b'])}${random.chars(HEX, 3)}`,
+        random.chars(HEX, 12),
+      ].join('-'),
+  };
+};
@@ -0,0 +1,67 @@
+import { v4 as uuid4 } from 'uuid';
+import type { ArvoClock, ArvoIdGenerator, ArvoProviders } from './types';
+
+/**
+ * The clock of the system time
+ */
+export const SystemArvoClock: ArvoClock = {
+  now: () => new Date(),
+};
+
+/**
+ * The id generator of random UUID v4 ids
+ */
+export const RandomArvoIdGenerator: ArvoIdGenerator = {
+  next: () => uuid4(),
+};
+
+let defaultProviders: ArvoProviders = {
+  clock: SystemArvoClock,
+  idGenerator: RandomArvoIdGenerator,
+};
+
+/**
+ * Replaces the global providers used by `createArvoEvent`, `createArvoEventId`,
+ * `createTimestamp` and `ArvoOrchestrationSubject`, unless a provider is passed
+ * explicitly (e.g. to an event factory). The providers which are not given are kept.
+ *
+ * @param providers - The providers to replace
+ *
+ * @example
+ * ```typescript
+ * beforeEach(() => {
+ *   setArvoProviders({
+ *     clock: createManualArvoClock('2025-01-01T00:00:00Z'),
+ *     idGenerator: createSeededArvoIdGenerator('test'),
+ *   });
+ * });
+ * afterEach(() => resetArvoProviders());
+ * ```
+ */
+export const setArvoProviders = (providers: Partial<ArvoProviders>) => {
+  defaultProviders = {
+    clock: providers.clock ?? defaultProviders.clock,
+    idGenerator: providers.idGenerator ?? defaultProviders.idGenerator,
+  };
+};
+
+/**
+ * Restores the global providers to the system clock and the random UUID v4 ids
+ */
+export const resetArvoProviders = () => {
+  defaultProviders = {
+    clock: SystemArvoClock,
+    idGenerator: RandomArvoIdGenerator,
+  };
+};
+
+/**
+ * Resolves the providers to use, where the given providers take precedence over the global ones.
+ *
+ * @param [providers] - The explicitly given providers
+ * @returns The resolved providers
+ */
+export const getArvoProviders = (providers?: Partial<ArvoProviders>): ArvoProviders => ({
+  clock: providers?.clock ?? defaultProviders.clock,
+  idGenerator: providers?.idGenerator ?? defaultProviders.idGenerator,
+});
@@ -0,0 +1,35 @@
+/**
+ * Provides the current time, e.g. the `time` of the created events.
+ */
+export type ArvoClock = {
+  /** Returns the current time */
+  now: () => Date;
+};
+
+/**
+ * A clock whose time only changes when it is told to, for reproducible tests and replays.
+ */
+export type ArvoManualClock = ArvoClock & {
+  /** Moves the clock forward by the given number of milliseconds */
+  advance: (milliseconds: number) => void;
+  /** Sets the time of the clock */
+  set: (time: Date | string) => void;
+};
+
+/**
+ * Provides the unique ids, e.g. the `id` of the created events and the execution id
+ * of the created orchestration subjects.
+ */
+export type ArvoIdGenerator = {
+  /** Returns a new unique id. It must be a non-empty string without a semicolon */
+  next: () => string;
+};
+
+/**
+ * The providers of the non-deterministic values used by the event and subject creation.
+ * See {@link setArvoProviders} to replace them globally.
+ */
+export type ArvoProviders = {
+  clock: ArvoClock;
+  idGenerator: ArvoIdGenerator;
+};
@@ -0,0 +1,61 @@
+/**
+ * A seeded pseudo random generator (mulberry32). It is deterministic, i.e. the
+ * same seed always produces the same sequence of values. It backs the seeded id
+ * generator and the contract mock data.
+ */
+export class ArvoSeededRandom {
+  private state: number;
+
+  constructor(seed: number | string = 0) {
+    this.state = ArvoSeededRandom.hash(seed);
+  }
+
+  private static hash(seed: number | string): number {
+    // FNV-1a hash of the seed so that the close seeds produce unrelated sequences
+    let hash = 0x811c9dc5;
+    const value = String(seed);
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * @returns A float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * @returns An integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  bool(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  chars(alphabet: string, length: number): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += alphabet[this.int(0, alphabet.length - 1)];
+    }
+    return result;
+  }
+}
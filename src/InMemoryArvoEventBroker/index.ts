@@ -0,0 +1,263 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type ArvoEvent from '../ArvoEvent';
+import type {
+  InMemoryArvoEventBrokerDelivery,
+  InMemoryArvoEventBrokerHandler,
+  InMemoryArvoEventBrokerOptions,
+  InMemoryArvoEventBrokerSubscribeOptions,
+} from './types';
+
+type Subscription = {
+  pattern: string;
+  matcher: RegExp;
+  name: string;
+  domains: (string | null)[] | null;
+  handler: InMemoryArvoEventBrokerHandler;
+};
+
+type Waiter = {
+  type: string;
+  resolve: (event: ArvoEvent) => void;
+};
+
+/**
+ * Converts a topic pattern to a regular expression where `*` matches any
+ * sequence of characters (e.g. `com.user.*` or `*.created`)
+ */
+const patternToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map((item) => item.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  );
+
+/**
+ * An in-process event broker for local development and tests. It routes the published
+ * events to the subscribers whose topic pattern matches the event `to` field, in the order
+ * of publication and subscription, so that multi-handler event flows can be exercised
+ * deterministically without a real broker.
+ *
+ * The events returned by the subscribers are published back to the broker and every delivery
+ * (including the failed and unrouted ones) is recorded in the delivery history.
+ *
+ * @example
+ * ```typescript
+ * const broker = new InMemoryArvoEventBroker();
+ *
+ * broker.subscribe('com.user.create', (event) =>
+ *   createArvoEventFactory(userContract.version('1.0.0')).respondTo(event).emits({
+ *     type: 'evt.user.created',
+ *     data: { id: '123' },
+ *   }),
+ * );
+ *
+ * await broker.publish(event);
+ * const created = await broker.waitFor('evt.user.created');
+ * ```
+ */
+export default class InMemoryArvoEventBroker {
+  private readonly subscriptions: Subscription[] = [];
+  private readonly queue: ArvoEvent[] = [];
+  private readonly published: ArvoEvent[] = [];
+  private readonly deliveries: InMemoryArvoEventBrokerDelivery[] = [];
+  private waiters: Waiter[] = [];
+  private draining: Promise<void> | null = null;
+  private readonly maxEventsPerDrain: number;
+  /** Marks the async execution of the subscriber handlers, to detect the re-entrant publishes */
+  private readonly handlerScope = new AsyncLocalStorage<string>();
+
+  /**
+   * @param [options] - The broker options. See {@link InMemoryArvoEventBrokerOptions}
+   */
+  constructor(options?: InMemoryArvoEventBrokerOptions) {
+    this.maxEventsPerDrain = options?.maxEventsPerDrain ?? 1000;
+  }
+
+  /**
+   * All the events published to the broker, in the order of publication
+   */
+  get events(): ArvoEvent[] {
+    return [...this.published];
+  }
+
+  /**
+   * The delivery history of the broker, in the order of delivery
+   */
+  get history(): InMemoryArvoEventBrokerDelivery[] {
+    return [...this.deliveries];
+  }
+
+  /**
+   * Subscribes a handler to the events whose `to` field matches the topic pattern.
+   *
+   * @param pattern - The topic pattern. It is either an exact topic (e.g. `com.user.create`)
+   * or a pattern where `*` matches any sequence of characters (e.g. `com.user.*` or `*`)
+   * @param handler - The event handler. The events it returns are published to the broker
+   * @param [options] - The subscription options, e.g. the domains of the events to receive
+   *
+   * @returns A function which removes the subscription
+   */
+  subscribe(
+    pattern: string,
+    handler: InMemoryArvoEventBrokerHandler,
+    options?: InMemoryArvoEventBrokerSubscribeOptions,
+  ): () => void {
+    const subscription: Subscription = {
+      pattern,
+      matcher: patternToRegExp(pattern),
+      name: options?.name ?? pattern,
+      domains: options?.domains ?? null,
+      handler,
+    };
+    this.subscriptions.push(subscription);
+    return () => {
+      const index = this.subscriptions.indexOf(subscription);
+      if (index >= 0) this.subscriptions.splice(index, 1);
+    };
+  }
+
+  /**
+   * Publishes the events and processes them, along with all the events produced by
+   * the subscribers, until the broker has no pending events.
+   *
+   * When called while the broker is processing events, the events are queued and processed
+   * by the in-flight processing, and the returned promise resolves once it settles. However,
+   * when called from within a handler, the returned promise resolves immediately, as waiting
+   * for the in-flight processing, which waits for the handler, would deadlock.
+   *
+   * @param events - The events to publish
+   * @returns A promise which resolves when the broker has no pending events, or immediately
+   * when called from within a handler
+   *
+   * @throws {Error} If more than `maxEventsPerDrain` events are processed in a single drain
+   */
+  async publish(...events: ArvoEvent[]): Promise<void> {
+    this.enqueue(events);
+    if (this.draining && this.handlerScope.getStore() !== undefined) return;
+    await this.drain();
+    // The events queued while the in-flight processing was settling are processed by a new drain
+    while (this.queue.length) {
+      await this.drain();
+    }
+  }
+
+  /**
+   * Processes the pending events until the broker has no pending events.
+   *
+   * @returns A promise which resolves when the broker has no pending events
+   *
+   * @throws {Error} If more than `maxEventsPerDrain` events are processed, which usually
+   * indicates an event flow which never settles. The pending events are discarded.
+   */
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.processQueue().finally(() => {
+        this.draining = null;
+      });
+      // Events queued while the processing was settling are picked up by a new drain
+      this.draining
+        .then(() => {
+          if (this.queue.length) return this.drain();
+        })
+        .catch(() => undefined);
+    }
+    return this.draining;
+  }
+
+  /**
+   * Waits for an event of the given type to be published. If such an event has
+   * already been published, the earliest one is returned immediately.
+   *
+   * @param type - The event type to wait for
+   * @param [timeout] - The maximum time to wait in milliseconds. Defaults to 5000
+   * @returns The published event
+   *
+   * @throws {Error} If no event of the type is published within the timeout
+   */
+  waitFor(type: string, timeout = 5000): Promise<ArvoEvent> {
+    const existing = this.published.find((item) => item.type === type);
+    if (existing) return Promise.resolve(existing);
+    return new Promise<ArvoEvent>((resolve, reject) => {
+      const waiter: Waiter = {
+        type,
+        resolve: (event) => {
+          clearTimeout(timer);
+          resolve(event);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((item) => item !== waiter);
+        reject(new Error(`Timed out after ${timeout}ms waiting for an event of type '${type}'`));
+      }, timeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Clears the published events, the delivery history and the pending events.
+   * The subscriptions are kept.
+   */
+  clear(): void {
+    this.published.length = 0;
+    this.deliveries.length = 0;
+    this.queue.length = 0;
+  }
+
+  private enqueue(events: ArvoEvent[]) {
+    for (const event of events) {
+      this.queue.push(event);
+      this.published.push(event);
+      const matched = this.waiters.filter((item) => item.type === event.type);
+      this.waiters = this.waiters.filter((item) => item.type !== event.type);
+      for (const waiter of matched) {
+        waiter.resolve(event);
+      }
+    }
+  }
+
+  private record(event: ArvoEvent, subscriber: string | null, error: Error | null = null) {
+    this.deliveries.push({
+      sequence: this.deliveries.length + 1,
+      event,
+      subscriber,
+      status: subscriber === null ? 'unrouted' : error ? 'failed' : 'delivered',
+      error,
+    });
+  }
+
+  private matches(subscription: Subscription, event: ArvoEvent) {
+    if (!event.to || !subscription.matcher.test(event.to)) return false;
+    return subscription.domains === null || subscription.domains.includes(event.domain);
+  }
+
+  private async processQueue() {
+    let processed = 0;
+    while (this.queue.length) {
+      if (processed >= this.maxEventsPerDrain) {
+        this.queue.length = 0;
+        throw new Error(
+          `The broker processed more than ${this.maxEventsPerDrain} events in a single drain. The event flow may never settle.`,
+        );
+      }
+      const event = this.queue.shift() as ArvoEvent;
+      processed++;
+      const subscribers = this.subscriptions.filter((item) => this.matches(item, event));
+      if (!subscribers.length) {
+        this.record(event, null);
+        continue;
+      }
+      for (const subscriber of subscribers) {
+        try {
+          const result = await this.handlerScope.run(subscriber.name, () => subscriber.handler(event));
+          this.record(event, subscriber.name);
+          if (result) {
+            this.enqueue(Array.isArray(result) ? result : [result]);
+          }
+        } catch (e) {
+          this.record(event, subscriber.name, e as Error);
+        }
+      }
+    }
+  }
+}
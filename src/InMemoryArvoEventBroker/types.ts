@@ -0,0 +1,54 @@
+import type ArvoEvent from '../ArvoEvent';
+
+/**
+ * A subscriber handler. The events it returns are published back to the broker,
+ * which allows whole event flows to be exercised with a single publish.
+ */
+export type InMemoryArvoEventBrokerHandler = (
+  event: ArvoEvent,
+  // biome-ignore lint/suspicious/noConfusingVoidType: Handlers which publish no events do not need to return anything
+) => ArvoEvent[] | ArvoEvent | null | void | Promise<ArvoEvent[] | ArvoEvent | null | void>;
+
+/**
+ * The options of a broker subscription
+ */
+export type InMemoryArvoEventBrokerSubscribeOptions = {
+  /** The subscriber name used in the delivery history. Defaults to the topic pattern */
+  name?: string;
+  /**
+   * The domains of the events to receive. A `null` domain matches the events without a
+   * domain. When not provided, the events of all the domains are received.
+   */
+  domains?: (string | null)[];
+};
+
+/**
+ * A record of the delivery history of the broker
+ */
+export type InMemoryArvoEventBrokerDelivery = {
+  /** The order in which the delivery happened */
+  sequence: number;
+  /** The delivered event */
+  event: ArvoEvent;
+  /** The name of the subscriber or null if no subscriber matched the event */
+  subscriber: string | null;
+  /**
+   * - `delivered`: The subscriber handled the event
+   * - `failed`: The subscriber threw an error while handling the event
+   * - `unrouted`: No subscriber matched the event
+   */
+  status: 'delivered' | 'failed' | 'unrouted';
+  /** The error thrown by the subscriber, if the delivery failed */
+  error: Error | null;
+};
+
+/**
+ * The options of the in-memory broker
+ */
+export type InMemoryArvoEventBrokerOptions = {
+  /**
+   * The maximum number of events processed in a single drain. This guards
+   * against event flows which never settle. Defaults to 1000
+   */
+  maxEventsPerDrain?: number;
+};
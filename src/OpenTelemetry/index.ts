@@ -1,7 +1,6 @@
 import {
   type Context,
   type Span,
-  type SpanOptions,
   SpanStatusCode,
   type TextMapSetter,
   type Tracer,
@@ -10,8 +9,19 @@ import {
   trace,
 } from '@opentelemetry/api';
 import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import type ArvoEvent from '../ArvoEvent';
+import { redactArvoEvent } from '../ArvoEventRedaction';
+import type { ArvoEventRedactionOptions } from '../ArvoEventRedaction/types';
 import { ArvoExecution, ArvoExecutionSpanKind } from './ArvoExecution';
-import type { OpenTelemetryHeaders, TelemetryLogLevel } from './types';
+import type { OpenTelemetryHeaders, StartActiveSpanParam, TelemetryLogLevel } from './types';
+
+/**
+ * Checks if a value is a thenable (e.g. a Promise)
+ */
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  value !== null &&
+  (typeof value === 'object' || typeof value === 'function') &&
+  typeof (value as PromiseLike<unknown>).then === 'function';
 
 /**
  * Singleton class for managing OpenTelemetry instrumentation across libraries
@@ -99,6 +109,10 @@ export class ArvoOpenTelemetry {
    * 1. Automatic span management (default): Handles span lifecycle, status, and error recording
    * 2. Manual span management: Gives full control to the user when disableSpanManagement is true
    *
+   * In automatic mode, if `fn` returns a thenable (e.g. a Promise), the span is kept open until
+   * the thenable settles. A resolution sets the span status to OK and a rejection records the
+   * exception and sets the status to ERROR before the span is ended.
+   *
    * @template F - Function type that accepts a Span parameter and returns a value
    * @param {Object} param - Configuration object for the span
    * @param {string} param.name - Name of the span to be created
@@ -111,21 +125,7 @@ export class ArvoOpenTelemetry {
    * @param {Context} param.context.context - Required when inheritFrom is 'CONTEXT'
    * @returns {ReturnType<F>} The return value of the executed function
    */
-  public startActiveSpan<F extends (span: Span) => unknown>(param: {
-    name: string;
-    fn: F;
-    spanOptions?: SpanOptions;
-    context?:
-      | {
-          inheritFrom: 'TRACE_HEADERS';
-          traceHeaders: OpenTelemetryHeaders;
-        }
-      | {
-          inheritFrom: 'CONTEXT';
-          context: Context;
-        };
-    disableSpanManagement?: boolean;
-  }): ReturnType<F> {
+  public startActiveSpan<F extends (span: Span) => unknown>(param: StartActiveSpanParam<F>): ReturnType<F> {
     let parentContext: Context | undefined;
     if (param.context) {
       if (param.context.inheritFrom === 'TRACE_HEADERS' && param.context.traceHeaders.traceparent) {
@@ -153,25 +153,76 @@ export class ArvoOpenTelemetry {
         return param.fn(span) as ReturnType<F>;
       }
       span.setStatus({ code: SpanStatusCode.OK });
-      try {
-        return param.fn(span) as ReturnType<F>;
-      } catch (e) {
-        exceptionToSpan(e as Error);
+      const handleError = (e: unknown) => {
+        exceptionToSpan(e as Error, span);
         span.setStatus({
           code: SpanStatusCode.ERROR,
-          message: (e as Error).message,
+          message: (e as Error)?.message,
         });
+      };
+      let result: unknown;
+      try {
+        result = param.fn(span);
+      } catch (e) {
+        handleError(e);
+        span.end();
         throw e;
-      } finally {
+      }
+      if (!isThenable(result)) {
         span.end();
+        return result as ReturnType<F>;
       }
+      return result.then(
+        (value) => {
+          span.setStatus({ code: SpanStatusCode.OK });
+          span.end();
+          return value;
+        },
+        (e) => {
+          handleError(e);
+          span.end();
+          throw e;
+        },
+      ) as ReturnType<F>;
     });
   }
+
+  /**
+   * Async variant of {@link ArvoOpenTelemetry.startActiveSpan}. The function `fn` may
+   * return a value or a Promise and the result is always resolved as a Promise. With
+   * automatic span management, the span ends only after the returned Promise settles,
+   * with its status and any rejection recorded on the span.
+   *
+   * @returns {Promise<Awaited<ReturnType<F>>>} A Promise resolving to the awaited return value of `fn`
+   *
+   * @example
+   * ```typescript
+   * const result = await ArvoOpenTelemetry.getInstance().startActiveSpanAsync({
+   *   name: 'handler.execute',
+   *   fn: async (span) => {
+   *     const response = await fetchSomething();
+   *     span.setAttribute('response.size', response.length);
+   *     return response;
+   *   },
+   * });
+   * ```
+   */
+  public startActiveSpanAsync<F extends (span: Span) => unknown>(
+    param: StartActiveSpanParam<F>,
+  ): Promise<Awaited<ReturnType<F>>> {
+    try {
+      return Promise.resolve(this.startActiveSpan(param) as Awaited<ReturnType<F>>);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
 }
 
 /**
  * Logs a message to a span with additional parameters.
- * @param params - The parameters for the log message.
+ * @param params - The parameters for the log message. An ArvoEvent passed as the `event` parameter
+ *                 is logged in the `arvo.event` attribute with the sensitive fields of its data
+ *                 masked, as per the `redaction` options. See {@link redactArvoEvent}.
  * @param span - The span to log the message to. If not provided, the active span is used.
  *               If no active span is available, the message is logged to the console.
  */
@@ -179,16 +230,19 @@ export const logToSpan = (
   params: {
     level: TelemetryLogLevel;
     message: string;
-    [key: string]: string;
+    event?: ArvoEvent;
+    redaction?: ArvoEventRedactionOptions;
+    [key: string]: string | ArvoEvent | ArvoEventRedactionOptions | undefined;
   },
   span: Span | undefined = trace.getActiveSpan(),
 ): void => {
-  const { level, message, ...restParams } = params;
+  const { level, message, event, redaction, ...restParams } = params;
   const toLog = {
     'log.severity': level,
     'log.message': message,
     'log.timestamp': performance.now(),
-    ...restParams,
+    ...(event ? { 'arvo.event': redactArvoEvent(event, redaction).toString() } : {}),
+    ...(restParams as Record<string, string>),
   };
   if (span) {
     span.addEvent('log', toLog);
@@ -1,3 +1,5 @@
+import type { Context, Span, SpanOptions } from '@opentelemetry/api';
+
 /**
  * Represents the available log levels for telemetry.
  * - DEBUG: Used for detailed information, typically of interest only when diagnosing problems.
@@ -16,3 +18,28 @@ export type OpenTelemetryHeaders = {
   traceparent: string | null;
   tracestate: string | null;
 };
+
+/**
+ * Parameters for creating and managing an active span via
+ * `ArvoOpenTelemetry.startActiveSpan` and `ArvoOpenTelemetry.startActiveSpanAsync`
+ */
+export type StartActiveSpanParam<F extends (span: Span) => unknown> = {
+  /** Name of the span to be created */
+  name: string;
+  /** Function to execute within the span context. Receives the span as a parameter */
+  fn: F;
+  /** Optional configuration for the span creation */
+  spanOptions?: SpanOptions;
+  /** Optional context configuration for span inheritance */
+  context?:
+    | {
+        inheritFrom: 'TRACE_HEADERS';
+        traceHeaders: OpenTelemetryHeaders;
+      }
+    | {
+        inheritFrom: 'CONTEXT';
+        context: Context;
+      };
+  /** When true, disables automatic span lifecycle management */
+  disableSpanManagement?: boolean;
+};
@@ -12,6 +12,9 @@ import {
 } from './ArvoEvent/schema';
 import {
   ArvoEventData,
+  ArvoEventParseIssue,
+  ArvoEventParseOptions,
+  ArvoEventSafeParseResult,
   ArvoExtension,
   CloudEventContext,
   CloudEventExtension,
@@ -26,43 +29,168 @@ import {
   getOtelHeaderFromSpan,
   logToSpan,
 } from './OpenTelemetry';
-import { OpenTelemetryHeaders, TelemetryLogLevel } from './OpenTelemetry/types';
+import { OpenTelemetryHeaders, StartActiveSpanParam, TelemetryLogLevel } from './OpenTelemetry/types';
 import {
   EventDataschemaUtil,
   cleanString,
   compareSemanticVersions,
   createArvoError,
   parseSemanticVersion,
+  resolveSemanticVersionRange,
+  satisfiesSemanticVersionRange,
   validateURI,
 } from './utils';
 
+import { createAsyncApiDocument } from './ArvoContract/AsyncApi';
+import {
+  AsyncApiDocument,
+  AsyncApiMessage,
+  AsyncApiReference,
+  AsyncApiSchema,
+  CreateAsyncApiDocumentParam,
+} from './ArvoContract/AsyncApi/types';
+import { checkArvoContractCompatibility } from './ArvoContract/Compatibility';
+import {
+  ArvoContractChange,
+  ArvoContractChangeKind,
+  ArvoContractCompatibilityLevel,
+  ArvoContractCompatibilityReport,
+  ArvoContractVersionBump,
+} from './ArvoContract/Compatibility/types';
+import { createArvoContractHtml, createArvoContractMarkdown } from './ArvoContract/Documentation';
+import {
+  ArvoContractDocumentationField,
+  CreateArvoContractDocumentationParam,
+} from './ArvoContract/Documentation/types';
+import { createArvoContractFromJsonSchema, createVersionedArvoContractFromJsonSchema } from './ArvoContract/JsonSchema';
+import { ArvoContractJSONSchemaVersions } from './ArvoContract/JsonSchema/types';
+import { jsonSchemaToZod } from './ArvoContract/JsonSchema/utils';
 import { createSimpleArvoContract } from './ArvoContract/SimpleArvoContract';
 import { SimpleArvoContract } from './ArvoContract/SimpleArvoContract/types';
+import { createArvoContractTypeDeclarations } from './ArvoContract/TypeDeclaration';
+import { CreateArvoContractTypeDeclarationsParam } from './ArvoContract/TypeDeclaration/types';
 import { VersionedArvoContract } from './ArvoContract/VersionedArvoContract';
+import {
+  ArvoContractViolationType,
+  VersionedArvoContractEventRecord,
+  VersionedArvoContractEventValidationResult,
+} from './ArvoContract/VersionedArvoContract/types';
 import { WildCardArvoSemanticVersion, isWildCardArvoSematicVersion } from './ArvoContract/WildCardArvoSemanticVersion';
 import {
   ArvoContractJSONSchema,
   ArvoContractParam,
   ArvoContractRecord,
+  ArvoContractVersionLifecycle,
   ResolveArvoContractRecord,
 } from './ArvoContract/types';
 import { ArvoContractValidators } from './ArvoContract/validators';
+import ArvoContractMock, { generateArvoMockData } from './ArvoContractMock';
+import { createArvoContractMock } from './ArvoContractMock/helpers';
+import { ArvoContractMockOptions, ArvoMockDataOptions } from './ArvoContractMock/types';
+import ArvoContractPact from './ArvoContractPact';
+import { createArvoContractPact } from './ArvoContractPact/helpers';
+import {
+  ArvoContractPactExpectation,
+  ArvoContractPactExpectationParam,
+  ArvoContractPactJSON,
+  ArvoContractPactMismatch,
+  ArvoContractPactMismatchKind,
+  ArvoContractPactVerificationOptions,
+  ArvoContractPactVerificationReport,
+} from './ArvoContractPact/types';
+import { verifyArvoContractPact } from './ArvoContractPact/verifier';
+import ArvoContractRegistry from './ArvoContractRegistry';
+import { createArvoContractRegistry } from './ArvoContractRegistry/helpers';
+import { ArvoContractRegistrySystemErrorRecord } from './ArvoContractRegistry/types';
 import { ArvoEventIdObject, ArvoEventIdObjectSchema, createArvoEventId, parseArvoEventId } from './ArvoEvent/id';
+import ArvoEventClaimCheck from './ArvoEventClaimCheck';
+import { FileSystemArvoEventBlobStore, InMemoryArvoEventBlobStore } from './ArvoEventClaimCheck/stores';
+import {
+  ArvoEventBlobStore,
+  ArvoEventClaimCheckHookOptions,
+  ArvoEventClaimCheckOptions,
+  ArvoEventDataRefExtension,
+} from './ArvoEventClaimCheck/types';
+import ArvoEventEncryption from './ArvoEventEncryption';
+import {
+  ArvoEventDecryptionKeyResolver,
+  ArvoEventEncryptedData,
+  ArvoEventEncryptionAlgorithm,
+  ArvoEventEncryptionExtension,
+  ArvoEventEncryptionKey,
+} from './ArvoEventEncryption/types';
 import ArvoEventFactory from './ArvoEventFactory';
 import { ArvoOrchestratorEventFactory } from './ArvoEventFactory/Orchestrator';
 import { createArvoEventFactory, createArvoOrchestratorEventFactory } from './ArvoEventFactory/helpers';
+import ArvoEventHttp from './ArvoEventHttp';
+import { ArvoEventHttpConfig, ArvoEventHttpRequest } from './ArvoEventHttp/types';
+import ArvoEventKafka from './ArvoEventKafka';
+import {
+  ArvoEventKafkaMessage,
+  ArvoEventKafkaPartitionKeyStrategy,
+  ArvoEventKafkaRecord,
+} from './ArvoEventKafka/types';
+import {
+  getContractSensitiveDataPaths,
+  getSensitiveDataPaths,
+  markSensitive,
+  redactArvoEvent,
+  redactData,
+  redactZodError,
+} from './ArvoEventRedaction';
+import { ArvoEventRedactionOptions } from './ArvoEventRedaction/types';
+import { ArvoRedactionMask, ArvoSensitiveDataMarker } from './ArvoEventRedaction/utils';
+import ArvoEventSignature from './ArvoEventSignature';
+import {
+  ArvoEventSignatureAlgorithm,
+  ArvoEventSignatureExtension,
+  ArvoEventSignatureVerificationResult,
+  ArvoEventSigningKey,
+  ArvoEventVerificationKey,
+  ArvoEventVerificationKeyResolver,
+} from './ArvoEventSignature/types';
 import ArvoOrchestrationSubject from './ArvoOrchestrationSubject';
 import { ArvoOrchestrationSubjectContentSchema } from './ArvoOrchestrationSubject/schema';
-import { ArvoOrchestrationSubjectContent } from './ArvoOrchestrationSubject/type';
+import { createArvoOrchestrationSubjectKeyProvider } from './ArvoOrchestrationSubject/signature';
+import {
+  ArvoOrchestrationSubjectCodec,
+  ArvoOrchestrationSubjectContent,
+  ArvoOrchestrationSubjectEncoding,
+  ArvoOrchestrationSubjectKeyProvider,
+  ArvoOrchestrationSubjectLineageEntry,
+  ArvoOrchestrationSubjectSigningOptions,
+} from './ArvoOrchestrationSubject/type';
 import { createArvoOrchestratorContract } from './ArvoOrchestratorContract';
 import { OrchestrationInitEventBaseSchema } from './ArvoOrchestratorContract/schema';
 import { ArvoOrchestratorEventTypeGen } from './ArvoOrchestratorContract/typegen';
 import { ArvoOrchestratorContract, CreateArvoOrchestratorContractParam } from './ArvoOrchestratorContract/types';
+import {
+  RandomArvoIdGenerator,
+  SystemArvoClock,
+  getArvoProviders,
+  resetArvoProviders,
+  setArvoProviders,
+} from './ArvoProviders';
+import { createManualArvoClock, createSeededArvoIdGenerator } from './ArvoProviders/helpers';
+import { ArvoClock, ArvoIdGenerator, ArvoManualClock, ArvoProviders } from './ArvoProviders/types';
+import InMemoryArvoEventBroker from './InMemoryArvoEventBroker';
+import {
+  InMemoryArvoEventBrokerDelivery,
+  InMemoryArvoEventBrokerHandler,
+  InMemoryArvoEventBrokerOptions,
+  InMemoryArvoEventBrokerSubscribeOptions,
+} from './InMemoryArvoEventBroker/types';
 import { ArvoExecution, ArvoExecutionSpanKind } from './OpenTelemetry/ArvoExecution';
 import { OpenInference, OpenInferenceSpanKind } from './OpenTelemetry/OpenInference';
 import { ViolationError, ViolationErrorParam, isViolationError } from './errors';
 import { ArvoErrorSchema, ArvoSemanticVersionSchema, isValidArvoSemanticVersion } from './schema';
-import { ArvoErrorType, ArvoSemanticVersion, InferArvoEvent, InferVersionedArvoContract } from './types';
+import {
+  ArvoErrorType,
+  ArvoSemanticVersion,
+  ArvoSemanticVersionRange,
+  InferArvoEvent,
+  InferVersionedArvoContract,
+} from './types';
 
 /**
  * Collection of Zod schemas for validating various aspects of Arvo events.
@@ -87,6 +215,9 @@ export {
   createArvoEvent,
   ArvoDataContentType,
   ArvoEventData,
+  ArvoEventParseIssue,
+  ArvoEventSafeParseResult,
+  ArvoEventParseOptions,
   CloudEventExtension,
   ArvoEventSchema,
   CloudEventContext,
@@ -139,6 +270,7 @@ export {
   ArvoOrchestratorEventFactory,
   createArvoOrchestratorEventFactory,
   ArvoOpenTelemetry,
+  StartActiveSpanParam,
   ViolationError,
   ViolationErrorParam,
   createArvoError,
@@ -148,4 +280,109 @@ export {
   ArvoEventIdObject,
   isViolationError,
   getOtelHeaderFromSpan,
+  ArvoEventHttp,
+  ArvoEventHttpConfig,
+  ArvoEventHttpRequest,
+  ArvoEventKafka,
+  ArvoEventKafkaRecord,
+  ArvoEventKafkaMessage,
+  ArvoEventKafkaPartitionKeyStrategy,
+  checkArvoContractCompatibility,
+  ArvoContractChange,
+  ArvoContractChangeKind,
+  ArvoContractCompatibilityLevel,
+  ArvoContractCompatibilityReport,
+  ArvoContractVersionBump,
+  createAsyncApiDocument,
+  AsyncApiDocument,
+  AsyncApiMessage,
+  AsyncApiReference,
+  AsyncApiSchema,
+  CreateAsyncApiDocumentParam,
+  createArvoContractFromJsonSchema,
+  createVersionedArvoContractFromJsonSchema,
+  jsonSchemaToZod,
+  ArvoContractJSONSchemaVersions,
+  ArvoContractRegistry,
+  createArvoContractRegistry,
+  ArvoContractRegistrySystemErrorRecord,
+  ArvoContractViolationType,
+  VersionedArvoContractEventRecord,
+  VersionedArvoContractEventValidationResult,
+  InMemoryArvoEventBroker,
+  InMemoryArvoEventBrokerDelivery,
+  InMemoryArvoEventBrokerHandler,
+  InMemoryArvoEventBrokerOptions,
+  InMemoryArvoEventBrokerSubscribeOptions,
+  ArvoOrchestrationSubjectLineageEntry,
+  ArvoOrchestrationSubjectCodec,
+  ArvoOrchestrationSubjectEncoding,
+  ArvoOrchestrationSubjectKeyProvider,
+  ArvoOrchestrationSubjectSigningOptions,
+  createArvoOrchestrationSubjectKeyProvider,
+  ArvoEventSignature,
+  ArvoEventSignatureAlgorithm,
+  ArvoEventSignatureExtension,
+  ArvoEventSignatureVerificationResult,
+  ArvoEventSigningKey,
+  ArvoEventVerificationKey,
+  ArvoEventVerificationKeyResolver,
+  ArvoEventEncryption,
+  ArvoEventDecryptionKeyResolver,
+  ArvoEventEncryptedData,
+  ArvoEventEncryptionAlgorithm,
+  ArvoEventEncryptionExtension,
+  ArvoEventEncryptionKey,
+  ArvoEventClaimCheck,
+  InMemoryArvoEventBlobStore,
+  FileSystemArvoEventBlobStore,
+  ArvoEventBlobStore,
+  ArvoEventClaimCheckOptions,
+  ArvoEventClaimCheckHookOptions,
+  ArvoEventDataRefExtension,
+  ArvoSensitiveDataMarker,
+  ArvoRedactionMask,
+  ArvoEventRedactionOptions,
+  markSensitive,
+  getSensitiveDataPaths,
+  getContractSensitiveDataPaths,
+  redactData,
+  redactArvoEvent,
+  redactZodError,
+  ArvoSemanticVersionRange,
+  satisfiesSemanticVersionRange,
+  resolveSemanticVersionRange,
+  ArvoContractVersionLifecycle,
+  ArvoContractMock,
+  createArvoContractMock,
+  generateArvoMockData,
+  ArvoContractMockOptions,
+  ArvoMockDataOptions,
+  ArvoContractPact,
+  createArvoContractPact,
+  verifyArvoContractPact,
+  ArvoContractPactExpectation,
+  ArvoContractPactExpectationParam,
+  ArvoContractPactJSON,
+  ArvoContractPactMismatch,
+  ArvoContractPactMismatchKind,
+  ArvoContractPactVerificationOptions,
+  ArvoContractPactVerificationReport,
+  createArvoContractMarkdown,
+  createArvoContractHtml,
+  CreateArvoContractDocumentationParam,
+  ArvoContractDocumentationField,
+  createArvoContractTypeDeclarations,
+  CreateArvoContractTypeDeclarationsParam,
+  SystemArvoClock,
+  RandomArvoIdGenerator,
+  setArvoProviders,
+  resetArvoProviders,
+  getArvoProviders,
+  createManualArvoClock,
+  createSeededArvoIdGenerator,
+  ArvoClock,
+  ArvoManualClock,
+  ArvoIdGenerator,
+  ArvoProviders,
 };
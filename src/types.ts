@@ -9,6 +9,31 @@ import type { ArvoErrorSchema } from './schema';
  */
 export type ArvoSemanticVersion = `${number}.${number}.${number}`;
 
+/**
+ * Represents a semantic version range, following the npm range syntax:
+ * - Caret ranges e.g. `^1.2.3` (i.e. `>=1.2.3 <2.0.0`)
+ * - Tilde ranges e.g. `~1.2.3` (i.e. `>=1.2.3 <1.3.0`)
+ * - Comparators e.g. `>=2.3.0`, `<3.0.0`, `>1.0.0`, `<=1.4.0` or `=1.0.0`
+ * - X-ranges and partial versions e.g. `1.x`, `1.2.x`, `1`, `1.2` or `*`
+ * - Intersections of space separated comparators e.g. `>=1.2.0 <2.0.0`
+ * - Unions of `||` separated ranges e.g. `^1.0.0 || ^3.0.0`
+ */
+export type ArvoSemanticVersionRange =
+  | `^${string}`
+  | `~${string}`
+  | `>${string}`
+  | `<${string}`
+  | `=${string}`
+  | `${number}`
+  | `${number}.${'x' | 'X' | '*'}`
+  | `${number}.${'x' | 'X' | '*'}.${'x' | 'X' | '*'}`
+  | `${number}.${number}.${'x' | 'X' | '*'}`
+  | '*'
+  | 'x'
+  | 'X'
+  | `${string} ${string}`
+  | `${string}||${string}`;
+
 /**
  * Infers the complete structure of an ArvoEvent by combining base CloudEvents fields,
  * Arvo-specific extensions, OpenTelemetry extensions, and custom extensions.
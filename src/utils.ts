@@ -1,6 +1,8 @@
 import type { VersionedArvoContract } from './ArvoContract/VersionedArvoContract';
 import { WildCardArvoSemanticVersion } from './ArvoContract/WildCardArvoSemanticVersion';
 import type ArvoEvent from './ArvoEvent';
+import { getArvoProviders } from './ArvoProviders';
+import type { ArvoClock } from './ArvoProviders/types';
 import { logToSpan } from './OpenTelemetry';
 import { ArvoSemanticVersionSchema } from './schema';
 import type { ArvoErrorType, ArvoSemanticVersion } from './types';
@@ -53,6 +55,7 @@ export const validateURI = (value: string) => {
  * @param offsetHours - The number of hours to offset from UTC. Positive values
  *                      represent hours ahead of UTC, negative values represent
  *                      hours behind UTC. Defaults to 0 (UTC).
+ * @param [clock] - The clock of the current time. Defaults to the global clock (see `setArvoProviders`)
  * @returns A string representing the current date and time in RFC 3339 format
  *          with the specified UTC offset.
  *
@@ -68,8 +71,8 @@ export const validateURI = (value: string) => {
  * // Returns current time with -5 hours offset
  * createTimestamp(-5);
  */
-export const createTimestamp = (offsetHours = 0): string => {
-  const now = new Date();
+export const createTimestamp = (offsetHours = 0, clock?: ArvoClock): string => {
+  const now = new Date(getArvoProviders({ clock }).clock.now().getTime());
   const offsetMinutes = offsetHours * 60;
   now.setMinutes(now.getMinutes() - now.getTimezoneOffset() + offsetMinutes);
   return now
@@ -126,6 +129,148 @@ export function compareSemanticVersions(version1: ArvoSemanticVersion, version2:
   return v1.patch - v2.patch;
 }
 
+type SemanticVersionComparator = {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: VersionComponents;
+};
+
+const compareVersionComponents = (v1: VersionComponents, v2: VersionComponents) =>
+  v1.major - v2.major || v1.minor - v2.minor || v1.patch - v2.patch;
+
+/**
+ * Converts a range comparator (e.g. `^1.2.3`, `~1.2`, `>=2.x` or `1.x`) into primitive comparators
+ */
+const parseRangeComparator = (token: string): SemanticVersionComparator[] => {
+  const match = /^(\^|~|>=|<=|>|<|=)?v?(\*|x|X|\d+)(?:\.(\*|x|X|\d+))?(?:\.(\*|x|X|\d+))?$/.exec(token);
+  if (!match) {
+    throw new Error(`Invalid semantic version comparator '${token}'`);
+  }
+  const operator = match[1] ?? '';
+  const parts: (number | null)[] = [];
+  for (const part of match.slice(2)) {
+    // Every part following a wildcard is a wildcard too e.g. 1.x.3 is 1.x.x
+    if (part === undefined || part === '*' || part.toLowerCase() === 'x' || parts.includes(null)) parts.push(null);
+    else parts.push(Number(part));
+  }
+  const precision = parts.filter((item) => item !== null).length;
+  const [major, minor, patch] = parts.map((item) => item ?? 0);
+  const lower: VersionComponents = { major, minor, patch };
+  // The exclusive upper bound of a partial version e.g. 2.0.0 for 1.x and 1.3.0 for 1.2.x
+  const upper: VersionComponents =
+    precision === 1 ? { major: major + 1, minor: 0, patch: 0 } : { major, minor: minor + 1, patch: 0 };
+  const none: SemanticVersionComparator[] = [{ operator: '<', version: { major: 0, minor: 0, patch: 0 } }];
+
+  switch (operator) {
+    case '^': {
+      if (!precision) return [];
+      let caretUpper: VersionComponents;
+      if (major > 0 || precision === 1) caretUpper = { major: major + 1, minor: 0, patch: 0 };
+      else if (minor > 0 || precision === 2) caretUpper = { major: 0, minor: minor + 1, patch: 0 };
+      else caretUpper = { major: 0, minor: 0, patch: patch + 1 };
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: caretUpper },
+      ];
+    }
+    case '~':
+      if (!precision) return [];
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: precision === 1 ? upper : { major, minor: minor + 1, patch: 0 } },
+      ];
+    case '>=':
+      return precision ? [{ operator: '>=', version: lower }] : [];
+    case '>':
+      if (!precision) return none;
+      return precision === 3 ? [{ operator: '>', version: lower }] : [{ operator: '>=', version: upper }];
+    case '<':
+      return precision ? [{ operator: '<', version: lower }] : none;
+    case '<=':
+      if (!precision) return [];
+      return precision === 3 ? [{ operator: '<=', version: lower }] : [{ operator: '<', version: upper }];
+    default:
+      if (!precision) return [];
+      if (precision === 3) return [{ operator: '=', version: lower }];
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+  }
+};
+
+/**
+ * Parses a semantic version range into a union of comparator intersections
+ */
+const parseSemanticVersionRange = (range: string): SemanticVersionComparator[][] => {
+  try {
+    return range.split('||').map((item) =>
+      item
+        .trim()
+        .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+        .split(/\s+/)
+        .filter(Boolean)
+        .reduce<SemanticVersionComparator[]>((acc, token) => acc.concat(parseRangeComparator(token)), []),
+    );
+  } catch (e) {
+    throw new Error(`Invalid semantic version range '${range}' -> ${(e as Error).message}`);
+  }
+};
+
+const satisfiesComparator = (version: VersionComponents, comparator: SemanticVersionComparator) => {
+  const result = compareVersionComponents(version, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    default:
+      return result === 0;
+  }
+};
+
+/**
+ * Checks if a semantic version satisfies a semantic version range.
+ *
+ * @param version - The semantic version e.g. `1.2.3`
+ * @param range - The semantic version range e.g. `^1.0.0 || >=3.0.0`. See {@link ArvoSemanticVersionRange}
+ * @returns True if the version is within the range, false otherwise
+ *
+ * @throws {Error} If the version or the range is invalid
+ *
+ * @example
+ * ```typescript
+ * satisfiesSemanticVersionRange('1.4.0', '^1.2.0'); // true
+ * satisfiesSemanticVersionRange('2.0.0', '1.x'); // false
+ * ```
+ */
+export function satisfiesSemanticVersionRange(version: ArvoSemanticVersion, range: string): boolean {
+  return resolveSemanticVersionRange([version], range) !== null;
+}
+
+/**
+ * Resolves the highest semantic version which satisfies a semantic version range.
+ *
+ * @param versions - The candidate semantic versions
+ * @param range - The semantic version range. See {@link ArvoSemanticVersionRange}
+ * @returns The highest matching version or null if no version satisfies the range
+ *
+ * @throws {Error} If a version or the range is invalid
+ */
+export function resolveSemanticVersionRange<T extends ArvoSemanticVersion>(versions: T[], range: string): T | null {
+  const comparatorSets = parseSemanticVersionRange(range);
+  const matching = versions.filter((version) => {
+    const components = parseSemanticVersion(version);
+    return comparatorSets.some((comparators) =>
+      comparators.every((comparator) => satisfiesComparator(components, comparator)),
+    );
+  });
+  return matching.sort((a, b) => compareSemanticVersions(b, a))[0] ?? null;
+}
+
 /**
  * Manages event dataschema strings for versioned contracts.
  * Handles creation and parsing of dataschema identifiers.
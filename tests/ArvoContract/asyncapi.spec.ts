@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { createArvoContract, createAsyncApiDocument } from '../../src';
+
+describe('createAsyncApiDocument', () => {
+  const userContract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    description: 'Creates a user',
+    domain: 'test.domain',
+    metadata: { owner: 'identity-team' },
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string() }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string() }),
+        },
+      },
+      '2.0.0': {
+        accepts: z.object({ name: z.string(), email: z.string().email().describe('The user email') }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string() }),
+          'evt.user.notified': z.object({ channel: z.enum(['email', 'sms']) }),
+        },
+      },
+    },
+  });
+
+  const orderContract = createArvoContract({
+    uri: '#/test/order',
+    type: 'com.order.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ userId: z.string() }),
+        emits: {
+          'evt.order.created': z.object({ orderId: z.string() }),
+          'evt.user.created': z.object({ id: z.string() }),
+        },
+      },
+    },
+  });
+
+  it('should create the document skeleton for a single contract', () => {
+    const document = createAsyncApiDocument(userContract);
+    expect(document.asyncapi).toBe('3.0.0');
+    expect(document.info).toEqual({ title: '#/test/user', version: '1.0.0' });
+    expect(Object.keys(document.channels).sort()).toEqual([
+      'com.user.create',
+      'evt.user.created',
+      'evt.user.notified',
+      'sys.com.user.create.error',
+    ]);
+    expect(document.channels['com.user.create'].address).toBe('com.user.create');
+    expect(Object.keys(document.channels['com.user.create'].messages)).toEqual([
+      'com.user.create-__test_user-1.0.0',
+      'com.user.create-__test_user-2.0.0',
+    ]);
+    expect(document.components.schemas.ArvoCloudEventHeaders.required).toEqual(
+      expect.arrayContaining(['id', 'source', 'type', 'subject', 'dataschema', 'datacontenttype']),
+    );
+    expect(document.components.schemas.ArvoCloudEventHeaders.properties).toHaveProperty('traceparent');
+    expect(document.components.schemas.ArvoCloudEventHeaders.properties).toHaveProperty('domain');
+  });
+
+  it('should map the versioned schemas, domain and metadata onto the messages', () => {
+    const document = createAsyncApiDocument(userContract);
+    const message = document.components.messages['com.user.create-__test_user-2.0.0'];
+    expect(message.name).toBe('com.user.create');
+    expect(message.summary).toBe('Creates a user');
+    expect(message.payload).not.toHaveProperty('$schema');
+    expect(message.payload.required).toEqual(['name', 'email']);
+    expect(message.payload.properties.email.description).toBe('The user email');
+    expect(message.headers.allOf[1].properties).toEqual({
+      type: { type: 'string', const: 'com.user.create' },
+      dataschema: { type: 'string', const: '#/test/user/2.0.0' },
+    });
+    expect(message.tags).toEqual([{ name: 'domain:test.domain', description: 'The Arvo event domain' }]);
+    expect(message['x-arvo-contract']).toEqual({
+      uri: '#/test/user',
+      version: '2.0.0',
+      dataschema: '#/test/user/2.0.0',
+    });
+    expect(message['x-arvo-metadata']).toEqual({ owner: 'identity-team' });
+
+    const errorMessage = document.components.messages['sys.com.user.create.error-__test_user-0.0.0'];
+    expect(errorMessage.headers.allOf[1].properties.dataschema.const).toBe('#/test/user/0.0.0');
+    expect(errorMessage.payload.required).toEqual(expect.arrayContaining(['errorName', 'errorMessage']));
+  });
+
+  it('should create the receive and send operations of each contract', () => {
+    const document = createAsyncApiDocument([userContract, orderContract], { title: 'Services', version: '3.1.0' });
+    expect(document.info).toEqual({ title: 'Services', version: '3.1.0' });
+
+    const receive = document.operations['__test_user-receive-com.user.create'];
+    expect(receive.action).toBe('receive');
+    expect(receive.channel).toEqual({ $ref: '#/channels/com.user.create' });
+    expect(receive.messages).toEqual([
+      { $ref: '#/channels/com.user.create/messages/com.user.create-__test_user-1.0.0' },
+      { $ref: '#/channels/com.user.create/messages/com.user.create-__test_user-2.0.0' },
+    ]);
+    expect(document.operations['__test_user-send-evt.user.notified'].messages).toHaveLength(1);
+    expect(document.operations['__test_user-send-sys.com.user.create.error'].action).toBe('send');
+    expect(document.operations['__test_order-send-sys.com.order.create.error']).toBeTruthy();
+
+    // Shared emit types are merged into a single channel
+    expect(Object.keys(document.channels['evt.user.created'].messages)).toEqual([
+      'evt.user.created-__test_user-1.0.0',
+      'evt.user.created-__test_user-2.0.0',
+      'evt.user.created-__test_order-1.0.0',
+    ]);
+  });
+
+  it('should only produce resolvable local references', () => {
+    const document = createAsyncApiDocument([userContract, orderContract]);
+    const serialised = JSON.stringify(document);
+    const refs = Array.from(serialised.matchAll(/"\$ref":"#\/([^"]+)"/g)).map((match) => match[1]);
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const resolved = ref.split('/').reduce<any>((acc, key) => acc?.[key], document);
+      expect(resolved).toBeTruthy();
+    }
+  });
+
+  it('should not overwrite the components whose keys collide', () => {
+    const create = (uri: string, type: string) =>
+      createArvoContract({
+        uri,
+        type,
+        versions: { '1.0.0': { accepts: z.object({ name: z.string() }), emits: { 'evt.shared.done': z.object({}) } } },
+      });
+    const document = createAsyncApiDocument([create('#/a/b', 'com.a.one'), create('#/a_b', 'com.a.two')]);
+    expect(Object.keys(document.channels['evt.shared.done'].messages)).toEqual([
+      'evt.shared.done-__a_b-1.0.0',
+      'evt.shared.done-__a_b-1.0.0_2',
+    ]);
+    expect(Object.keys(document.operations)).toEqual([
+      '__a_b-receive-com.a.one',
+      '__a_b-send-evt.shared.done',
+      '__a_b-send-sys.com.a.one.error',
+      '__a_b-receive-com.a.two',
+      '__a_b-send-evt.shared.done_2',
+      '__a_b-send-sys.com.a.two.error',
+    ]);
+    expect(document.operations['__a_b-send-evt.shared.done_2']['x-arvo-contract']).toEqual({ uri: '#/a_b' });
+    const messages = Object.values(document.components.messages).map(
+      (message) => (message['x-arvo-contract'] as { uri: string }).uri,
+    );
+    expect(messages.filter((uri) => uri === '#/a/b')).toHaveLength(3);
+    expect(messages.filter((uri) => uri === '#/a_b')).toHaveLength(3);
+  });
+
+  it('should throw for an empty or duplicated contract list', () => {
+    expect(() => createAsyncApiDocument([])).toThrow('At least one ArvoContract is required');
+    expect(() => createAsyncApiDocument([userContract, userContract])).toThrow(
+      'The contract (uri=#/test/user) is provided more than once',
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { checkArvoContractCompatibility, createArvoContract } from '../../src';
+
+describe('ArvoContract compatibility', () => {
+  const contract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({
+          name: z.string(),
+          nickname: z.string().optional(),
+          age: z.number().min(0),
+          role: z.enum(['admin', 'user']),
+          tags: z.array(z.string()),
+        }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string() }),
+          'evt.user.failed': z.object({ reason: z.string() }),
+        },
+      },
+      '1.1.0': {
+        accepts: z.object({
+          name: z.string(),
+          nickname: z.string().optional(),
+          age: z.number().min(0),
+          role: z.enum(['admin', 'user']),
+          tags: z.array(z.string()),
+          email: z.string().optional(),
+        }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string() }),
+          'evt.user.failed': z.object({ reason: z.string() }),
+        },
+      },
+      '1.2.0': {
+        accepts: z.object({
+          name: z.string(),
+          nickname: z.string(),
+          age: z.number().min(18),
+          role: z.enum(['admin']),
+          tags: z.array(z.number()),
+          email: z.string().optional(),
+        }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string(), createdAt: z.string() }),
+          'evt.user.updated': z.object({ id: z.string() }),
+        },
+      },
+      '2.0.0': {
+        accepts: z.object({
+          name: z.string(),
+          nickname: z.string().optional(),
+          age: z.number().min(0).nullable(),
+          role: z.enum(['admin', 'user', 'guest']),
+          tags: z.array(z.string()),
+        }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string() }),
+          'evt.user.failed': z.object({ reason: z.string() }),
+        },
+      },
+    },
+  });
+
+  it('should report no changes for identical versions', () => {
+    const report = checkArvoContractCompatibility(contract.version('1.0.0'), contract.version('1.0.0'));
+    expect(report.changes).toEqual([]);
+    expect(report.compatibility).toBe('FULL');
+    expect(report.versionBump).toEqual({ actual: 'none', required: 'none', valid: true });
+  });
+
+  it('should classify an added optional field as fully compatible', () => {
+    const report = contract.checkCompatibility('1.0.0', '1.1.0');
+    expect(report.compatibility).toBe('FULL');
+    expect(report.changes).toEqual([
+      {
+        kind: 'FIELD_ADDED',
+        record: 'accepts',
+        eventType: 'com.user.create',
+        path: 'email',
+        message: "Optional field 'email' was added",
+        backward: true,
+        forward: true,
+      },
+    ]);
+    expect(report.versionBump).toEqual({ actual: 'minor', required: 'minor', valid: true });
+  });
+
+  it('should detect breaking changes and require a major bump', () => {
+    const report = contract.checkCompatibility('1.1.0', '1.2.0');
+    expect(report.compatibility).toBe('NONE');
+    const kinds = report.changes.map((item) => `${item.record}:${item.eventType}:${item.path}:${item.kind}`);
+    expect(kinds).toEqual(
+      expect.arrayContaining([
+        'accepts:com.user.create:nickname:FIELD_MADE_REQUIRED',
+        'accepts:com.user.create:age:TYPE_NARROWED',
+        'accepts:com.user.create:role:ENUM_VALUES_REMOVED',
+        'accepts:com.user.create:tags.[]:TYPE_CHANGED',
+        'emits:evt.user.created:createdAt:REQUIRED_FIELD_ADDED',
+        'emits:evt.user.failed::EMIT_TYPE_REMOVED',
+        'emits:evt.user.updated::EMIT_TYPE_ADDED',
+      ]),
+    );
+    expect(report.changes.find((item) => item.path === 'age')?.message).toBe(
+      "Constraint 'min' of 'age' changed from 0 to 18",
+    );
+    expect(report.versionBump).toEqual({ actual: 'minor', required: 'major', valid: false });
+  });
+
+  it('should classify widening changes as backward compatible', () => {
+    const report = contract.checkCompatibility('1.0.0', '2.0.0');
+    expect(report.compatibility).toBe('BACKWARD');
+    expect(report.changes.map((item) => item.kind)).toEqual(['TYPE_WIDENED', 'ENUM_VALUES_ADDED']);
+    expect(report.versionBump.required).toBe('major');
+    expect(contract.checkCompatibility('1.0.0', '2.0.0', 'BACKWARD').versionBump).toEqual({
+      actual: 'major',
+      required: 'minor',
+      valid: true,
+    });
+  });
+
+  it('should classify narrowing changes as forward compatible', () => {
+    const report = contract.checkCompatibility('2.0.0', '1.0.0');
+    expect(report.compatibility).toBe('FORWARD');
+    expect(report.versionBump.actual).toBe('downgrade');
+    expect(report.versionBump.valid).toBe(false);
+  });
+
+  it('should compare two contracts with the same uri', () => {
+    const other = createArvoContract({
+      uri: '#/test/user',
+      type: 'com.user.register',
+      versions: {
+        '3.0.0': {
+          accepts: z.object({ name: z.string() }),
+          emits: {},
+        },
+      },
+    });
+    const report = checkArvoContractCompatibility(contract.version('2.0.0'), other.version('3.0.0'));
+    expect(report.changes[0].kind).toBe('ACCEPT_TYPE_CHANGED');
+    expect(report.compatibility).toBe('NONE');
+  });
+
+  it('should detect nested, union, literal and any changes', () => {
+    const nested = createArvoContract({
+      uri: '#/test/nested',
+      type: 'com.nested.test',
+      versions: {
+        '1.0.0': {
+          accepts: z.object({
+            address: z.object({ city: z.string(), zip: z.string() }),
+            value: z.union([z.string(), z.number()]),
+            mode: z.string(),
+            meta: z.record(z.string()),
+            payload: z.string(),
+          }),
+          emits: {},
+        },
+        '1.0.1': {
+          accepts: z.object({
+            address: z.object({ city: z.string() }),
+            value: z.union([z.string(), z.number(), z.boolean()]),
+            mode: z.literal('fast'),
+            meta: z.record(z.number()),
+            payload: z.any(),
+          }),
+          emits: {},
+        },
+      },
+    });
+    const report = nested.checkCompatibility('1.0.0', '1.0.1');
+    expect(report.changes.map((item) => `${item.path}:${item.kind}`)).toEqual([
+      'address.zip:REQUIRED_FIELD_REMOVED',
+      'value:TYPE_WIDENED',
+      'mode:TYPE_NARROWED',
+      'meta.*:TYPE_CHANGED',
+      'payload:TYPE_WIDENED',
+    ]);
+  });
+
+  it('should throw for contracts with different uris', () => {
+    const other = createArvoContract({
+      uri: '#/test/other',
+      type: 'com.user.create',
+      versions: { '1.0.0': { accepts: z.object({}), emits: {} } },
+    });
+    expect(() => checkArvoContractCompatibility(contract.version('1.0.0'), other.version('1.0.0'))).toThrow(
+      'Cannot check the compatibility of contracts with different uris',
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import { createArvoContract, createArvoContractHtml, createArvoContractMarkdown } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoContract documentation', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const orderContract = createArvoContract({
+    uri: '#/test/docs/order',
+    type: 'com.test.order.create',
+    description: 'Creates an order',
+    domain: 'commerce',
+    metadata: { owner: 'orders-team' },
+    versions: {
+      '1.0.0': {
+        accepts: z.object({
+          customer: z.string().email().describe('The customer email'),
+          items: z
+            .array(z.object({ sku: z.string().min(1), quantity: z.number().int().min(1).default(1) }))
+            .describe('The ordered items'),
+        }),
+        emits: {
+          'evt.test.order.created': z.object({ id: z.string().uuid(), status: z.enum(['pending', 'paid']) }),
+        },
+        lifecycle: { deprecated: true, sunset: '2030-01-01', replacement: '2.0.0', reason: 'Use the v2 | items' },
+      },
+      '2.0.0': {
+        accepts: z.object({
+          customer: z.string().email().describe('The customer email'),
+          items: z.array(z.object({ sku: z.string().min(1), quantity: z.number().int().min(1).default(1) })),
+          coupon: z.string().optional(),
+        }),
+        emits: {
+          'evt.test.order.created': z.object({ id: z.string().uuid(), status: z.enum(['pending', 'paid', 'shipped']) }),
+          'evt.test.order.rejected': z.object({ reason: z.string() }),
+        },
+      },
+    },
+  });
+
+  const userContract = createArvoContract({
+    uri: '#/test/docs/user',
+    type: 'com.test.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.string().describe('The user email'),
+        emits: {},
+      },
+    },
+  });
+
+  it('should document every version with the field tables', () => {
+    const markdown = createArvoContractMarkdown(orderContract);
+    // The contract heading anchor is suffixed since the title is the contract uri as well
+    expect(
+      markdown.startsWith('# #/test/docs/order\n\n- [#/test/docs/order](#testdocsorder-1)\n\n## #/test/docs/order'),
+    ).toBe(true);
+    expect(markdown).toContain('| Domain | `commerce` |');
+    expect(markdown).toContain('"owner": "orders-team"');
+    expect(markdown).toContain('### Version 1.0.0');
+    expect(markdown).toContain('> Deprecated. Use the v2 | items\n> Sunset: 2030-01-01\n> Replacement: `2.0.0`');
+    expect(markdown).toContain('#### Accepts `com.test.order.create`\n\nDataschema: `#/test/docs/order/1.0.0`');
+    expect(markdown).toContain('| `customer` | `string (email)` | Yes |  | The customer email |');
+    expect(markdown).toContain('| `items` | `array<object>` | Yes |  | The ordered items |');
+    expect(markdown).toContain('| `items.[].quantity` | `integer` | No | `minimum: 1`, `default: 1` |  |');
+    expect(markdown).toContain('| `status` | `"pending" \\| "paid"` | Yes |  |  |');
+    expect(markdown).toContain(
+      '#### System error `sys.com.test.order.create.error`\n\nDataschema: `#/test/docs/order/0.0.0`',
+    );
+    expect(markdown).toContain('#### Emits `evt.test.order.rejected`');
+  });
+
+  it('should derive the changelog from the consecutive versions', () => {
+    const markdown = createArvoContractMarkdown(orderContract);
+    expect(markdown).toContain('### Changelog\n\n#### 1.0.0 → 2.0.0');
+    expect(markdown).toContain('Compatibility: `BACKWARD`. Version bump: `major` (required: `major`).');
+    expect(markdown).toContain('| `EMIT_TYPE_ADDED` | `evt.test.order.rejected` |');
+    expect(markdown).toContain('| `ENUM_VALUES_ADDED` | `evt.test.order.created` | `status` |');
+    expect(createArvoContractMarkdown(userContract)).not.toContain('Changelog');
+  });
+
+  it('should document a non-object data schema and several contracts', () => {
+    const markdown = createArvoContractMarkdown([orderContract, userContract], {
+      title: 'Commerce',
+      description: 'The commerce contracts',
+    });
+    expect(markdown).toContain(
+      '# Commerce\n\nThe commerce contracts\n\n- [#/test/docs/order](#testdocsorder)\n- [#/test/docs/user](#testdocsuser)',
+    );
+    expect(markdown).toContain('| `<root>` | `string` | Yes |  | The user email |');
+    expect(markdown).toContain('| Domain | — |');
+    expect(markdown).toContain('#### Emits');
+  });
+
+  it('should render the same documentation as a static HTML page', () => {
+    const html = createArvoContractHtml([orderContract, userContract]);
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Arvo contracts</title>');
+    expect(html).toContain('<li><a href="#testdocsuser">#/test/docs/user</a></li>');
+    expect(html).toContain('<h2 id="testdocsuser">#/test/docs/user</h2>');
+    expect(html).toContain('<h3 id="version-100-1">Version 1.0.0</h3>');
+    expect(html).toContain('<h4 id="accepts-comtestordercreate">Accepts <code>com.test.order.create</code></h4>');
+    expect(html).toContain('<td><code>&quot;pending&quot; | &quot;paid&quot;</code></td>');
+    expect(html).toContain('<blockquote>Deprecated. Use the v2 | items<br>Sunset: 2030-01-01');
+  });
+
+  it('should reject an empty or a duplicated contract list', () => {
+    expect(() => createArvoContractMarkdown([])).toThrow(
+      'At least one ArvoContract is required to create the contract documentation',
+    );
+    expect(() => createArvoContractHtml([orderContract, orderContract])).toThrow(
+      'The contract (uri=#/test/docs/order) is provided more than once for the contract documentation',
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import {
+  createArvoContract,
+  createArvoContractFromJsonSchema,
+  createArvoEventFactory,
+  createVersionedArvoContractFromJsonSchema,
+  jsonSchemaToZod,
+} from '../../src';
+
+describe('ArvoContract JSON schema rehydration', () => {
+  const address = z.object({ city: z.string(), zip: z.string().regex(/^\d{5}$/) });
+  const contract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    description: 'Creates a user',
+    domain: 'test.domain',
+    metadata: { owner: 'identity-team' },
+    versions: {
+      '1.0.0': {
+        accepts: z.object({
+          name: z.string().min(1).describe('The user name'),
+          email: z.string().email(),
+          age: z.number().int().gte(18).optional(),
+          role: z.enum(['admin', 'user']).default('user'),
+          tags: z.array(z.string()).max(3),
+          home: address,
+          work: address.nullable(),
+          pair: z.tuple([z.string(), z.number()]),
+          attributes: z.record(z.string(), z.number()),
+        }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string().uuid(), createdAt: z.string().datetime() }),
+        },
+      },
+      '2.0.0': {
+        accepts: z.object({ name: z.string(), kind: z.literal('person').or(z.literal(1)) }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string().uuid() }),
+        },
+      },
+    },
+  });
+
+  const json = JSON.parse(JSON.stringify(contract.toJsonSchema()));
+
+  it('should rehydrate an equivalent contract', () => {
+    const rehydrated = createArvoContractFromJsonSchema(json);
+    expect(rehydrated.uri).toBe('#/test/user');
+    expect(rehydrated.type).toBe('com.user.create');
+    expect(rehydrated.domain).toBe('test.domain');
+    expect(rehydrated.description).toBe('Creates a user');
+    expect(rehydrated.metadata).toEqual({ owner: 'identity-team' });
+    expect(rehydrated.getSortedVersionNumbers('ASC')).toEqual(['1.0.0', '2.0.0']);
+    expect(rehydrated.toJsonSchema()).toEqual(contract.toJsonSchema());
+  });
+
+  it('should validate data the same way as the original contract', () => {
+    const accepts = createArvoContractFromJsonSchema(json).version('1.0.0').accepts.schema;
+    const valid = {
+      name: 'John',
+      email: 'john@example.com',
+      tags: ['a'],
+      home: { city: 'Sydney', zip: '20000' },
+      work: null,
+      pair: ['a', 1],
+      attributes: { score: 1 },
+    };
+    expect(accepts.parse(valid)).toEqual({ ...valid, role: 'user' });
+    for (const invalid of [
+      { ...valid, name: '' },
+      { ...valid, email: 'john' },
+      { ...valid, age: 17.5 },
+      { ...valid, role: 'owner' },
+      { ...valid, tags: ['a', 'b', 'c', 'd'] },
+      { ...valid, home: { city: 'Sydney', zip: 'abc' } },
+      { ...valid, work: undefined },
+      { ...valid, pair: [1, 'a'] },
+      { ...valid, attributes: { score: 'high' } },
+    ]) {
+      expect(accepts.safeParse(invalid).success).toBe(false);
+    }
+  });
+
+  it('should create events with the rehydrated versioned contract', () => {
+    const versionedJson = JSON.parse(JSON.stringify(contract.version('2.0.0').toJsonSchema()));
+    const versionedContract = createVersionedArvoContractFromJsonSchema(versionedJson);
+    expect(versionedContract.dataschema).toBe('#/test/user/2.0.0');
+    const factory = createArvoEventFactory(versionedContract);
+    const event = factory.accepts({
+      source: 'com.test.service',
+      subject: 'test',
+      data: { name: 'John', kind: 1 },
+    });
+    expect(event.type).toBe('com.user.create');
+    expect(event.dataschema).toBe('#/test/user/2.0.0');
+    expect(() =>
+      factory.emits({
+        type: 'evt.user.created',
+        source: 'com.test.service',
+        subject: 'test',
+        data: { id: 'not-a-uuid' },
+      }),
+    ).toThrow();
+  });
+
+  it('should convert recursive references lazily', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        children: { type: 'array', items: { $ref: '#' } },
+      },
+      required: ['name', 'children'],
+    });
+    expect(schema.safeParse({ name: 'a', children: [{ name: 'b', children: [] }] }).success).toBe(true);
+    expect(schema.safeParse({ name: 'a', children: [{ name: 'b', children: [{ name: 1 }] }] }).success).toBe(false);
+  });
+
+  it('should throw for inconsistent or unsupported JSON schemas', () => {
+    expect(() =>
+      createArvoContractFromJsonSchema({
+        ...json,
+        versions: [
+          json.versions[0],
+          { ...json.versions[1], accepts: { ...json.versions[1].accepts, type: 'com.x.y' } },
+        ],
+      }),
+    ).toThrow("The accepted event type 'com.x.y' must be the same as 'com.user.create' across all versions");
+    expect(() => createArvoContractFromJsonSchema({ ...json, versions: [json.versions[0], json.versions[0]] })).toThrow(
+      'The version is defined more than once',
+    );
+    expect(() =>
+      createArvoContractFromJsonSchema({
+        ...json,
+        versions: [{ ...json.versions[0], accepts: { type: 'com.user.create', schema: { $ref: '#/definitions/x' } } }],
+      }),
+    ).toThrow('Unable to resolve the JSON schema reference (ref=#/definitions/x)');
+    expect(() => jsonSchemaToZod({ type: 'file' })).toThrow("Unsupported JSON schema type 'file'");
+  });
+});
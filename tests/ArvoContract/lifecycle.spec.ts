@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import {
+  createArvoContract,
+  createArvoContractFromJsonSchema,
+  createArvoEventFactory,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+  createManualArvoClock,
+  resetArvoProviders,
+  setArvoProviders,
+} from '../../src';
+import * as OpenTelemetry from '../../src/OpenTelemetry';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoContract version lifecycle', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resetArvoProviders();
+  });
+
+  const contract = createArvoContract({
+    uri: '#/test/lifecycle',
+    type: 'com.test.lifecycle',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string() }),
+        emits: { 'evt.test.lifecycle.success': z.object({ id: z.string() }) },
+        lifecycle: {
+          deprecated: true,
+          sunset: '2030-01-01',
+          replacement: '2.0.0',
+          reason: 'The name is split into first and last name',
+        },
+      },
+      '2.0.0': {
+        accepts: z.object({ firstName: z.string(), lastName: z.string() }),
+        emits: { 'evt.test.lifecycle.success': z.object({ id: z.string() }) },
+      },
+    },
+  });
+
+  it('should expose the lifecycle of the versions', () => {
+    expect(contract.version('1.0.0').isDeprecated).toBe(true);
+    expect(contract.version('1.0.0').lifecycle?.replacement).toBe('2.0.0');
+    expect(contract.version('1.0.0').isSunset(new Date('2029-12-31'))).toBe(false);
+    expect(contract.version('1.0.0').isSunset(new Date('2030-01-01'))).toBe(true);
+    expect(contract.version('2.0.0').isDeprecated).toBe(false);
+    expect(contract.version('2.0.0').lifecycle).toBeNull();
+    expect(contract.version('2.0.0').isSunset()).toBe(false);
+  });
+
+  it('should surface the lifecycle in the JSON schema and rehydrate it', () => {
+    const json = contract.toJsonSchema();
+    expect(json.versions[0].lifecycle).toEqual({
+      deprecated: true,
+      sunset: '2030-01-01',
+      replacement: '2.0.0',
+      reason: 'The name is split into first and last name',
+      enforceSunset: false,
+    });
+    expect(json.versions[1]).not.toHaveProperty('lifecycle');
+    expect(contract.version('2.0.0').toJsonSchema()).not.toHaveProperty('lifecycle');
+
+    const rehydrated = createArvoContractFromJsonSchema(json);
+    expect(rehydrated.version('1.0.0').isDeprecated).toBe(true);
+    expect(rehydrated.version('1.0.0').lifecycle?.sunset).toBe('2030-01-01');
+    expect(rehydrated.version('2.0.0').lifecycle).toBeNull();
+  });
+
+  it('should reject an invalid lifecycle', () => {
+    const create = (lifecycle: any) =>
+      createArvoContract({
+        uri: '#/test/lifecycle',
+        type: 'com.test.lifecycle',
+        versions: { '1.0.0': { accepts: z.object({}), emits: {}, lifecycle } },
+      });
+    expect(() => create({ deprecated: true, sunset: 'not-a-date' })).toThrow(
+      'The sunset must be a valid ISO 8601 date',
+    );
+    expect(() => create({ deprecated: true, replacement: 'latest' })).toThrow(
+      'Invalid version format of the semantic version',
+    );
+    expect(() => create({ deprecated: true, replacement: '1.0.0' })).toThrow(
+      "For contract (uri=#/test/lifecycle), the version '1.0.0' cannot be the replacement of itself.",
+    );
+    expect(() => create({ deprecated: true, replacement: '2.0.0' })).toThrow(
+      "For contract (uri=#/test/lifecycle), the replacement '2.0.0' of the version '1.0.0' is not a version of the contract.",
+    );
+  });
+
+  it('should log a warning when the factory creates events for a deprecated version', () => {
+    const log = jest.spyOn(OpenTelemetry, 'logToSpan');
+    const factory = createArvoEventFactory(contract.version('1.0.0'));
+    factory.accepts({ source: 'com.test.service', data: { name: 'John' } });
+    factory.emits({ source: 'com.test.service', type: 'evt.test.lifecycle.success', data: { id: '1' } });
+    const warnings = log.mock.calls.filter(([params]) => params.level === 'WARNING');
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0][0].message).toBe(
+      'The event (type=com.test.lifecycle) is created for the deprecated contract (uri=#/test/lifecycle, version=1.0.0). Sunset: 2030-01-01. Replacement: 2.0.0. Reason: The name is split into first and last name',
+    );
+    expect(warnings[1][0].message).toContain('The event (type=evt.test.lifecycle.success)');
+    expect(warnings[1][0]['arvo.contract.replacement']).toBe('2.0.0');
+
+    log.mockClear();
+    createArvoEventFactory(contract.version('2.0.0')).accepts({
+      source: 'com.test.service',
+      data: { firstName: 'John', lastName: 'Doe' },
+    });
+    expect(log.mock.calls.filter(([params]) => params.level === 'WARNING')).toHaveLength(0);
+  });
+
+  it('should refuse to create events after an enforced sunset', () => {
+    const sunsetContract = createArvoContract({
+      uri: '#/test/lifecycle/sunset',
+      type: 'com.test.sunset',
+      versions: {
+        '1.0.0': {
+          accepts: z.object({ name: z.string() }),
+          emits: {},
+          lifecycle: { deprecated: true, sunset: '2020-01-01', replacement: '2.0.0', enforceSunset: true },
+        },
+        '2.0.0': { accepts: z.object({ name: z.string() }), emits: {} },
+      },
+    });
+    expect(() =>
+      createArvoEventFactory(sunsetContract.version('1.0.0')).accepts({
+        source: 'com.test.service',
+        data: { name: 'John' },
+      }),
+    ).toThrow(
+      "The contract (uri=#/test/lifecycle/sunset, version=1.0.0) reached its sunset on 2020-01-01. The event (type=com.test.sunset) cannot be created. Use the version '2.0.0' instead.",
+    );
+
+    const orchestratorContract = createArvoOrchestratorContract({
+      uri: '#/test/lifecycle/orchestrator',
+      name: 'test.lifecycle',
+      versions: {
+        '1.0.0': {
+          init: z.object({ name: z.string() }),
+          complete: z.object({ id: z.string() }),
+          lifecycle: { deprecated: true, sunset: '2020-01-01', enforceSunset: true },
+        },
+      },
+    });
+    expect(orchestratorContract.version('1.0.0').toJsonSchema().lifecycle?.enforceSunset).toBe(true);
+    expect(() =>
+      createArvoOrchestratorEventFactory(orchestratorContract.version('1.0.0')).complete({
+        source: 'com.test.service',
+        subject: 'test',
+        data: { id: '1' },
+      }),
+    ).toThrow('reached its sunset on 2020-01-01');
+  });
+
+  it('should check the sunset against the injected clock', () => {
+    const sunsetContract = createArvoContract({
+      uri: '#/test/lifecycle/clock',
+      type: 'com.test.clock',
+      versions: {
+        '1.0.0': {
+          accepts: z.object({ name: z.string() }),
+          emits: {},
+          lifecycle: { deprecated: true, sunset: '2030-01-01', enforceSunset: true },
+        },
+      },
+    });
+    const versionedContract = sunsetContract.version('1.0.0');
+    const create = (clock?: ReturnType<typeof createManualArvoClock>) =>
+      createArvoEventFactory(versionedContract, clock ? { clock } : undefined).accepts({
+        source: 'com.test.service',
+        data: { name: 'John' },
+      });
+
+    expect(versionedContract.isSunset()).toBe(false);
+    expect(() => create(createManualArvoClock('2030-01-02T00:00:00Z'))).toThrow('reached its sunset on 2030-01-01');
+
+    setArvoProviders({ clock: createManualArvoClock('2030-06-01T00:00:00Z') });
+    expect(versionedContract.isSunset()).toBe(true);
+    expect(() => create()).toThrow('reached its sunset on 2030-01-01');
+    // The clock of the factory takes precedence over the global clock
+    const event = create(createManualArvoClock('2029-12-31T00:00:00Z'));
+    expect(event.time).toBe('2029-12-31T00:00:00.000+00:00');
+  });
+});
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { createArvoContract, resolveSemanticVersionRange, satisfiesSemanticVersionRange } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoContract version ranges', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const schema = z.object({ name: z.string() });
+  const contract = createArvoContract({
+    uri: '#/test/range',
+    type: 'com.test.range',
+    versions: {
+      '0.1.0': { accepts: schema, emits: {} },
+      '0.1.5': { accepts: schema, emits: {} },
+      '1.0.0': { accepts: schema, emits: {} },
+      '1.2.0': { accepts: schema, emits: {} },
+      '1.2.7': { accepts: schema, emits: {} },
+      '2.3.0': { accepts: z.object({ name: z.string(), email: z.string() }), emits: {} },
+      '3.0.0': { accepts: schema, emits: {} },
+    },
+  });
+
+  it.each([
+    ['^1.0.0', '1.2.7'],
+    ['^1.2.1', '1.2.7'],
+    ['^0.1.0', '0.1.5'],
+    ['~1.2.0', '1.2.7'],
+    ['~1', '1.2.7'],
+    ['>=2.3.0', '3.0.0'],
+    ['>= 2.3.0 <3.0.0', '2.3.0'],
+    ['<1.0.0', '0.1.5'],
+    ['<=1.2', '1.2.7'],
+    ['>1.2.7', '3.0.0'],
+    ['>1', '3.0.0'],
+    ['1.x', '1.2.7'],
+    ['1.2.x', '1.2.7'],
+    ['1.2', '1.2.7'],
+    ['0', '0.1.5'],
+    ['*', '3.0.0'],
+    ['=1.0.0', '1.0.0'],
+    ['^0.1.0 || ^1.0.0', '1.2.7'],
+    ['<1.0.0 || 2.x', '2.3.0'],
+  ] as const)('should resolve %s to %s', (range, expected) => {
+    expect(contract.version(range).version).toBe(expected);
+  });
+
+  it('should type the resolved contract with the contract versions', () => {
+    const versioned = contract.version('^2.0.0');
+    const version: '0.1.0' | '0.1.5' | '1.0.0' | '1.2.0' | '1.2.7' | '2.3.0' | '3.0.0' = versioned.version;
+    expect(version).toBe('2.3.0');
+    expect(versioned.accepts.schema.safeParse({ name: 'John', email: 'john@example.com' }).success).toBe(true);
+    expect(contract.version('1.2.0').version).toBe('1.2.0');
+  });
+
+  it('should throw when no version is within the range', () => {
+    expect(() => contract.version('^4.0.0')).toThrow(
+      "The contract (uri=#/test/range) does not have a version within the range '^4.0.0'. Available versions: [0.1.0, 0.1.5, 1.0.0, 1.2.0, 1.2.7, 2.3.0, 3.0.0]",
+    );
+    expect(() => contract.version('>1.2.7 <2.0.0')).toThrow('does not have a version within the range');
+    expect(() => contract.version('^1.a.0' as '^1.0.0')).toThrow(
+      "Invalid semantic version range '^1.a.0' -> Invalid semantic version comparator '^1.a.0'",
+    );
+    expect(() => contract.version('4.0.0' as '1.0.0')).toThrow(
+      'The contract (uri=#/test/range) does not have version=4.0.0',
+    );
+  });
+
+  it('should check the versions against the ranges', () => {
+    expect(satisfiesSemanticVersionRange('0.0.3', '^0.0.3')).toBe(true);
+    expect(satisfiesSemanticVersionRange('0.0.4', '^0.0.3')).toBe(false);
+    expect(satisfiesSemanticVersionRange('0.2.9', '^0.2.3')).toBe(true);
+    expect(satisfiesSemanticVersionRange('0.3.0', '^0.2.3')).toBe(false);
+    expect(satisfiesSemanticVersionRange('1.9.0', '^1.x')).toBe(true);
+    expect(satisfiesSemanticVersionRange('1.3.0', '~1.2.3')).toBe(false);
+    expect(satisfiesSemanticVersionRange('1.0.0', '>*')).toBe(false);
+    expect(resolveSemanticVersionRange(['1.0.0', '1.5.0', '2.0.0'], '^1.0.0')).toBe('1.5.0');
+    expect(resolveSemanticVersionRange(['1.0.0'], '^2.0.0')).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as ts from 'typescript';
+import { z } from 'zod';
+import { createArvoContract, createArvoContractTypeDeclarations } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoContract type declarations', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  type Category = { name: string; children: Category[] };
+  const category: z.ZodType<Category> = z.lazy(() => z.object({ name: z.string(), children: z.array(category) }));
+
+  const userContract = createArvoContract({
+    uri: '#/test/types/user',
+    type: 'com.test.user.create',
+    description: 'Creates a user',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({
+          email: z.string().email().describe('The user email'),
+          role: z.enum(['admin', 'member']).default('member'),
+          nickname: z.string().optional(),
+          'home-address': z.object({ city: z.string(), zip: z.string().nullable() }),
+          labels: z.record(z.number()),
+          category,
+        }),
+        emits: {
+          'evt.test.user.created': z.object({ id: z.string().uuid(), pair: z.tuple([z.string(), z.number()]) }),
+        },
+        lifecycle: { deprecated: true, replacement: '2.0.0' },
+      },
+      '2.0.0': {
+        accepts: z.string(),
+        emits: {},
+      },
+    },
+  });
+
+  it('should declare the data and the event types of every version', () => {
+    const declarations = createArvoContractTypeDeclarations(userContract.toJsonSchema());
+    expect(declarations.startsWith('// Generated from the Arvo contract JSON schemas.')).toBe(true);
+    expect(declarations).toContain(
+      [
+        "/** The data of the event 'com.test.user.create' (dataschema=#/test/types/user/1.0.0) */",
+        'export type TestTypesUserV1_0_0AcceptsData = {',
+        '  /** The user email */',
+        '  email: string;',
+        '  role: "admin" | "member";',
+        '  nickname?: string;',
+        '  "home-address": {',
+        '    city: string;',
+        '    zip: string | null;',
+        '  };',
+        '  labels: Record<string, number>;',
+        '  category: TestTypesUserV1_0_0AcceptsDataNode;',
+        '};',
+      ].join('\n'),
+    );
+    expect(declarations).toContain(
+      'export type TestTypesUserV1_0_0AcceptsDataNode = {\n  name: string;\n  children: Array<TestTypesUserV1_0_0AcceptsDataNode>;\n};',
+    );
+    expect(declarations).toContain(
+      'export type TestTypesUserV1_0_0EvtTestUserCreatedEvent = ArvoContractEvent<"evt.test.user.created", TestTypesUserV1_0_0EvtTestUserCreatedData>;',
+    );
+    expect(declarations).toContain('export type TestTypesUserV2_0_0AcceptsData = string;');
+    expect(declarations).toContain('export type TestTypesUserV2_0_0EmitsEvent = never;');
+    expect(declarations).toContain('/** @deprecated Use the version \'2.0.0\' instead. */\n  "1.0.0": {');
+    expect(declarations).toContain(
+      'export type TestTypesUserEvent = TestTypesUserV1_0_0Event | TestTypesUserV2_0_0Event;',
+    );
+  });
+
+  it('should produce declarations which type check the consumer code', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'arvo-types-'));
+    try {
+      await writeFile(
+        join(directory, 'user.contract.d.ts'),
+        createArvoContractTypeDeclarations(userContract.toJsonSchema(), {
+          names: { [userContract.uri]: 'User' },
+          header: 'User contract\nDo not edit',
+        }),
+        'utf8',
+      );
+      await writeFile(
+        join(directory, 'consumer.ts'),
+        [
+          "import type { UserEvent, UserVersions, UserV1_0_0AcceptsData } from './user.contract';",
+          "const data: UserV1_0_0AcceptsData = { email: 'a@b.c', role: 'admin', 'home-address': { city: 'x', zip: null }, labels: {}, category: { name: 'x', children: [] } };",
+          '// @ts-expect-error The role is not part of the enum',
+          "const invalid: UserV1_0_0AcceptsData = { ...data, role: 'owner' };",
+          'export const handle = (event: UserEvent): string => {',
+          "  if (event.type === 'evt.test.user.created') return event.data.pair[0];",
+          "  if (event.type === 'sys.com.test.user.create.error') return event.data.errorMessage;",
+          "  return typeof event.data === 'string' ? event.data : event.data.email;",
+          '};',
+          "export const created: UserVersions['1.0.0']['emits']['evt.test.user.created']['data'] = { id: 'x', pair: ['a', 1] };",
+          'export { data, invalid };',
+        ].join('\n'),
+        'utf8',
+      );
+      const program = ts.createProgram([join(directory, 'consumer.ts')], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.CommonJS,
+      });
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((item) => ts.flattenDiagnosticMessageText(item.messageText, '\n'));
+      expect(diagnostics).toEqual([]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject the conflicting declaration names', () => {
+    expect(() => createArvoContractTypeDeclarations([])).toThrow(
+      'At least one ArvoContract JSON schema is required to create the type declarations',
+    );
+    const other = createArvoContract({
+      uri: '#/test/types/user/',
+      type: 'com.test.other',
+      versions: {
+        '1.0.0': {
+          accepts: z.object({}),
+          emits: { 'evt.test1a.x': z.object({}), 'evt.test.1a.x': z.object({}) },
+        },
+      },
+    });
+    expect(() => createArvoContractTypeDeclarations([userContract.toJsonSchema(), other.toJsonSchema()])).toThrow(
+      "The contracts (uri=#/test/types/user) and (uri=#/test/types/user/) resolve to the same type declaration name 'TestTypesUser'",
+    );
+    expect(() =>
+      createArvoContractTypeDeclarations(other.toJsonSchema(), { names: { [other.uri]: 'other-name' } }),
+    ).toThrow("The type declaration name 'other-name' of the contract (uri=#/test/types/user/) is not an identifier");
+    expect(() => createArvoContractTypeDeclarations(other.toJsonSchema())).toThrow(
+      "The event types 'evt.test1a.x' and 'evt.test.1a.x' of the contract (uri=#/test/types/user/, version=1.0.0) resolve to the same type name 'TestTypesUserV1_0_0EvtTest1aX'",
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { createArvoContract, createArvoEvent, createArvoEventFactory, isViolationError } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('VersionedArvoContract.validateEvent', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const contract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string(), role: z.enum(['admin', 'user']).default('user') }),
+        emits: { 'evt.user.created': z.object({ id: z.string() }) },
+      },
+      '2.0.0': {
+        accepts: z.object({ name: z.string(), email: z.string().email() }),
+        emits: { 'evt.user.created': z.object({ id: z.string() }) },
+      },
+    },
+  });
+  const versionedContract = contract.version('1.0.0');
+  const factory = createArvoEventFactory(versionedContract);
+  const base = { source: 'com.test.service', subject: 'test' };
+
+  it('should narrow a valid accepted event and apply the schema output', () => {
+    const event = createArvoEvent(
+      { ...base, type: 'com.user.create', dataschema: '#/test/user/1.0.0', data: { name: 'John' }, domain: 'test' },
+      { customfield: 'value' },
+    );
+    const result = versionedContract.validateEvent(event);
+    expect(result.success).toBe(true);
+    if (!result.success || result.record !== 'accepts') throw new Error('Unexpected validation result');
+    const role: 'admin' | 'user' = result.event.data.role;
+    expect(role).toBe('user');
+    expect(result.event.id).toBe(event.id);
+    expect(result.event.domain).toBe('test');
+    expect(result.event.extensions).toEqual({ customfield: 'value' });
+  });
+
+  it('should validate emitted and system error events', () => {
+    const emitted = factory.emits({ ...base, type: 'evt.user.created', data: { id: '1' } });
+    const emittedResult = versionedContract.validateEvent(emitted);
+    expect(emittedResult.success && emittedResult.record).toBe('emits');
+
+    const systemError = factory.systemError({ ...base, error: new Error('Failed') });
+    const systemErrorResult = versionedContract.validateEvent(systemError, ['systemError']);
+    expect(systemErrorResult.success && systemErrorResult.record).toBe('systemError');
+  });
+
+  it('should accept an event without a dataschema', () => {
+    const event = createArvoEvent({ ...base, type: 'com.user.create', data: { name: 'John', role: 'admin' } });
+    expect(versionedContract.validateEvent(event, ['accepts']).success).toBe(true);
+  });
+
+  it('should return a violation for a type which is not in the allowed records', () => {
+    const emitted = factory.emits({ ...base, type: 'evt.user.created', data: { id: '1' } });
+    const result = versionedContract.validateEvent(emitted, ['accepts']);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(isViolationError(result.error)).toBe(true);
+    expect(result.error.type).toBe('EVENT_TYPE_MISMATCH');
+    expect(result.error.metadata?.expected).toEqual(['com.user.create']);
+    expect(result.error.metadata?.event).toEqual({
+      id: emitted.id,
+      type: emitted.type,
+      dataschema: emitted.dataschema,
+    });
+  });
+
+  it('should return a violation for a mismatching dataschema', () => {
+    for (const dataschema of ['#/test/user/2.0.0', '#/test/other/1.0.0', '#/test/user/0.0.0']) {
+      const event = createArvoEvent({ ...base, type: 'com.user.create', dataschema, data: { name: 'John' } });
+      const result = versionedContract.validateEvent(event);
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.type).toBe('DATASCHEMA_MISMATCH');
+      expect(result.error.metadata?.expected).toEqual(['#/test/user/1.0.0']);
+    }
+  });
+
+  it('should return a violation with the issues for invalid data', () => {
+    const event = createArvoEvent({
+      ...base,
+      type: 'com.user.create',
+      dataschema: '#/test/user/1.0.0',
+      data: { name: 1, role: 'owner' },
+    });
+    const result = versionedContract.validateEvent(event);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.type).toBe('INVALID_DATA');
+    expect(result.error.message).toMatch(/^ViolationError<INVALID_DATA> The event \(type=com.user.create\) data/);
+    expect(result.error.metadata?.issues.map((item: { path: string }) => item.path)).toEqual(['name', 'role']);
+  });
+});
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import {
+  ArvoEvent,
+  createArvoContract,
+  createArvoContractMock,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+  generateArvoMockData,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoContractMock', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  enum Role {
+    Admin = 0,
+    User = 1,
+  }
+
+  const addressSchema = z.object({
+    street: z.string().min(3).max(40),
+    zip: z.string().regex(/^\d{5}$/),
+  });
+
+  const schema = z.object({
+    id: z.string().uuid(),
+    email: z.string().email(),
+    website: z.string().url().optional(),
+    createdAt: z.string().datetime(),
+    birthday: z.string().date(),
+    name: z.string().min(2).max(5),
+    code: z.string().length(6).startsWith('ab'),
+    age: z.number().int().min(18).max(99),
+    score: z.number().gt(0).lt(1),
+    price: z.number().multipleOf(0.5).positive(),
+    status: z.enum(['active', 'inactive']),
+    role: z.nativeEnum(Role),
+    kind: z.literal('user'),
+    nickname: z.string().nullable(),
+    tags: z.array(z.string()).min(1).max(4),
+    coordinates: z.tuple([z.number(), z.number()]),
+    address: addressSchema,
+    metadata: z.record(z.string(), z.number()),
+    contact: z.union([z.object({ phone: z.string() }), z.object({ fax: z.string() })]),
+    payment: z.discriminatedUnion('method', [
+      z.object({ method: z.literal('card'), last4: z.string().length(4) }),
+      z.object({ method: z.literal('cash') }),
+    ]),
+    audit: z.object({ by: z.string() }).and(z.object({ at: z.string().datetime() })),
+    active: z.boolean().default(true),
+    amount: z.string().transform((value) => value.length),
+  });
+
+  it('should generate valid data for a wide range of schemas', () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const data = generateArvoMockData(schema, { seed });
+      expect(schema.safeParse(data).success).toBe(true);
+    }
+  });
+
+  it('should be deterministic for a seed', () => {
+    expect(generateArvoMockData(schema, { seed: 'fixture' })).toEqual(
+      generateArvoMockData(schema, { seed: 'fixture' }),
+    );
+    expect(generateArvoMockData(schema, { seed: 1 })).not.toEqual(generateArvoMockData(schema, { seed: 2 }));
+  });
+
+  it('should respect the optional probability and the depth of recursive schemas', () => {
+    type Node = { name: string; children?: Node[] };
+    const nodeSchema: z.ZodType<Node> = z.lazy(() =>
+      z.object({ name: z.string(), children: z.array(nodeSchema).optional() }),
+    );
+    const depth = (node: Node): number => 1 + Math.max(0, ...(node.children ?? []).map(depth));
+    for (let seed = 0; seed < 20; seed++) {
+      const node = generateArvoMockData(nodeSchema, { seed, optionalProbability: 1, maxDepth: 4 });
+      expect(nodeSchema.safeParse(node).success).toBe(true);
+      expect(depth(node)).toBeLessThanOrEqual(3);
+    }
+    const optional = z.object({ a: z.string().optional(), b: z.number().nullable() });
+    expect(generateArvoMockData(optional, { optionalProbability: 0 })).toEqual({ b: null });
+  });
+
+  it('should throw when the data cannot be generated', () => {
+    expect(() => generateArvoMockData(z.object({ value: z.never() }))).toThrow(
+      "Cannot generate the mock data of the zod type 'ZodNever'",
+    );
+    expect(() =>
+      generateArvoMockData(z.string().refine((value) => value === 'impossible', 'Must be impossible')),
+    ).toThrow('Unable to generate mock data which satisfies the schema -> <root>: Must be impossible');
+  });
+
+  const contract = createArvoContract({
+    uri: '#/test/mock',
+    type: 'com.test.mock',
+    versions: {
+      '1.0.0': {
+        accepts: schema.omit({ amount: true }),
+        emits: {
+          'evt.test.mock.success': z.object({ id: z.string().uuid(), total: z.number().nonnegative() }),
+        },
+      },
+    },
+  });
+
+  it('should wrap the generated data into events of the contract', () => {
+    const mock = createArvoContractMock(contract.version('1.0.0'), { seed: 42 });
+    const event = mock.acceptsEvent();
+    expect(event).toBeInstanceOf(ArvoEvent);
+    expect(event.type).toBe('com.test.mock');
+    expect(event.source).toBe('com.arvo.mock');
+    expect(event.dataschema).toBe('#/test/mock/1.0.0');
+    expect(contract.version('1.0.0').validateEvent(event, ['accepts']).success).toBe(true);
+
+    const response = mock.emitsEvent('evt.test.mock.success', {
+      parentid: event.id,
+      data: { id: event.data.id, total: 1 },
+    });
+    expect(response.source).toBe('com.test.mock');
+    expect(response.parentid).toBe(event.id);
+    expect(response.data).toEqual({ id: event.data.id, total: 1 });
+
+    const other = createArvoContractMock(contract.version('1.0.0'), { seed: 42 });
+    expect(other.accepts()).toEqual(createArvoContractMock(contract.version('1.0.0'), { seed: 42 }).accepts());
+    expect(() => mock.emits('evt.test.unknown' as any)).toThrow(
+      "The contract (uri=#/test/mock, version=1.0.0) does not emit the event type 'evt.test.unknown'",
+    );
+  });
+
+  it('should generate root orchestration data for the orchestrator contracts', () => {
+    const orchestratorContract = createArvoOrchestratorContract({
+      uri: '#/test/mock/orchestrator',
+      name: 'test.mock',
+      versions: {
+        '1.0.0': {
+          init: z.object({ value: z.number().int() }),
+          complete: z.object({ result: z.string() }),
+        },
+      },
+    });
+    const mock = createArvoContractMock(orchestratorContract.version('1.0.0'), { seed: 7 });
+    for (let i = 0; i < 10; i++) {
+      expect(mock.accepts().parentSubject$$).toBeNull();
+    }
+    const event = createArvoOrchestratorEventFactory(orchestratorContract.version('1.0.0')).init({
+      source: 'com.test.service',
+      data: mock.accepts(),
+    });
+    expect(event.type).toBe('arvo.orc.test.mock');
+    expect(mock.emitsEvent('arvo.orc.test.mock.done').type).toBe('arvo.orc.test.mock.done');
+  });
+});
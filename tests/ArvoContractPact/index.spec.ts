@@ -0,0 +1,212 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import {
+  ArvoContractPact,
+  createArvoContract,
+  createArvoContractPact,
+  createArvoEventFactory,
+  verifyArvoContractPact,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoContractPact', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const userCreated = z.object({
+    id: z.string().uuid(),
+    email: z.string().email(),
+    name: z.string().optional(),
+  });
+
+  const producer = createArvoContract({
+    uri: '#/test/pact/user',
+    type: 'com.test.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ email: z.string().email() }),
+        emits: { 'evt.test.user.created': userCreated },
+      },
+      '1.1.0': {
+        accepts: z.object({ email: z.string().email() }),
+        emits: { 'evt.test.user.created': userCreated.extend({ plan: z.enum(['free', 'pro']).default('free') }) },
+      },
+    },
+  });
+
+  const createPact = () =>
+    createArvoContractPact({ consumer: 'com.test.billing', contract: producer.uri }).expect({
+      description: 'bills the created user',
+      type: 'evt.test.user.created',
+      version: '^1.0.0',
+      samples: [{ id: '3b241101-e2bb-4255-8caf-4136c566a962', email: 'jane@example.com' }],
+      shape: z.object({ id: z.string(), email: z.string().email() }),
+    });
+
+  it('should verify a satisfied pact against every version in the range', () => {
+    const report = verifyArvoContractPact(producer, createPact());
+    expect(report.mismatches).toEqual([]);
+    expect(report.success).toBe(true);
+    expect(report.verified).toBe(2);
+  });
+
+  it('should record the events received by the consumer', () => {
+    const event = createArvoEventFactory(producer.version('1.1.0')).emits({
+      source: 'com.test.user.create',
+      type: 'evt.test.user.created',
+      data: { id: '3b241101-e2bb-4255-8caf-4136c566a962', email: 'jane@example.com', plan: 'pro' },
+    });
+    const pact = createPact()
+      .expectEvent(event, { description: 'applies the plan' })
+      .expectEvent(event, { description: 'applies the plan' });
+    expect(pact.expectations).toHaveLength(2);
+    expect(pact.expectations[1]).toEqual({
+      description: 'applies the plan',
+      type: 'evt.test.user.created',
+      version: '1.1.0',
+      samples: [event.data, event.data],
+      shape: null,
+    });
+    expect(verifyArvoContractPact(producer, pact).success).toBe(true);
+
+    const other = createArvoContract({
+      uri: '#/test/pact/other',
+      type: 'com.test.other',
+      versions: { '1.0.0': { accepts: z.object({}), emits: {} } },
+    });
+    expect(() =>
+      pact.expectEvent(createArvoEventFactory(other.version('1.0.0')).accepts({ source: 'com.test.x', data: {} }), {
+        description: 'x',
+      }),
+    ).toThrow('does not belong to the pact contract (uri=#/test/pact/user)');
+    expect(() =>
+      pact.expect({ description: 'x', type: 'evt.test.user.created', version: '1.0.0' as any, samples: [] }),
+    ).toThrow("The pact expectation 'x' (type=evt.test.user.created) must have at least one sample or a shape");
+    expect(() => pact.expect({ description: 'x', type: 'x', version: '^one' as any, samples: [{}] })).toThrow(
+      'Invalid semantic version range',
+    );
+  });
+
+  it('should report the mismatches of a breaking producer change', () => {
+    const breaking = createArvoContract({
+      uri: '#/test/pact/user',
+      type: 'com.test.user.create',
+      versions: {
+        '1.0.0': {
+          accepts: z.object({ email: z.string().email() }),
+          emits: { 'evt.test.user.created': z.object({ id: z.number(), email: z.string().email().optional() }) },
+        },
+        '1.2.0': {
+          accepts: z.object({ email: z.string().email() }),
+          emits: { 'evt.test.user.registered': userCreated },
+        },
+      },
+    });
+    const pact = createPact().expect({
+      description: 'supports the next major',
+      type: 'evt.test.user.created',
+      version: '^2.0.0',
+      samples: [{}],
+    });
+    const report = verifyArvoContractPact(breaking, pact);
+    expect(report.success).toBe(false);
+    expect(report.mismatches.map((item) => [item.kind, item.version])).toEqual([
+      ['SAMPLE_REJECTED', '1.0.0'],
+      ['SHAPE_VIOLATED', '1.0.0'],
+      ['EVENT_TYPE_NOT_EMITTED', '1.2.0'],
+      ['VERSION_NOT_FOUND', null],
+    ]);
+    expect(report.mismatches[0].message).toBe(
+      'The sample #0 is not a valid payload of the producer -> id: Expected number, received string',
+    );
+    expect(report.mismatches[1].message).toContain(
+      'The producer may emit a payload which does not satisfy the consumer shape -> id: Expected string, received number',
+    );
+    expect(report.mismatches[3].message).toBe(
+      "The contract (uri=#/test/pact/user) has no version matching '^2.0.0'. Available versions: [1.0.0, 1.2.0]",
+    );
+  });
+
+  it('should catch the consumer reliance on an optional producer field', () => {
+    const pact = createArvoContractPact({ consumer: 'com.test.greeter', contract: producer.uri }).expect({
+      description: 'greets the user by name',
+      type: 'evt.test.user.created',
+      version: '1.0.0',
+      shape: z.object({ name: z.string() }),
+    });
+    const report = verifyArvoContractPact(producer, pact);
+    expect(report.mismatches).toHaveLength(1);
+    expect(report.mismatches[0].message).toContain('name: Required');
+    expect(() =>
+      verifyArvoContractPact(producer, createArvoContractPact({ consumer: 'com.test.x', contract: '#/test/other' })),
+    ).toThrow(
+      "The pact of the consumer 'com.test.x' is about the contract (uri=#/test/other), not (uri=#/test/pact/user)",
+    );
+  });
+
+  it('should report the producer payloads which cannot be generated without aborting', () => {
+    const refined = createArvoContract({
+      uri: '#/test/pact/user',
+      type: 'com.test.user.create',
+      versions: {
+        '1.0.0': {
+          accepts: z.object({ email: z.string().email() }),
+          emits: {
+            'evt.test.user.created': z.object({
+              id: z.string().refine((value) => value === 'an-unlikely-id', 'Unknown id'),
+              email: z.string().email(),
+            }),
+          },
+        },
+        '1.1.0': {
+          accepts: z.object({ email: z.string().email() }),
+          emits: { 'evt.test.user.created': userCreated },
+        },
+      },
+    });
+    const report = verifyArvoContractPact(refined, createPact());
+    expect(report.verified).toBe(2);
+    expect(report.mismatches.map((item) => [item.kind, item.version])).toEqual([
+      ['SAMPLE_REJECTED', '1.0.0'],
+      ['PAYLOAD_GENERATION_FAILED', '1.0.0'],
+    ]);
+    expect(report.mismatches[1].message).toBe(
+      'Unable to generate the producer payloads to check the consumer shape -> Unable to generate mock data which satisfies the schema -> id: Unknown id',
+    );
+  });
+
+  describe('pact files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'arvo-pacts-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write and read back the pact files', async () => {
+      const path = await createPact().write(directory);
+      expect(path).toBe(join(directory, 'com.test.billing--test_pact_user.pact.json'));
+      await writeFile(join(directory, 'notes.json'), '{}', 'utf8');
+
+      const pacts = await ArvoContractPact.readAll(directory, producer.uri);
+      expect(pacts).toEqual([createPact().toJSON()]);
+      expect(verifyArvoContractPact(producer, pacts[0]).success).toBe(true);
+      expect(await ArvoContractPact.readAll(directory, '#/test/other')).toEqual([]);
+
+      await writeFile(join(directory, 'invalid.pact.json'), '{}', 'utf8');
+      await expect(ArvoContractPact.read(join(directory, 'invalid.pact.json'))).rejects.toThrow(
+        'is not a supported pact file',
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import {
+  ArvoContractRegistry,
+  createArvoContract,
+  createArvoContractRegistry,
+  createArvoEvent,
+  createArvoEventFactory,
+  createArvoOrchestratorContract,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoContractRegistry', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const userContract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string() }),
+        emits: { 'evt.user.created': z.object({ id: z.string() }) },
+      },
+      '2.0.0': {
+        accepts: z.object({ name: z.string(), email: z.string() }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string() }),
+          'evt.user.notified': z.object({ id: z.string() }),
+        },
+      },
+    },
+  });
+
+  const orderContract = createArvoContract({
+    uri: '#/test/order',
+    type: 'com.order.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ userId: z.string() }),
+        emits: { 'evt.order.created': z.object({ orderId: z.string() }) },
+      },
+    },
+  });
+
+  const orchestratorContract = createArvoOrchestratorContract({
+    uri: '#/test/orchestrator',
+    name: 'test',
+    versions: {
+      '1.0.0': {
+        init: z.object({ userId: z.string() }),
+        complete: z.object({ orderId: z.string() }),
+      },
+    },
+  });
+
+  const registry = createArvoContractRegistry(userContract, orderContract, orchestratorContract);
+
+  it('should register and look up the contracts', () => {
+    expect(registry).toBeInstanceOf(ArvoContractRegistry);
+    expect(registry.size).toBe(3);
+    expect(registry.has('#/test/user')).toBe(true);
+    expect(registry.has('#/test/unknown')).toBe(false);
+    expect(registry.get('#/test/order')).toBe(orderContract);
+    expect(registry.list()).toEqual([userContract, orderContract, orchestratorContract]);
+    expect(() => registry.get('#/test/unknown' as any)).toThrow(
+      'ArvoContract with URI "#/test/unknown" not found in the registry',
+    );
+  });
+
+  it('should find the contracts by their accepted and system error event types', () => {
+    expect(registry.findByType('com.user.create')).toBe(userContract);
+    expect(registry.findByType('sys.com.order.create.error')).toBe(orderContract);
+    expect(registry.findByType(orchestratorContract.type)).toBe(orchestratorContract);
+    expect(registry.findByType('evt.user.created')).toBe(null);
+  });
+
+  it('should find the versioned contracts by their dataschema', () => {
+    expect(registry.findByDataschema('#/test/user/1.0.0')?.version).toBe('1.0.0');
+    expect(registry.findByDataschema('#/test/user/0.0.0')).toEqual({
+      ...userContract.systemError,
+      contract: userContract,
+      uri: '#/test/user',
+      version: '0.0.0',
+      dataschema: '#/test/user/0.0.0',
+    });
+    expect(registry.findByDataschema('#/test/order/0.0.0')).toMatchObject({
+      type: 'sys.com.order.create.error',
+      contract: orderContract,
+    });
+    expect(registry.findByDataschema('#/test/unknown/0.0.0')).toBe(null);
+    expect(registry.findByDataschema('#/test/user/3.0.0')).toBe(null);
+    expect(registry.findByDataschema('#/test/unknown/1.0.0')).toBe(null);
+    expect(registry.findByDataschema('invalid')).toBe(null);
+  });
+
+  it('should reject duplicated uris and accepted event types', () => {
+    expect(() => new ArvoContractRegistry([userContract, userContract])).toThrow(
+      'Duplicate contract URI found: #/test/user',
+    );
+    const duplicateType = createArvoContract({
+      uri: '#/test/user/duplicate',
+      type: 'com.user.create',
+      versions: { '1.0.0': { accepts: z.object({}), emits: {} } },
+    });
+    expect(() => new ArvoContractRegistry().register(userContract).register(duplicateType)).toThrow(
+      "The contracts (uri=#/test/user) and (uri=#/test/user/duplicate) both accept the event type 'com.user.create'",
+    );
+  });
+
+  describe('resolve', () => {
+    it('should resolve accepted and emitted events by their dataschema', () => {
+      const factory = createArvoEventFactory(userContract.version('1.0.0'));
+      const accepted = factory.accepts({ source: 'com.test.service', subject: 'test', data: { name: 'John' } });
+      expect(registry.resolve(accepted)?.dataschema).toBe('#/test/user/1.0.0');
+
+      const emitted = createArvoEventFactory(userContract.version('2.0.0')).emits({
+        type: 'evt.user.notified',
+        source: 'com.test.service',
+        subject: 'test',
+        data: { id: '1' },
+      });
+      expect(registry.resolve(emitted)?.dataschema).toBe('#/test/user/2.0.0');
+    });
+
+    it('should resolve the system error events to the system error record', () => {
+      const systemError = createArvoEventFactory(userContract.version('1.0.0')).systemError({
+        source: 'com.test.service',
+        subject: 'test',
+        error: new Error('Failed'),
+      });
+      expect(systemError.dataschema).toBe('#/test/user/0.0.0');
+      const resolved = registry.resolve(systemError);
+      expect(resolved?.version).toBe('0.0.0');
+      expect(resolved?.dataschema).toBe('#/test/user/0.0.0');
+      expect(resolved && 'contract' in resolved && resolved.contract).toBe(userContract);
+      expect(resolved && 'type' in resolved && resolved.type).toBe('sys.com.user.create.error');
+      expect(resolved && 'schema' in resolved && resolved.schema.safeParse(systemError.data).success).toBe(true);
+
+      const withoutDataschema = createArvoEvent({
+        type: 'sys.com.order.create.error',
+        source: 'com.test.service',
+        subject: 'test',
+        data: { errorName: 'Error', errorMessage: 'Failed', errorStack: null },
+      });
+      expect(registry.resolve(withoutDataschema)?.uri).toBe('#/test/order');
+      expect(registry.resolve(withoutDataschema)?.version).toBe('0.0.0');
+
+      // A system error carrying a concrete version resolves to that version
+      const versioned = createArvoEvent({
+        type: 'sys.com.order.create.error',
+        source: 'com.test.service',
+        subject: 'test',
+        dataschema: '#/test/order/1.0.0',
+        data: { errorName: 'Error', errorMessage: 'Failed', errorStack: null },
+      });
+      expect(registry.resolve(versioned)?.dataschema).toBe('#/test/order/1.0.0');
+    });
+
+    it('should not resolve events which are not defined by the contract version', () => {
+      const base = { source: 'com.test.service', subject: 'test', data: {} };
+      for (const event of [
+        createArvoEvent({ ...base, type: 'evt.user.notified', dataschema: '#/test/user/1.0.0' }),
+        createArvoEvent({ ...base, type: 'com.user.create', dataschema: '#/test/user/0.0.0' }),
+        createArvoEvent({ ...base, type: 'com.user.create', dataschema: '#/test/user/9.0.0' }),
+        createArvoEvent({ ...base, type: 'com.user.create', dataschema: '#/test/unknown/1.0.0' }),
+        createArvoEvent({ ...base, type: 'com.user.create' }),
+      ]) {
+        expect(registry.resolve(event)).toBe(null);
+      }
+    });
+  });
+});
@@ -304,4 +304,87 @@ describe('ArvoEvent', () => {
     }
     expect(error?.message?.includes('Domain must be non-empty string')).toBe(true);
   });
+
+  describe('fromJSON and safeParse', () => {
+    const event = createArvoEvent(
+      {
+        ...baseEvent,
+        parentid: 'parent-event-123',
+        domain: 'test.domain',
+        executionunits: 4,
+      },
+      { customfield: 'custom-value' },
+    );
+
+    it('should rebuild an equivalent event from its JSON representation', () => {
+      const parsed = ArvoEvent.fromJSON(JSON.parse(event.toString()));
+      expect(parsed).toBeInstanceOf(ArvoEvent);
+      expect(parsed.toJSON()).toEqual(event.toJSON());
+      expect(parsed.extensions).toEqual({ customfield: 'custom-value' });
+      expect(parsed.parentid).toBe('parent-event-123');
+      expect(parsed.domain).toBe('test.domain');
+    });
+
+    it('should default the absent optional extensions to null', () => {
+      const {
+        to,
+        accesscontrol,
+        redirectto,
+        executionunits,
+        parentid,
+        domain,
+        traceparent,
+        tracestate,
+        dataschema,
+        ...rest
+      } = event.toJSON();
+      const parsed = ArvoEvent.fromJSON({ ...rest, datacontenttype: 'application/json' });
+      expect(parsed.to).toBe(null);
+      expect(parsed.dataschema).toBe(null);
+      expect(parsed.domain).toBe(null);
+      expect(parsed.traceparent).toBe(null);
+    });
+
+    it('should return field-level issues for an invalid event', () => {
+      const result = ArvoEvent.safeParse({
+        ...event.toJSON(),
+        type: 'invalid type',
+        domain: 'INVALID',
+        executionunits: 'ten',
+        data: 'text',
+        InvalidExt: 'value',
+      });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      const paths = result.issues.map((item) => item.path);
+      expect(paths).toEqual(expect.arrayContaining(['type', 'domain', 'executionunits', 'data', 'InvalidExt']));
+      expect(result.issues.find((item) => item.path === 'data')?.message).toBe('The event data must be a JSON object');
+    });
+
+    it('should report missing required fields and the missing arvo "to" field', () => {
+      const { id, to, ...rest } = event.toJSON();
+      const result = ArvoEvent.safeParse(rest);
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.issues).toEqual(
+        expect.arrayContaining([
+          { path: 'id', message: 'Required' },
+          { path: 'to', message: "The ArvoEvent must have a non-empty 'to' field" },
+        ]),
+      );
+    });
+
+    it('should reject non-object inputs', () => {
+      for (const item of [null, 'event', 42, []]) {
+        const result = ArvoEvent.safeParse(item);
+        expect(result.success).toBe(false);
+      }
+    });
+
+    it('should throw with all the issues in fromJSON', () => {
+      expect(() => ArvoEvent.fromJSON({ ...event.toJSON(), source: '', specversion: '0.3' })).toThrow(
+        /Invalid ArvoEvent JSON -> .*source: .*specversion: /,
+      );
+    });
+  });
 });
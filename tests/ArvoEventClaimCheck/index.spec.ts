@@ -0,0 +1,210 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import {
+  ArvoEvent,
+  ArvoEventClaimCheck,
+  ArvoEventHttp,
+  ArvoEventKafka,
+  FileSystemArvoEventBlobStore,
+  InMemoryArvoEventBlobStore,
+  createArvoContract,
+  createArvoEventFactory,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoEventClaimCheck', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const contract = createArvoContract({
+    uri: '#/test/document',
+    type: 'com.document.index',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string(), content: z.string() }),
+        emits: {},
+      },
+    },
+  });
+  const versionedContract = contract.version('1.0.0');
+  const factory = createArvoEventFactory(versionedContract);
+  const createEvent = (content: string) =>
+    factory.accepts({ source: 'com.test.service', subject: 'test', data: { name: 'doc', content } });
+
+  it('should offload the data above the threshold and rehydrate it', async () => {
+    const store = new InMemoryArvoEventBlobStore();
+    const claimCheck = new ArvoEventClaimCheck({ store, threshold: 1024 });
+    const event = createEvent('x'.repeat(2048));
+
+    const offloaded = await claimCheck.offload(event);
+    expect(ArvoEventClaimCheck.isOffloaded(offloaded)).toBe(true);
+    expect(offloaded.data).toEqual({});
+    expect(offloaded.extensions).toEqual({ dataref: expect.stringMatching(/^memory:\/\//) });
+    expect(offloaded.dataschema).toBe(event.dataschema);
+    expect(offloaded.id).toBe(event.id);
+    expect(offloaded.toString().length).toBeLessThan(1024);
+    expect(store.size).toBe(1);
+    const validation = versionedContract.validateEvent(offloaded);
+    expect(validation.success).toBe(false);
+    if (!validation.success) {
+      expect(validation.error.type).toBe('DATA_OFFLOADED');
+      expect(validation.error.message).toContain('must be rehydrated');
+    }
+
+    const received = ArvoEvent.fromJSON(JSON.parse(offloaded.toString()));
+    const rehydrated = await claimCheck.rehydrate(received);
+    expect(ArvoEventClaimCheck.isOffloaded(rehydrated)).toBe(false);
+    expect(rehydrated.toJSON()).toEqual(event.toJSON());
+    expect(versionedContract.validateEvent(rehydrated).success).toBe(true);
+  });
+
+  it('should keep the events below the threshold as is', async () => {
+    const store = new InMemoryArvoEventBlobStore();
+    const claimCheck = new ArvoEventClaimCheck({ store, threshold: 1024 });
+    const event = createEvent('small');
+    expect(await claimCheck.offload(event)).toBe(event);
+    expect(await claimCheck.rehydrate(event)).toBe(event);
+    expect(store.size).toBe(0);
+
+    const offloaded = await new ArvoEventClaimCheck({ store, threshold: 0 }).offload(event);
+    expect(await claimCheck.offload(offloaded)).toBe(offloaded);
+    expect(store.size).toBe(1);
+  });
+
+  it('should fail to rehydrate a missing blob', async () => {
+    const store = new InMemoryArvoEventBlobStore();
+    const claimCheck = new ArvoEventClaimCheck({ store, threshold: 0 });
+    const offloaded = await claimCheck.offload(createEvent('content'));
+    const dataref = offloaded.extensions.dataref as string;
+    await store.delete(dataref);
+    await expect(claimCheck.rehydrate(offloaded)).rejects.toThrow(
+      `does not exist in the blob store (dataref=${dataref})`,
+    );
+    expect(() => new ArvoEventClaimCheck({ store, threshold: -1 })).toThrow('Invalid claim-check threshold (=-1)');
+  });
+
+  it('should fail to rehydrate a blob which is not a valid data object', async () => {
+    const store = new InMemoryArvoEventBlobStore();
+    const claimCheck = new ArvoEventClaimCheck({ store, threshold: 0 });
+    const offloaded = await claimCheck.offload(createEvent('content'));
+    const dataref = await store.put('{ not json');
+    const corrupted = ArvoEvent.fromJSON({ ...offloaded.toJSON(), dataref });
+    await expect(claimCheck.rehydrate(corrupted)).rejects.toThrow(
+      `Unable to rehydrate the event (id=${offloaded.id}, type=${offloaded.type}) as its data (dataref=${dataref}) is not a valid data object`,
+    );
+  });
+
+  it('should offload the exported events and rehydrate the imported events via the options', async () => {
+    const store = new InMemoryArvoEventBlobStore();
+    const options = { claimCheck: new ArvoEventClaimCheck({ store, threshold: 1024 }) };
+    const event = createEvent('x'.repeat(2048));
+
+    const messages = [
+      await ArvoEventHttp.exportToBinary(event, options),
+      await ArvoEventHttp.exportToStructured(event, options),
+    ];
+    const records = [
+      await ArvoEventKafka.exportToBinary(event, undefined, options),
+      await ArvoEventKafka.exportToStructured(event, () => 'key', options),
+    ];
+    expect(store.size).toBe(4);
+    expect(records[1].key).toBe('key');
+    for (const message of [
+      ...messages.map((item) => JSON.stringify(item.data)),
+      ...records.map((item) => item.value),
+    ]) {
+      expect(message.length).toBeLessThan(1024);
+    }
+
+    const received = [
+      await ArvoEventHttp.importFromBinary(messages[0], options),
+      await ArvoEventHttp.importFromStructured(messages[1], options),
+      await ArvoEventHttp.import(messages[0], options),
+      await ArvoEventKafka.importFromBinary(records[0], options),
+      await ArvoEventKafka.importFromStructured(records[1], options),
+      await ArvoEventKafka.import(records[1], options),
+      await ArvoEvent.fromJSON(JSON.parse(records[1].value), options),
+    ];
+    for (const item of received) {
+      expect(ArvoEventClaimCheck.isOffloaded(item)).toBe(false);
+      expect(item.toJSON()).toEqual(event.toJSON());
+      expect(versionedContract.validateEvent(item).success).toBe(true);
+    }
+
+    // The parsing errors reject the returned promise
+    await expect(ArvoEvent.fromJSON({}, options)).rejects.toThrow('Invalid ArvoEvent JSON');
+    await expect(ArvoEventKafka.import({ value: null }, options)).rejects.toThrow();
+  });
+
+  it('should offload the created events and rehydrate the parsed events via the hooks', async () => {
+    const store = new InMemoryArvoEventBlobStore();
+    const claimCheck = new ArvoEventClaimCheck({ store, threshold: 1024 });
+    const createOffloadedEvent = claimCheck.offloading(createEvent);
+    const large = await createOffloadedEvent('x'.repeat(2048));
+    const small = await createOffloadedEvent('small');
+    expect(ArvoEventClaimCheck.isOffloaded(large)).toBe(true);
+    expect(ArvoEventClaimCheck.isOffloaded(small)).toBe(false);
+    expect(store.size).toBe(1);
+
+    const importHttp = claimCheck.rehydrating(ArvoEventHttp.import);
+    const importKafka = claimCheck.rehydrating(ArvoEventKafka.import);
+    const fromJSON = claimCheck.rehydrating(ArvoEvent.fromJSON);
+    const received = [
+      await importHttp(ArvoEventHttp.exportToBinary(large)),
+      await importHttp(ArvoEventHttp.exportToStructured(large)),
+      await importKafka(ArvoEventKafka.exportToBinary(large)),
+      await fromJSON(JSON.parse(large.toString())),
+    ];
+    for (const event of received) {
+      expect(ArvoEventClaimCheck.isOffloaded(event)).toBe(false);
+      expect(event.data).toEqual({ name: 'doc', content: 'x'.repeat(2048) });
+      expect(versionedContract.validateEvent(event).success).toBe(true);
+    }
+    expect((await importKafka(ArvoEventKafka.exportToStructured(small))).toJSON()).toEqual(small.toJSON());
+  });
+
+  describe('FileSystemArvoEventBlobStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'arvo-blobs-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should offload and rehydrate the data via the file system', async () => {
+      const store = new FileSystemArvoEventBlobStore(join(directory, 'nested'));
+      const claimCheck = new ArvoEventClaimCheck({ store, threshold: 16 });
+      const event = createEvent('some large content');
+      const offloaded = await claimCheck.offload(event);
+      const dataref = offloaded.extensions.dataref as string;
+      expect(dataref).toMatch(/^file:\/\/.*\.json$/);
+      expect(JSON.parse((await store.get(dataref)) ?? '')).toEqual(event.data);
+      expect((await claimCheck.rehydrate(offloaded)).data).toEqual(event.data);
+
+      await store.delete(dataref);
+      expect(await store.get(dataref)).toBeNull();
+    });
+
+    it('should not resolve the references outside of its directory', async () => {
+      const store = new FileSystemArvoEventBlobStore(directory);
+      expect(await store.get('file:///etc/passwd')).toBeNull();
+      expect(await store.get(`file://${directory}/../outside.json`)).toBeNull();
+      expect(await store.get('memory://something')).toBeNull();
+      // The malformed references and the references to other hosts
+      for (const ref of ['file://remote-host/blob.json', `file://${directory}/a%2Fb.json`, 'file://%']) {
+        expect(await store.get(ref)).toBeNull();
+        await expect(store.delete(ref)).resolves.toBeUndefined();
+      }
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { randomBytes } from 'node:crypto';
+import { z } from 'zod';
+import { ArvoEvent, ArvoEventEncryption, createArvoContract, createArvoEventFactory } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoEventEncryption', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const contract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string(), email: z.string().email() }),
+        emits: {},
+      },
+    },
+  });
+  const versionedContract = contract.version('1.0.0');
+  const event = createArvoEventFactory(versionedContract).accepts(
+    {
+      source: 'com.test.service',
+      subject: 'test',
+      data: { name: 'John', email: 'john@example.com' },
+    },
+    { customfield: 'value' },
+  );
+  const keys: Record<string, Uint8Array> = { k1: randomBytes(32), k2: randomBytes(16) };
+  const resolveKey = (keyId: string) => keys[keyId] ?? null;
+
+  it('should encrypt the event data into an envelope', () => {
+    const encrypted = ArvoEventEncryption.encrypt(event, { keyId: 'k1', key: keys.k1 });
+    expect(encrypted.id).toBe(event.id);
+    expect(encrypted.subject).toBe(event.subject);
+    expect(encrypted.dataschema).toBe(event.dataschema);
+    expect(encrypted.extensions).toEqual({
+      customfield: 'value',
+      encryptionalgorithm: 'aes-256-gcm',
+      encryptionkeyid: 'k1',
+    });
+    expect(Object.keys(encrypted.data).sort()).toEqual(['ciphertext', 'iv', 'tag', 'version']);
+    expect(encrypted.toString()).not.toContain('john@example.com');
+    expect(ArvoEventEncryption.isEncrypted(encrypted)).toBe(true);
+    expect(ArvoEventEncryption.isEncrypted(event)).toBe(false);
+    expect(versionedContract.validateEvent(encrypted).success).toBe(false);
+  });
+
+  it('should decrypt the event data back into a valid event', () => {
+    const encrypted = ArvoEventEncryption.encrypt(event, { keyId: 'k2', key: keys.k2, algorithm: 'aes-128-gcm' });
+    const received = ArvoEvent.fromJSON(JSON.parse(encrypted.toString()));
+    const decrypted = ArvoEventEncryption.decrypt<{ name: string; email: string }>(received, resolveKey);
+    expect(decrypted.toJSON()).toEqual(event.toJSON());
+    expect(decrypted.data.email).toBe('john@example.com');
+    const result = versionedContract.validateEvent(decrypted);
+    expect(result.success && result.record).toBe('accepts');
+  });
+
+  it('should fail to decrypt with a wrong or unknown key', () => {
+    const encrypted = ArvoEventEncryption.encrypt(event, { keyId: 'k1', key: keys.k1 });
+    expect(() => ArvoEventEncryption.decrypt(encrypted, () => randomBytes(32))).toThrow(
+      `Unable to decrypt the data of the event (id=${event.id}, type=com.user.create)`,
+    );
+    expect(() => ArvoEventEncryption.decrypt(encrypted, () => null)).toThrow(
+      'Unknown encryption key (keyId=k1, algorithm=aes-256-gcm)',
+    );
+    expect(() => ArvoEventEncryption.decrypt(event, resolveKey)).toThrow('is not encrypted');
+    expect(() => ArvoEventEncryption.encrypt(encrypted, { keyId: 'k1', key: keys.k1 })).toThrow('is already encrypted');
+  });
+
+  it('should reject the tampered events', () => {
+    const encrypted = ArvoEventEncryption.encrypt(event, { keyId: 'k1', key: keys.k1 });
+    const otherEvent = ArvoEventEncryption.encrypt(
+      createArvoEventFactory(versionedContract).accepts({
+        source: 'com.test.service',
+        subject: 'test',
+        data: { name: 'Jane', email: 'jane@example.com' },
+      }),
+      { keyId: 'k1', key: keys.k1 },
+    );
+    // The envelope of another event cannot be swapped in
+    const swapped = ArvoEvent.fromJSON({ ...encrypted.toJSON(), data: otherEvent.data });
+    expect(() => ArvoEventEncryption.decrypt(swapped, resolveKey)).toThrow('Unable to decrypt the data of the event');
+    const ciphertext = Buffer.from(encrypted.data.ciphertext, 'base64');
+    ciphertext[0] ^= 1;
+    const modified = ArvoEvent.fromJSON({
+      ...encrypted.toJSON(),
+      data: { ...encrypted.data, ciphertext: ciphertext.toString('base64') },
+    });
+    expect(() => ArvoEventEncryption.decrypt(modified, resolveKey)).toThrow('Unable to decrypt the data of the event');
+  });
+
+  it('should reject the truncated authentication tags', () => {
+    const encrypted = ArvoEventEncryption.encrypt(event, { keyId: 'k1', key: keys.k1 });
+    for (const length of [0, 4, 12, 15]) {
+      const truncated = ArvoEvent.fromJSON({
+        ...encrypted.toJSON(),
+        data: {
+          ...encrypted.data,
+          tag: Buffer.from(encrypted.data.tag, 'base64').subarray(0, length).toString('base64'),
+        },
+      });
+      expect(() => ArvoEventEncryption.decrypt(truncated, resolveKey)).toThrow(
+        `Invalid authentication tag length ${length}, expected 16 bytes`,
+      );
+    }
+  });
+});
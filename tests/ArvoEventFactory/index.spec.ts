@@ -1,10 +1,11 @@
 import { z } from 'zod';
 import {
-  type ArvoEvent,
+  ArvoEvent,
   ArvoOrchestrationSubject,
   EventDataschemaUtil,
   WildCardArvoSemanticVersion,
   createArvoContract,
+  createArvoEvent,
   createArvoEventFactory,
 } from '../../src';
 import { telemetrySdkStart, telemetrySdkStop } from '../utils';
@@ -389,4 +390,83 @@ describe('createArvoEventFactory', () => {
     expect(parsedSubject?.execution?.initiator).toBe('com.test.test');
     expect(parsedSubject?.orchestrator?.version).toBe(mockContract.version('0.0.1').version);
   });
+
+  describe('respondTo', () => {
+    const factory = createArvoEventFactory(mockContract.version('0.0.1'));
+    const incoming = createArvoEvent({
+      type: 'test.input.0',
+      source: 'com.test.caller',
+      subject: 'test-subject',
+      data: { input: 'hello' },
+      to: 'test.input.0',
+      redirectto: 'com.test.redirect',
+      accesscontrol: 'role:admin',
+      domain: 'test.domain',
+      traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+      tracestate: 'vendor=value',
+    });
+
+    it('should derive the emitted event fields from the incoming event', () => {
+      const event = factory.respondTo(incoming).emits({
+        type: 'test.output.0',
+        data: { output: 1 },
+      });
+      expect(event.type).toBe('test.output.0');
+      expect(event.source).toBe('test.input.0');
+      expect(event.subject).toBe('test-subject');
+      expect(event.parentid).toBe(incoming.id);
+      expect(event.to).toBe('com.test.redirect');
+      expect(event.accesscontrol).toBe('role:admin');
+      expect(event.domain).toBe('test.domain');
+      expect(event.dataschema).toBe(EventDataschemaUtil.create(mockContract.version('0.0.1')));
+      expect(event.traceparent).toBe(incoming.traceparent);
+      expect(event.tracestate).toBe(incoming.tracestate);
+    });
+
+    it('should route the emitted event to the incoming source without redirectto', () => {
+      const event = factory.respondTo(ArvoEvent.fromJSON({ ...incoming.toJSON(), redirectto: null })).emits({
+        type: 'test.output.1',
+        data: { message: 'done' },
+      });
+      expect(event.to).toBe('com.test.caller');
+    });
+
+    it('should route the system error to the incoming source', () => {
+      const event = factory.respondTo(incoming).systemError({ error: new Error('Failed') });
+      expect(event.type).toBe(mockContract.systemError.type);
+      expect(event.to).toBe('com.test.caller');
+      expect(event.redirectto).toBe(null);
+      expect(event.parentid).toBe(incoming.id);
+      expect(event.subject).toBe('test-subject');
+      expect(event.domain).toBe('test.domain');
+      expect(event.data.errorMessage).toBe('Failed');
+      expect(event.dataschema).toBe(`${mockContract.uri}/${WildCardArvoSemanticVersion}`);
+    });
+
+    it('should prefer the explicit overrides', () => {
+      const event = factory.respondTo(incoming).emits({
+        type: 'test.output.0',
+        source: 'com.test.override',
+        subject: 'other-subject',
+        to: 'com.test.target',
+        accesscontrol: 'role:user',
+        domain: null,
+        data: { output: 2 },
+      });
+      expect(event.source).toBe('com.test.override');
+      expect(event.subject).toBe('other-subject');
+      expect(event.to).toBe('com.test.target');
+      expect(event.accesscontrol).toBe('role:user');
+      expect(event.domain).toBe(null);
+    });
+
+    it('should validate the response data against the contract', () => {
+      expect(() =>
+        factory.respondTo(incoming).emits({
+          type: 'test.output.0',
+          data: { output: 'one' as unknown as number },
+        }),
+      ).toThrow('Emit Event data validation failed');
+    });
+  });
 });
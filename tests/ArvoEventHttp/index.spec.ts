@@ -0,0 +1,133 @@
+import { ArvoDataContentType, ArvoEvent, ArvoEventHttp, createArvoEvent } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoEventHttp', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const event = createArvoEvent(
+    {
+      source: 'com.test.producer',
+      type: 'com.test.event',
+      subject: 'test-subject',
+      data: { message: 'Hello, World!', count: 2 },
+      to: 'com.test.consumer',
+      redirectto: 'com.test.redirect',
+      accesscontrol: 'role:admin;team:core',
+      executionunits: 12,
+      parentid: 'parent-123',
+      domain: 'test.domain',
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    },
+    { customext: 'custom value' },
+  );
+
+  describe('binary mode', () => {
+    it('should export all the event attributes as ce-* headers', () => {
+      const { headers, data } = ArvoEventHttp.exportToBinary(event);
+      expect(headers['content-type']).toBe('application/json');
+      expect(headers['ce-id']).toBe(event.id);
+      expect(headers['ce-type']).toBe('com.test.event');
+      expect(headers['ce-to']).toBe('com.test.consumer');
+      expect(headers['ce-redirectto']).toBe('com.test.redirect');
+      expect(headers['ce-parentid']).toBe('parent-123');
+      expect(headers['ce-domain']).toBe('test.domain');
+      expect(headers['ce-executionunits']).toBe('12');
+      expect(headers['ce-traceparent']).toBe(event.traceparent);
+      expect(headers['ce-datacontenttype']).toBe(ArvoDataContentType);
+      expect(headers['ce-accesscontrol']).toBe('role:admin;team:core');
+      expect(headers['ce-customext']).toBe('custom%20value');
+      expect(headers['ce-tracestate']).toBeUndefined();
+      expect(headers['ce-dataschema']).toBeUndefined();
+      expect(data).toEqual({ message: 'Hello, World!', count: 2 });
+    });
+
+    it('should round trip an event through binary mode', () => {
+      const imported = ArvoEventHttp.importFromBinary(ArvoEventHttp.exportToBinary(event));
+      expect(imported).toBeInstanceOf(ArvoEvent);
+      expect(imported.toJSON()).toEqual(event.toJSON());
+    });
+
+    it('should accept case-insensitive headers, multi-value headers and a raw JSON body', () => {
+      const { headers, data } = ArvoEventHttp.exportToBinary(event);
+      const upperCased = Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [key.toUpperCase(), key === 'ce-id' ? [value] : value]),
+      );
+      const imported = ArvoEventHttp.importFromBinary({ headers: upperCased, data: JSON.stringify(data) });
+      expect(imported.id).toBe(event.id);
+      expect(imported.data).toEqual(event.data);
+    });
+
+    it('should reject an invalid content-type', () => {
+      const { headers, data } = ArvoEventHttp.exportToBinary(event);
+      expect(() =>
+        ArvoEventHttp.importFromBinary({ headers: { ...headers, 'content-type': 'text/plain' }, data }),
+      ).toThrow("Invalid content-type: 'text/plain'");
+    });
+
+    it('should reject malformed attributes', () => {
+      const { headers, data } = ArvoEventHttp.exportToBinary(event);
+      expect(() =>
+        ArvoEventHttp.importFromBinary({ headers: { ...headers, 'ce-type': 'invalid type' }, data }),
+      ).toThrow('type: Type should be prefixed with a reverse-DNS name');
+      expect(() => ArvoEventHttp.importFromBinary({ headers: { ...headers, 'ce-domain': 'Invalid' }, data })).toThrow(
+        'domain: Domain must contain only lowercase letters, numbers, and dots',
+      );
+      expect(() =>
+        ArvoEventHttp.importFromBinary({ headers: { ...headers, 'ce-executionunits': 'abc' }, data }),
+      ).toThrow("Invalid header 'ce-executionunits'");
+      const { 'ce-id': _, ...withoutId } = headers;
+      expect(() => ArvoEventHttp.importFromBinary({ headers: withoutId, data })).toThrow('id: Required');
+    });
+
+    it('should reject a body which is not a JSON object', () => {
+      const { headers } = ArvoEventHttp.exportToBinary(event);
+      expect(() => ArvoEventHttp.importFromBinary({ headers, data: '[1, 2]' })).toThrow(
+        'The HTTP body must be a JSON object',
+      );
+      expect(() => ArvoEventHttp.importFromBinary({ headers, data: '{invalid' })).toThrow(
+        'Unable to parse the HTTP body as JSON',
+      );
+    });
+  });
+
+  describe('structured mode', () => {
+    it('should export the complete event in the body', () => {
+      const { headers, data } = ArvoEventHttp.exportToStructured(event);
+      expect(headers['content-type']).toBe(ArvoDataContentType);
+      expect(data).toEqual(event.toJSON());
+    });
+
+    it('should round trip an event through structured mode', () => {
+      const { headers, data } = ArvoEventHttp.exportToStructured(event);
+      const imported = ArvoEventHttp.importFromStructured({ headers, data: JSON.stringify(data) });
+      expect(imported.toJSON()).toEqual(event.toJSON());
+      expect(imported.extensions).toEqual({ customext: 'custom value' });
+    });
+
+    it('should reject malformed events', () => {
+      const { headers, data } = ArvoEventHttp.exportToStructured(event);
+      expect(() => ArvoEventHttp.importFromStructured({ headers, data: { ...data, specversion: '0.3' } })).toThrow(
+        "specversion: Spec version must be '1.0'",
+      );
+      expect(() => ArvoEventHttp.importFromStructured({ headers, data: { ...data, data: 'text' } })).toThrow(
+        'The event data must be a JSON object',
+      );
+      expect(() =>
+        ArvoEventHttp.importFromStructured({ headers: { 'content-type': 'application/json' }, data }),
+      ).toThrow("Expected: 'application/cloudevents+json'");
+    });
+  });
+
+  describe('import', () => {
+    it('should detect the mode from the content-type', () => {
+      expect(ArvoEventHttp.import(ArvoEventHttp.exportToBinary(event)).toJSON()).toEqual(event.toJSON());
+      expect(ArvoEventHttp.import(ArvoEventHttp.exportToStructured(event)).toJSON()).toEqual(event.toJSON());
+    });
+  });
+});
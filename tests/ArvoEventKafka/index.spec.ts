@@ -0,0 +1,104 @@
+import { ArvoEventKafka, ArvoOrchestrationSubject, createArvoEvent } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoEventKafka', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const subject = ArvoOrchestrationSubject.new({
+    orchestator: 'com.test.orchestrator',
+    version: '1.0.0',
+    initiator: 'com.test.initiator',
+  });
+
+  const event = createArvoEvent(
+    {
+      source: 'com.test.producer',
+      type: 'com.test.event',
+      subject,
+      data: { message: 'Hello, World!' },
+      to: 'com.test.consumer',
+      executionunits: 3,
+      parentid: 'parent-123',
+      domain: 'test.domain',
+    },
+    { customext: 'value' },
+  );
+
+  describe('partition key', () => {
+    it('should default to the orchestration execution id', () => {
+      const record = ArvoEventKafka.exportToBinary(event);
+      expect(record.key).toBe(ArvoOrchestrationSubject.parse(subject).execution.id);
+    });
+
+    it('should fallback to the subject when it is not an orchestration subject', () => {
+      const plainEvent = createArvoEvent({
+        source: 'com.test.producer',
+        type: 'com.test.event',
+        subject: 'plain-subject',
+        data: {},
+      });
+      expect(ArvoEventKafka.exportToStructured(plainEvent).key).toBe('plain-subject');
+    });
+
+    it('should use a custom partition key strategy', () => {
+      expect(ArvoEventKafka.exportToBinary(event, (item) => item.type).key).toBe('com.test.event');
+      expect(ArvoEventKafka.exportToStructured(event, () => null).key).toBe(null);
+    });
+  });
+
+  describe('binary mode', () => {
+    it('should export the event attributes as ce_* headers', () => {
+      const record = ArvoEventKafka.exportToBinary(event);
+      expect(record.headers['content-type']).toBe('application/json');
+      expect(record.headers.ce_id).toBe(event.id);
+      expect(record.headers.ce_subject).toBe(subject);
+      expect(record.headers.ce_parentid).toBe('parent-123');
+      expect(record.headers.ce_domain).toBe('test.domain');
+      expect(record.headers.ce_executionunits).toBe('3');
+      expect(record.headers.ce_customext).toBe('value');
+      expect(record.headers.ce_redirectto).toBeUndefined();
+      expect(JSON.parse(record.value)).toEqual(event.data);
+    });
+
+    it('should round trip an event with string and buffer records', () => {
+      const record = ArvoEventKafka.exportToBinary(event);
+      expect(ArvoEventKafka.importFromBinary(record).toJSON()).toEqual(event.toJSON());
+      const buffered = ArvoEventKafka.importFromBinary({
+        key: Buffer.from(record.key ?? ''),
+        headers: Object.fromEntries(Object.entries(record.headers).map(([key, value]) => [key, Buffer.from(value)])),
+        value: Buffer.from(record.value),
+      });
+      expect(buffered.toJSON()).toEqual(event.toJSON());
+    });
+
+    it('should reject malformed records', () => {
+      const record = ArvoEventKafka.exportToBinary(event);
+      expect(() =>
+        ArvoEventKafka.importFromBinary({ ...record, headers: { ...record.headers, ce_source: '' } }),
+      ).toThrow('Unable to import ArvoEvent from the Kafka record');
+      expect(() => ArvoEventKafka.importFromBinary({ ...record, value: null })).toThrow(
+        'The Kafka record value must be a JSON object',
+      );
+      expect(() => ArvoEventKafka.importFromBinary({ ...record, headers: {} })).toThrow("Invalid content-type: ''");
+    });
+  });
+
+  describe('structured mode', () => {
+    it('should round trip an event', () => {
+      const record = ArvoEventKafka.exportToStructured(event);
+      expect(JSON.parse(record.value)).toEqual(event.toJSON());
+      expect(ArvoEventKafka.importFromStructured(record).toJSON()).toEqual(event.toJSON());
+    });
+
+    it('should detect the mode from the content-type', () => {
+      expect(ArvoEventKafka.import(ArvoEventKafka.exportToStructured(event)).id).toBe(event.id);
+      expect(ArvoEventKafka.import(ArvoEventKafka.exportToBinary(event)).id).toBe(event.id);
+    });
+  });
+});
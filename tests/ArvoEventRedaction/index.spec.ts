@@ -0,0 +1,222 @@
+import { randomBytes } from 'node:crypto';
+import { z } from 'zod';
+import {
+  ArvoEvent,
+  ArvoEventClaimCheck,
+  ArvoEventEncryption,
+  ArvoEventKafka,
+  ArvoEventSignature,
+  InMemoryArvoEventBlobStore,
+  createArvoContract,
+  createArvoEventFactory,
+  getContractSensitiveDataPaths,
+  getSensitiveDataPaths,
+  logToSpan,
+  markSensitive,
+  redactArvoEvent,
+  redactData,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoEventRedaction', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const contract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    metadata: { sensitiveFields: ['$.address.street'] },
+    versions: {
+      '1.0.0': {
+        accepts: z.object({
+          name: z.string(),
+          email: markSensitive(z.string().email(), 'The email of the user'),
+          role: markSensitive(z.enum(['admin', 'user'])).optional(),
+          address: z.object({ street: z.string(), city: z.string() }).optional(),
+          cards: z.array(z.object({ number: markSensitive(z.string()), expiry: z.string() })).default([]),
+        }),
+        emits: {
+          'evt.user.created': z.object({ id: z.string(), secrets: z.record(markSensitive(z.string())) }),
+        },
+      },
+    },
+  });
+  const versionedContract = contract.version('1.0.0');
+  const factory = createArvoEventFactory(versionedContract);
+  const data = {
+    name: 'John',
+    email: 'john@example.com',
+    address: { street: '1 Main St', city: 'Melbourne' },
+    cards: [
+      { number: '4111111111111111', expiry: '12/30' },
+      { number: '5500000000000004', expiry: '01/31' },
+    ],
+  };
+
+  it('should resolve the sensitive paths from the zod schemas and the contract metadata', () => {
+    expect(getSensitiveDataPaths(versionedContract.accepts.schema)).toEqual(['$.email', '$.role', '$.cards[*].number']);
+    expect(markSensitive(z.string(), 'The email').description).toBe('@sensitive The email');
+    expect(getContractSensitiveDataPaths(versionedContract, 'com.user.create')).toEqual([
+      '$.email',
+      '$.role',
+      '$.cards[*].number',
+      '$.address.street',
+    ]);
+    expect(getContractSensitiveDataPaths(versionedContract, 'evt.user.created')).toEqual([
+      '$.secrets[*]',
+      '$.address.street',
+    ]);
+  });
+
+  it('should redact the data at the JSON paths without mutating it', () => {
+    const redacted = redactData(data, ['$.email', '$.cards[*].number', "$['address'].city", '$.missing.field']);
+    expect(redacted).toEqual({
+      name: 'John',
+      email: '[REDACTED]',
+      address: { street: '1 Main St', city: '[REDACTED]' },
+      cards: [
+        { number: '[REDACTED]', expiry: '12/30' },
+        { number: '[REDACTED]', expiry: '01/31' },
+      ],
+    });
+    expect(data.email).toBe('john@example.com');
+    expect(redactData({ items: ['a', 'b'] }, ['$.items[1]'], '***')).toEqual({ items: ['a', '***'] });
+    expect(() => redactData(data, ['email'])).toThrow("Invalid JSON path 'email'. It must start with '$'");
+  });
+
+  it('should produce a masked copy of an event', () => {
+    const event = factory.accepts({ source: 'com.test.service', subject: 'test', data });
+    const redacted = redactArvoEvent(event, { contract: versionedContract, paths: ['$.name'] });
+    expect(redacted.id).toBe(event.id);
+    expect(redacted.data).toEqual({
+      name: '[REDACTED]',
+      email: '[REDACTED]',
+      address: { street: '[REDACTED]', city: 'Melbourne' },
+      cards: [
+        { number: '[REDACTED]', expiry: '12/30' },
+        { number: '[REDACTED]', expiry: '01/31' },
+      ],
+    });
+    expect(redacted.toString()).not.toContain('john@example.com');
+    expect(event.data.email).toBe('john@example.com');
+    expect(redactArvoEvent(event).data.email).toBe('[REDACTED]');
+    const plain = ArvoEvent.fromJSON(event.toJSON());
+    expect(redactArvoEvent(plain)).toBe(plain);
+
+    const emitted = factory.emits({
+      source: 'com.test.service',
+      subject: 'test',
+      type: 'evt.user.created',
+      data: { id: '1', secrets: { token: 'abc', key: 'def' } },
+    });
+    expect(redactArvoEvent(emitted, { contract: versionedContract }).data).toEqual({
+      id: '1',
+      secrets: { token: '[REDACTED]', key: '[REDACTED]' },
+    });
+  });
+
+  it('should mask the sensitive fields in the string representation of the created events', () => {
+    const event = factory.accepts({ source: 'com.test.service', subject: 'test', data });
+    expect(event.sensitiveDataPaths).toEqual(['$.email', '$.role', '$.cards[*].number', '$.address.street']);
+    const printed = JSON.parse(event.toString(2));
+    expect(printed.id).toBe(event.id);
+    expect(printed.data).toEqual({
+      name: 'John',
+      email: '[REDACTED]',
+      address: { street: '[REDACTED]', city: 'Melbourne' },
+      cards: [
+        { number: '[REDACTED]', expiry: '12/30' },
+        { number: '[REDACTED]', expiry: '01/31' },
+      ],
+    });
+    expect(event.data.email).toBe('john@example.com');
+    expect(JSON.stringify(event.toJSON())).toContain('john@example.com');
+    // The transports carry the complete data
+    expect(ArvoEventKafka.import(ArvoEventKafka.exportToStructured(event)).data).toEqual(event.data);
+  });
+
+  it('should keep masking the sensitive fields when the event is rebuilt', async () => {
+    const event = factory.accepts({ source: 'com.test.service', subject: 'test', data });
+    const claimCheck = new ArvoEventClaimCheck({ store: new InMemoryArvoEventBlobStore(), threshold: 0 });
+    const validation = versionedContract.validateEvent(event, ['accepts']);
+    if (!validation.success || validation.record !== 'accepts') throw new Error('The event must be valid');
+    const signed = ArvoEventSignature.sign(validation.event, {
+      algorithm: 'hmac-sha256',
+      keyId: 'producer-1',
+      secret: 'shared-secret',
+    });
+    const key = randomBytes(32);
+    const decrypted = ArvoEventEncryption.decrypt(ArvoEventEncryption.encrypt(signed, { keyId: 'k1', key }), () => key);
+    const rehydrated = await claimCheck.rehydrate(await claimCheck.offload(decrypted));
+    const reparsed = ArvoEvent.fromJSON(event.toJSON(), { sensitiveDataPaths: event.sensitiveDataPaths });
+    for (const rebuilt of [validation.event, signed, decrypted, rehydrated, reparsed] as ArvoEvent[]) {
+      expect(rebuilt.sensitiveDataPaths).toEqual(event.sensitiveDataPaths);
+      expect(rebuilt.toString()).not.toContain('john@example.com');
+      expect(rebuilt.toString()).not.toContain('1 Main St');
+      expect(rebuilt.data.email).toBe('john@example.com');
+    }
+  });
+
+  it('should reject the invalid sensitive fields of the contract metadata', () => {
+    const create = (metadata: Record<string, any>) =>
+      createArvoContract({
+        uri: '#/test/invalid',
+        type: 'com.invalid.create',
+        metadata,
+        versions: { '1.0.0': { accepts: z.object({}), emits: {} } },
+      });
+    expect(() => create({ sensitiveFields: ['$.email', 'password'] })).toThrow(
+      'The sensitive fields must be valid JSON paths e.g. $.email or $.cards[*].number',
+    );
+    expect(() => create({ sensitiveFields: '$.email' })).toThrow('Expected array, received string');
+    expect(() => create({ sensitiveFields: [42] })).toThrow('Expected string, received number');
+    expect(create({ owner: 'team' }).version('1.0.0').metadata).toEqual({ owner: 'team' });
+  });
+
+  it('should not leak the sensitive values in the validation errors', () => {
+    const invalid = { ...data, role: 'superuser' as 'admin' };
+    expect(() => factory.accepts({ source: 'com.test.service', subject: 'test', data: invalid })).toThrow(
+      'Invalid sensitive value',
+    );
+    try {
+      factory.accepts({ source: 'com.test.service', subject: 'test', data: invalid });
+    } catch (e) {
+      expect((e as Error).message).not.toContain('superuser');
+    }
+
+    const event = ArvoEvent.fromJSON({
+      ...factory.accepts({ source: 'com.test.service', subject: 'test', data }).toJSON(),
+      data: invalid,
+    });
+    const result = versionedContract.validateEvent(event);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain('role: Invalid sensitive value');
+      expect(result.error.message).not.toContain('superuser');
+    }
+  });
+
+  it('should log the redacted event to the span', () => {
+    const event = factory.accepts({ source: 'com.test.service', subject: 'test', data });
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      logToSpan({ level: 'INFO', message: 'Created', event, 'custom.attribute': 'value' });
+      // The imported events carry no sensitive paths, so they are resolved from the contract
+      const received = ArvoEvent.fromJSON(event.toJSON());
+      logToSpan({ level: 'INFO', message: 'Received', event: received, redaction: { contract: versionedContract } });
+      const [created, logged] = log.mock.calls.map((call) => JSON.parse(call[0] as string));
+      expect(created['custom.attribute']).toBe('value');
+      expect(JSON.parse(created['arvo.event']).data.email).toBe('[REDACTED]');
+      expect(logged['log.message']).toBe('Received');
+      expect(JSON.parse(logged['arvo.event']).data.email).toBe('[REDACTED]');
+      expect(JSON.parse(logged['arvo.event']).data.address.street).toBe('[REDACTED]');
+    } finally {
+      log.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import { createHmac, generateKeyPairSync } from 'node:crypto';
+import { ArvoEvent, ArvoEventHttp, ArvoEventSignature, createArvoEvent } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoEventSignature', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const event = createArvoEvent(
+    {
+      source: 'com.test.producer',
+      type: 'com.test.event',
+      subject: 'test-subject',
+      data: { message: 'Hello, World!', nested: { b: 2, a: [1, { d: 4, c: 3 }] } },
+      to: 'com.test.consumer',
+      accesscontrol: 'role:admin',
+      domain: 'test.domain',
+    },
+    { customext: 'custom value' },
+  );
+
+  const hmacKey = { algorithm: 'hmac-sha256' as const, keyId: 'producer-1', secret: 'shared-secret' };
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+
+  it('should compute a canonical representation independent of the key order', () => {
+    const reordered = ArvoEvent.fromJSON({
+      ...event.toJSON(),
+      data: { nested: { a: [1, { c: 3, d: 4 }], b: 2 }, message: 'Hello, World!' },
+    });
+    expect(ArvoEventSignature.canonicalize(reordered)).toBe(ArvoEventSignature.canonicalize(event));
+    const canonical = JSON.parse(ArvoEventSignature.canonicalize(event));
+    expect(Object.keys(canonical)).toEqual([...Object.keys(canonical)].sort());
+    expect(canonical.customext).toBe('custom value');
+    expect(canonical.accesscontrol).toBe('role:admin');
+  });
+
+  it('should sign and verify the events with HMAC-SHA256', () => {
+    const signed = ArvoEventSignature.sign(event, hmacKey);
+    expect(signed.extensions.signaturekeyid).toBe('producer-1');
+    expect(signed.extensions.signaturealgorithm).toBe('hmac-sha256');
+    expect(signed.extensions.customext).toBe('custom value');
+    expect(signed.data).toEqual(event.data);
+    expect(ArvoEventSignature.isSigned(signed)).toBe(true);
+    expect(ArvoEventSignature.isSigned(event)).toBe(false);
+
+    const result = ArvoEventSignature.verify(signed, (keyId) =>
+      keyId === 'producer-1' ? { algorithm: 'hmac-sha256', secret: 'shared-secret' } : null,
+    );
+    expect(result).toEqual({ success: true, keyId: 'producer-1', algorithm: 'hmac-sha256' });
+
+    const wrongSecret = ArvoEventSignature.verify(signed, () => ({ algorithm: 'hmac-sha256', secret: 'other-secret' }));
+    expect(wrongSecret.success).toBe(false);
+  });
+
+  it('should sign and verify the events with Ed25519', () => {
+    const signed = ArvoEventSignature.sign(event, { algorithm: 'ed25519', keyId: 'producer-2', privateKey });
+    expect(ArvoEventSignature.verify(signed, () => ({ algorithm: 'ed25519', publicKey })).success).toBe(true);
+    const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    expect(ArvoEventSignature.verify(signed, () => ({ algorithm: 'ed25519', publicKey: pem })).success).toBe(true);
+    const otherKey = generateKeyPairSync('ed25519').publicKey;
+    expect(ArvoEventSignature.verify(signed, () => ({ algorithm: 'ed25519', publicKey: otherKey })).success).toBe(
+      false,
+    );
+  });
+
+  it('should reject the tampered events', () => {
+    const signed = ArvoEventSignature.sign(event, hmacKey);
+    const resolveKey = () => ({ algorithm: 'hmac-sha256' as const, secret: 'shared-secret' });
+    const tamperedData = ArvoEvent.fromJSON({ ...signed.toJSON(), data: { ...signed.data, message: 'Tampered' } });
+    const tamperedRouting = ArvoEvent.fromJSON({ ...signed.toJSON(), to: 'com.evil.consumer' });
+    const tamperedKeyId = ArvoEvent.fromJSON({ ...signed.toJSON(), signaturekeyid: 'producer-2' });
+
+    for (const item of [tamperedData, tamperedRouting, tamperedKeyId]) {
+      const result = ArvoEventSignature.verify(item, resolveKey);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('The signature does not match the event');
+      }
+    }
+  });
+
+  it('should report the unsigned events and the unknown keys', () => {
+    const unsigned = ArvoEventSignature.verify(event, () => ({ algorithm: 'hmac-sha256', secret: 'shared-secret' }));
+    expect(unsigned.success).toBe(false);
+    if (!unsigned.success) {
+      expect(unsigned.error.message).toBe(
+        `ArvoEvent signature verification failed (id=${event.id}, type=com.test.event) -> The event is not signed`,
+      );
+    }
+    const unknown = ArvoEventSignature.verify(ArvoEventSignature.sign(event, hmacKey), () => null);
+    expect(unknown.success).toBe(false);
+    if (!unknown.success) {
+      expect(unknown.error.message).toContain(
+        'Unknown or untrusted signing key (keyId=producer-1, algorithm=hmac-sha256)',
+      );
+    }
+  });
+
+  it('should reject an event which signs with the public key as the HMAC secret', () => {
+    const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const resolveKey = () => ({ algorithm: 'ed25519' as const, publicKey: pem });
+    // The attacker knows the public key and claims the HMAC algorithm
+    const unsigned = ArvoEvent.fromJSON({
+      ...event.toJSON(),
+      signaturekeyid: 'producer-2',
+      signaturealgorithm: 'hmac-sha256',
+    });
+    const forged = ArvoEvent.fromJSON({
+      ...unsigned.toJSON(),
+      signature: createHmac('sha256', pem).update(ArvoEventSignature.canonicalize(unsigned)).digest('base64url'),
+    });
+    const result = ArvoEventSignature.verify(forged, resolveKey);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain(
+        "The signature algorithm 'hmac-sha256' does not match the algorithm 'ed25519' of the key (keyId=producer-2)",
+      );
+    }
+
+    const misconfigured = ArvoEventSignature.verify(forged, () => ({ algorithm: 'hmac-sha256', secret: pem }));
+    expect(misconfigured.success).toBe(false);
+    if (!misconfigured.success) {
+      expect(misconfigured.error.message).toContain('An asymmetric key cannot be used as the HMAC secret');
+    }
+  });
+
+  it('should replace the existing signature and survive the transport round trip', () => {
+    const signed = ArvoEventSignature.sign(ArvoEventSignature.sign(event, hmacKey), {
+      algorithm: 'ed25519',
+      keyId: 'producer-2',
+      privateKey,
+    });
+    expect(signed.extensions.signaturekeyid).toBe('producer-2');
+    const received = ArvoEventHttp.importFromStructured(ArvoEventHttp.exportToStructured(signed));
+    expect(ArvoEventSignature.verify(received, () => ({ algorithm: 'ed25519', publicKey })).success).toBe(true);
+  });
+});
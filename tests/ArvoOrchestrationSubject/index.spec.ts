@@ -1,5 +1,14 @@
 import * as zlib from 'node:zlib';
-import { ArvoOrchestrationSubject, type ArvoOrchestrationSubjectContent, WildCardArvoSemanticVersion } from '../../src';
+import { z } from 'zod';
+import {
+  ArvoOrchestrationSubject,
+  type ArvoOrchestrationSubjectContent,
+  WildCardArvoSemanticVersion,
+  createArvoContract,
+  createArvoEvent,
+  createArvoEventFactory,
+  createArvoOrchestrationSubjectKeyProvider,
+} from '../../src';
 
 describe('ArvoOrchestrationSubject', () => {
   const validContent: ArvoOrchestrationSubjectContent = {
@@ -197,4 +206,298 @@ describe('ArvoOrchestrationSubject', () => {
       }).toThrow();
     });
   });
+
+  describe('lineage', () => {
+    const root = () =>
+      ArvoOrchestrationSubject.new({
+        orchestator: 'com.root.process',
+        version: '1.0.0',
+        initiator: 'com.system.init',
+      });
+
+    it('should not add a lineage to the root subjects', () => {
+      const subject = root();
+      expect(ArvoOrchestrationSubject.parse(subject).lineage).toBeUndefined();
+      expect(ArvoOrchestrationSubject.getDepth(subject)).toBe(0);
+      const ancestry = ArvoOrchestrationSubject.getAncestry(subject);
+      expect(ancestry).toEqual([
+        {
+          executionId: ArvoOrchestrationSubject.parse(subject).execution.id,
+          orchestrator: 'com.root.process',
+          version: '1.0.0',
+        },
+      ]);
+      expect(ArvoOrchestrationSubject.getRootExecution(subject)).toEqual(ancestry[0]);
+    });
+
+    it('should maintain the lineage across nested orchestrations', () => {
+      const rootSubject = root();
+      const childSubject = ArvoOrchestrationSubject.from({
+        orchestator: 'com.child.process',
+        version: '2.0.0',
+        subject: rootSubject,
+      });
+      const grandChildSubject = ArvoOrchestrationSubject.from({
+        orchestator: 'com.grandchild.process',
+        version: null,
+        subject: childSubject,
+      });
+
+      const rootContent = ArvoOrchestrationSubject.parse(rootSubject);
+      const childContent = ArvoOrchestrationSubject.parse(childSubject);
+      const grandChildContent = ArvoOrchestrationSubject.parse(grandChildSubject);
+
+      expect(grandChildContent.lineage).toEqual([
+        { executionId: rootContent.execution.id, orchestrator: 'com.root.process', version: '1.0.0' },
+        { executionId: childContent.execution.id, orchestrator: 'com.child.process', version: '2.0.0' },
+      ]);
+      expect(ArvoOrchestrationSubject.getDepth(grandChildSubject)).toBe(2);
+      expect(ArvoOrchestrationSubject.getRootExecution(grandChildSubject).executionId).toBe(rootContent.execution.id);
+      expect(ArvoOrchestrationSubject.getAncestry(grandChildSubject).map((item) => item.orchestrator)).toEqual([
+        'com.root.process',
+        'com.child.process',
+        'com.grandchild.process',
+      ]);
+    });
+
+    it('should throw when the maximum depth is exceeded', () => {
+      let subject = root();
+      for (let i = 0; i < 3; i++) {
+        subject = ArvoOrchestrationSubject.from({
+          orchestator: 'com.recursive.process',
+          version: '1.0.0',
+          subject,
+          maxDepth: 3,
+        });
+      }
+      expect(ArvoOrchestrationSubject.getDepth(subject)).toBe(3);
+      expect(() =>
+        ArvoOrchestrationSubject.from({
+          orchestator: 'com.recursive.process',
+          version: '1.0.0',
+          subject,
+          maxDepth: 3,
+        }),
+      ).toThrow('exceeds the maximum depth (3)');
+    });
+
+    it('should reject a subject with an invalid lineage', () => {
+      expect(() =>
+        ArvoOrchestrationSubject.create({
+          orchestrator: { name: 'com.child.process', version: '1.0.0' },
+          execution: { id: 'id', initiator: 'com.root.process', domain: null },
+          meta: {},
+          lineage: [{ executionId: '', orchestrator: 'com.root.process', version: '1.0.0' }],
+        }),
+      ).toThrow();
+    });
+  });
+
+  describe('encoding', () => {
+    const content = {
+      orchestrator: { name: 'com.test.orchestrator', version: '1.0.0' as const },
+      execution: { id: 'test-id', initiator: 'com.test.initiator', domain: null },
+      meta: { redirectto: 'com.test.redirect' },
+    };
+
+    afterEach(() => {
+      ArvoOrchestrationSubject.setDefaultEncoding('deflate-base64');
+    });
+
+    it('should keep the legacy deflate and base64 encoding by default', () => {
+      const subject = ArvoOrchestrationSubject.create(content);
+      expect(subject).toMatch(/^[A-Za-z0-9+/]+=*$/);
+      expect(ArvoOrchestrationSubject.getEncoding(subject)).toBe('deflate-base64');
+      expect(ArvoOrchestrationSubject.parse(subject)).toEqual(content);
+    });
+
+    it('should create and parse URL-safe subjects', () => {
+      const subject = ArvoOrchestrationSubject.create(content, { encoding: 'deflate-base64url' });
+      expect(subject).toMatch(/^v1\.deflate-base64url\.[A-Za-z0-9_-]+$/);
+      expect(ArvoOrchestrationSubject.getEncoding(subject)).toBe('deflate-base64url');
+      expect(ArvoOrchestrationSubject.parse(subject)).toEqual(content);
+    });
+
+    it('should create and parse human-readable subjects', () => {
+      const subject = ArvoOrchestrationSubject.create(content, { encoding: 'json' });
+      expect(subject).toBe(
+        "v1.json.('orchestrator':('name':'com.test.orchestrator','version':'1.0.0'),'execution':('id':'test-id','initiator':'com.test.initiator','domain':null),'meta':('redirectto':'com.test.redirect'))",
+      );
+      expect(encodeURI(subject)).toBe(subject);
+      expect(ArvoOrchestrationSubject.parse(subject)).toEqual(content);
+      expect(() => ArvoOrchestrationSubject.parse("v1.json.('orchestrator':())")).toThrow(
+        'Invalid ArvoOrchestrationContextType',
+      );
+      expect(() => ArvoOrchestrationSubject.parse('v1.json.(!x)')).toThrow(
+        "Invalid escape sequence '!x' in the readable JSON subject",
+      );
+
+      // The special characters are escaped without any URI escape
+      const special = {
+        ...content,
+        meta: { note: `it's 100% (a "b" [c]) ~ !\\ 日本 😀` },
+      };
+      const specialSubject = ArvoOrchestrationSubject.create(special, { encoding: 'json' });
+      expect(encodeURI(specialSubject)).toBe(specialSubject);
+      expect(specialSubject).not.toContain('~');
+      expect(ArvoOrchestrationSubject.parse(specialSubject)).toEqual(special);
+    });
+
+    it('should parse the human-readable subjects of the created events', () => {
+      const subject = ArvoOrchestrationSubject.create(content, { encoding: 'json' });
+      const event = createArvoEvent({ type: 'com.test.event', source: 'com.test.source', subject, data: {} });
+      expect(event.subject).toBe(subject);
+      expect(ArvoOrchestrationSubject.parse(event.subject)).toEqual(content);
+
+      ArvoOrchestrationSubject.setDefaultEncoding('json');
+      const contract = createArvoContract({
+        uri: '#/test/subject/json',
+        type: 'com.test.subject.json',
+        versions: { '1.0.0': { accepts: z.object({ name: z.string() }), emits: {} } },
+      });
+      const factoryEvent = createArvoEventFactory(contract.version('1.0.0')).accepts({
+        source: 'com.test.service',
+        data: { name: 'John' },
+      });
+      expect(ArvoOrchestrationSubject.getEncoding(factoryEvent.subject)).toBe('json');
+      expect(ArvoOrchestrationSubject.parse(factoryEvent.subject).orchestrator.name).toBe('com.test.subject.json');
+    });
+
+    it('should use the default encoding in new and from', () => {
+      ArvoOrchestrationSubject.setDefaultEncoding('json');
+      const parent = ArvoOrchestrationSubject.new({
+        orchestator: 'com.parent.process',
+        version: '1.0.0',
+        initiator: 'com.system.init',
+      });
+      expect(ArvoOrchestrationSubject.getEncoding(parent)).toBe('json');
+      const child = ArvoOrchestrationSubject.from({
+        orchestator: 'com.child.process',
+        version: '1.0.0',
+        subject: parent,
+        encoding: 'deflate-base64url',
+      });
+      expect(ArvoOrchestrationSubject.getEncoding(child)).toBe('deflate-base64url');
+      expect(ArvoOrchestrationSubject.parse(child).execution.initiator).toBe('com.parent.process');
+      expect(() => ArvoOrchestrationSubject.setDefaultEncoding('unknown')).toThrow(
+        "Unknown orchestration subject encoding 'unknown'",
+      );
+    });
+
+    it('should support custom codecs', () => {
+      ArvoOrchestrationSubject.registerCodec({
+        name: 'reversed-json',
+        encode: (json) => json.split('').reverse().join(''),
+        decode: (payload) => payload.split('').reverse().join(''),
+      });
+      const subject = ArvoOrchestrationSubject.create(content, { encoding: 'reversed-json' });
+      expect(subject.startsWith('v1.reversed-json.')).toBe(true);
+      expect(ArvoOrchestrationSubject.parse(subject)).toEqual(content);
+      expect(() =>
+        ArvoOrchestrationSubject.registerCodec({ name: 'Invalid Name', encode: String, decode: String }),
+      ).toThrow("Invalid orchestration subject codec name 'Invalid Name'");
+    });
+
+    it('should reject unknown encodings and envelope versions', () => {
+      expect(() => ArvoOrchestrationSubject.create(content, { encoding: 'unknown' })).toThrow(
+        "Unknown orchestration subject encoding 'unknown'",
+      );
+      expect(() => ArvoOrchestrationSubject.parse('v1.unknown.payload')).toThrow(
+        "Unknown orchestration subject encoding 'unknown'",
+      );
+      expect(() => ArvoOrchestrationSubject.parse(`v2.json.${JSON.stringify(content)}`)).toThrow(
+        "Unsupported orchestration subject envelope version 'v2'",
+      );
+      expect(ArvoOrchestrationSubject.isValid('v1.json.not-json')).toBe(false);
+    });
+  });
+
+  describe('signing', () => {
+    const content = {
+      orchestrator: { name: 'com.test.orchestrator', version: '1.0.0' as const },
+      execution: { id: 'test-id', initiator: 'com.test.initiator', domain: null },
+      meta: { redirectto: 'com.test.redirect' },
+    };
+    const keyProvider = createArvoOrchestrationSubjectKeyProvider({
+      keys: { k1: 'secret-1', k2: 'secret-2' },
+      signingKeyId: 'k1',
+    });
+
+    afterEach(() => {
+      ArvoOrchestrationSubject.setKeyProvider(null);
+    });
+
+    it('should sign and verify the subjects', () => {
+      const subject = ArvoOrchestrationSubject.create(content, { keyProvider });
+      expect(subject).toMatch(/~k1~[A-Za-z0-9_-]+$/);
+      expect(ArvoOrchestrationSubject.parse(subject, { keyProvider })).toEqual(content);
+      expect(ArvoOrchestrationSubject.getEncoding(subject)).toBe('deflate-base64');
+      // Without a key provider, the signature is ignored
+      expect(ArvoOrchestrationSubject.parse(subject)).toEqual(content);
+    });
+
+    it('should reject the tampered subjects', () => {
+      const subject = ArvoOrchestrationSubject.create(content, { keyProvider, encoding: 'json' });
+      const tampered = subject.replace('com.test.redirect', 'com.evil.redirect');
+      expect(ArvoOrchestrationSubject.parse(tampered).meta.redirectto).toBe('com.evil.redirect');
+      expect(() => ArvoOrchestrationSubject.parse(tampered, { keyProvider })).toThrow(
+        'Invalid orchestration subject signature (keyId=k1)',
+      );
+      const unsigned = ArvoOrchestrationSubject.create(content);
+      expect(() => ArvoOrchestrationSubject.parse(unsigned, { keyProvider })).toThrow(
+        'The orchestration subject is not signed',
+      );
+      expect(ArvoOrchestrationSubject.parse(unsigned, { keyProvider, allowUnsigned: true })).toEqual(content);
+    });
+
+    it('should support the key rotation', () => {
+      const oldSubject = ArvoOrchestrationSubject.create(content, { keyProvider });
+      const rotated = createArvoOrchestrationSubjectKeyProvider({
+        keys: { k1: 'secret-1', k2: 'secret-2' },
+        signingKeyId: 'k2',
+      });
+      const newSubject = ArvoOrchestrationSubject.create(content, { keyProvider: rotated });
+      expect(newSubject).toMatch(/~k2~[A-Za-z0-9_-]+$/);
+      expect(ArvoOrchestrationSubject.parse(oldSubject, { keyProvider: rotated })).toEqual(content);
+      expect(ArvoOrchestrationSubject.parse(newSubject, { keyProvider: rotated })).toEqual(content);
+
+      const revoked = createArvoOrchestrationSubjectKeyProvider({ keys: { k2: 'secret-2' }, signingKeyId: 'k2' });
+      expect(() => ArvoOrchestrationSubject.parse(oldSubject, { keyProvider: revoked })).toThrow(
+        'Unknown or revoked orchestration subject signing key (keyId=k1)',
+      );
+    });
+
+    it('should sign and verify with the default key provider', () => {
+      ArvoOrchestrationSubject.setKeyProvider(keyProvider);
+      const parent = ArvoOrchestrationSubject.new({
+        orchestator: 'com.parent.process',
+        version: '1.0.0',
+        initiator: 'com.system.init',
+      });
+      expect(parent).toMatch(/~k1~/);
+      const child = ArvoOrchestrationSubject.from({
+        orchestator: 'com.child.process',
+        version: '1.0.0',
+        subject: parent,
+      });
+      expect(ArvoOrchestrationSubject.isValid(child)).toBe(true);
+      expect(ArvoOrchestrationSubject.isValid(ArvoOrchestrationSubject.create(content, { keyProvider: null }))).toBe(
+        false,
+      );
+
+      ArvoOrchestrationSubject.setKeyProvider(keyProvider, { allowUnsigned: true });
+      expect(ArvoOrchestrationSubject.isValid(ArvoOrchestrationSubject.create(content, { keyProvider: null }))).toBe(
+        true,
+      );
+    });
+
+    it('should validate the key provider configuration', () => {
+      expect(() => createArvoOrchestrationSubjectKeyProvider({ keys: { k1: 'secret' }, signingKeyId: 'k2' })).toThrow(
+        'The signing key (keyId=k2) is not one of the provided keys',
+      );
+      expect(() =>
+        createArvoOrchestrationSubjectKeyProvider({ keys: { 'invalid~id': 'secret' }, signingKeyId: 'invalid~id' }),
+      ).toThrow("Invalid orchestration subject signing key id 'invalid~id'");
+    });
+  });
 });
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import {
+  ArvoOrchestrationSubject,
+  createArvoContract,
+  createArvoEvent,
+  createArvoEventFactory,
+  createArvoEventId,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+  createManualArvoClock,
+  createSeededArvoIdGenerator,
+  getArvoProviders,
+  resetArvoProviders,
+  setArvoProviders,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoProviders', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  afterEach(() => {
+    resetArvoProviders();
+  });
+
+  const contract = createArvoContract({
+    uri: '#/test/providers/user',
+    type: 'com.test.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string() }),
+        emits: { 'evt.test.user.created': z.object({ id: z.string() }) },
+      },
+    },
+  });
+
+  it('should create reproducible ids and times', () => {
+    const first = createSeededArvoIdGenerator('seed');
+    const second = createSeededArvoIdGenerator('seed');
+    const ids = [first.next(), first.next()];
+    expect(ids).toEqual([second.next(), second.next()]);
+    expect(ids[0]).not.toBe(ids[1]);
+    expect(ids[0]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(createSeededArvoIdGenerator('other').next()).not.toBe(ids[0]);
+
+    const clock = createManualArvoClock('2025-01-01T00:00:00Z', { step: 1000 });
+    expect(clock.now().toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    expect(clock.now().toISOString()).toBe('2025-01-01T00:00:01.000Z');
+    clock.advance(60_000);
+    expect(clock.now().toISOString()).toBe('2025-01-01T00:01:02.000Z');
+    clock.set('2026-01-01T00:00:00Z');
+    expect(clock.now().toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(() => createManualArvoClock('yesterday')).toThrow('The start time (=yesterday) is not a valid date');
+  });
+
+  it('should use the global providers for the events and the subjects', () => {
+    setArvoProviders({
+      clock: createManualArvoClock('2025-01-01T00:00:00Z'),
+      idGenerator: createSeededArvoIdGenerator('global'),
+    });
+    const ids = createSeededArvoIdGenerator('global');
+
+    const event = createArvoEvent({
+      type: 'com.test.event',
+      source: 'com.test.source',
+      subject: 'test',
+      data: {},
+    });
+    expect(event.id).toBe(ids.next());
+    expect(event.time).toBe('2025-01-01T00:00:00.000+00:00');
+    expect(createArvoEventId()).toBe(ids.next());
+
+    const subject = ArvoOrchestrationSubject.new({
+      orchestator: 'com.test.orchestrator',
+      version: '1.0.0',
+      initiator: 'com.test.service',
+    });
+    const executionId = ids.next();
+    expect(ArvoOrchestrationSubject.parse(subject).execution.id).toBe(executionId);
+    const child = ArvoOrchestrationSubject.from({ orchestator: 'com.test.child', version: '1.0.0', subject });
+    expect(ArvoOrchestrationSubject.parse(child).execution.id).toBe(ids.next());
+
+    // The explicitly given values and providers take precedence
+    expect(createArvoEventId(undefined, createSeededArvoIdGenerator('local'))).toBe(
+      createSeededArvoIdGenerator('local').next(),
+    );
+    expect(
+      createArvoEvent({
+        id: { deduplication: 'DEVELOPER_MANAGED', value: 'my-id' },
+        time: '2030-01-01T00:00:00.000+00:00',
+        type: 'com.test.event',
+        source: 'com.test.source',
+        subject: 'test',
+        data: {},
+      }).toJSON(),
+    ).toMatchObject({ id: 'my-id', time: '2030-01-01T00:00:00.000+00:00' });
+
+    resetArvoProviders();
+    expect(getArvoProviders().idGenerator.next()).not.toBe(createSeededArvoIdGenerator('global').next());
+  });
+
+  it('should use the providers of an event factory over the global ones', () => {
+    setArvoProviders({ clock: createManualArvoClock('2020-01-01T00:00:00Z') });
+    const createEvent = () =>
+      createArvoEventFactory(contract.version('1.0.0'), {
+        clock: createManualArvoClock('2025-06-01T12:00:00Z', { step: 1000 }),
+        idGenerator: createSeededArvoIdGenerator(42),
+      }).accepts({ source: 'com.test.service', data: { name: 'jane' } });
+
+    const first = createEvent();
+    const second = createEvent();
+    expect(first.id).toBe(second.id);
+    expect(first.subject).toBe(second.subject);
+    expect(first.time).toBe('2025-06-01T12:00:00.000+00:00');
+
+    const ids = createSeededArvoIdGenerator(42);
+    // The subject execution id is generated before the event id
+    expect(ArvoOrchestrationSubject.parse(first.subject).execution.id).toBe(ids.next());
+    expect(first.id).toBe(ids.next());
+
+    const globalClockEvent = createArvoEventFactory(contract.version('1.0.0'), {
+      idGenerator: createSeededArvoIdGenerator(42),
+    }).emits({ source: 'com.test.service', type: 'evt.test.user.created', data: { id: '1' } });
+    expect(globalClockEvent.time).toBe('2020-01-01T00:00:00.000+00:00');
+  });
+
+  it('should make the orchestration events reproducible', () => {
+    const orchestratorContract = createArvoOrchestratorContract({
+      uri: '#/test/providers/orchestrator',
+      name: 'test.providers',
+      versions: {
+        '1.0.0': {
+          init: z.object({ value: z.number() }),
+          complete: z.object({ value: z.number() }),
+        },
+      },
+    });
+    const createEvent = () =>
+      createArvoOrchestratorEventFactory(orchestratorContract.version('1.0.0'), {
+        clock: createManualArvoClock(0),
+        idGenerator: createSeededArvoIdGenerator('orchestrator'),
+      }).init({ source: 'com.test.service', data: { parentSubject$$: null, value: 1 } });
+    const first = createEvent();
+    expect(first.subject).toBe(createEvent().subject);
+    expect(first.id).toBe(createEvent().id);
+    expect(first.time).toBe('1970-01-01T00:00:00.000+00:00');
+  });
+});
@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { type ArvoEvent, InMemoryArvoEventBroker, createArvoContract, createArvoEventFactory } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('InMemoryArvoEventBroker', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const userContract = createArvoContract({
+    uri: '#/test/user',
+    type: 'com.user.create',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ name: z.string() }),
+        emits: { 'evt.user.created': z.object({ id: z.string() }) },
+      },
+    },
+  });
+  const notificationContract = createArvoContract({
+    uri: '#/test/notification',
+    type: 'com.notification.send',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ userId: z.string() }),
+        emits: { 'evt.notification.sent': z.object({ userId: z.string() }) },
+      },
+    },
+  });
+  const userFactory = createArvoEventFactory(userContract.version('1.0.0'));
+  const notificationFactory = createArvoEventFactory(notificationContract.version('1.0.0'));
+
+  const createUserEvent = (domain?: string) =>
+    userFactory.accepts({
+      source: 'com.test.client',
+      subject: 'test-subject',
+      data: { name: 'John' },
+      redirectto: 'com.notification.send',
+      domain,
+    });
+
+  const createBroker = () => {
+    const broker = new InMemoryArvoEventBroker();
+    broker.subscribe('com.user.create', (event) => {
+      if (event.type !== 'com.user.create') return;
+      return userFactory.respondTo(event).emits({ type: 'evt.user.created', data: { id: 'user-1' } });
+    });
+    broker.subscribe('com.notification.*', (event) => [
+      notificationFactory.respondTo(event).emits({
+        type: 'evt.notification.sent',
+        data: { userId: (event.data as { id: string }).id },
+      }),
+    ]);
+    return broker;
+  };
+
+  it('should route a multi-handler flow by the "to" field', async () => {
+    const broker = createBroker();
+    const event = createUserEvent();
+    await broker.publish(event);
+
+    expect(broker.events.map((item) => item.type)).toEqual([
+      'com.user.create',
+      'evt.user.created',
+      'evt.notification.sent',
+    ]);
+    expect(broker.history.map((item) => [item.sequence, item.event.type, item.subscriber, item.status])).toEqual([
+      [1, 'com.user.create', 'com.user.create', 'delivered'],
+      [2, 'evt.user.created', 'com.notification.*', 'delivered'],
+      [3, 'evt.notification.sent', 'com.user.create', 'delivered'],
+    ]);
+    const sent = await broker.waitFor('evt.notification.sent');
+    expect(sent.to).toBe('com.user.create');
+    expect(sent.subject).toBe(event.subject);
+  });
+
+  it('should resolve waitFor when the event is published later', async () => {
+    const broker = createBroker();
+    const waiting = broker.waitFor('evt.user.created');
+    await broker.publish(createUserEvent());
+    expect((await waiting).parentid).toBe(broker.events[0].id);
+    await expect(broker.waitFor('evt.unknown', 10)).rejects.toThrow(
+      "Timed out after 10ms waiting for an event of type 'evt.unknown'",
+    );
+  });
+
+  it('should filter the subscriptions by domain', async () => {
+    const broker = new InMemoryArvoEventBroker();
+    const received: (string | null)[] = [];
+    broker.subscribe(
+      'com.user.create',
+      (event) => {
+        received.push(event.domain);
+      },
+      { name: 'external', domains: ['external'] },
+    );
+    broker.subscribe(
+      '*',
+      (event) => {
+        received.push(`default:${event.domain}`);
+      },
+      { domains: [null] },
+    );
+
+    await broker.publish(createUserEvent('external'), createUserEvent());
+    expect(received).toEqual(['external', 'default:null']);
+  });
+
+  it('should record failed deliveries and continue processing', async () => {
+    const broker = new InMemoryArvoEventBroker();
+    broker.subscribe('com.user.create', () => {
+      throw new Error('Handler failed');
+    });
+    const handled: ArvoEvent[] = [];
+    broker.subscribe('com.user.*', async (event) => {
+      handled.push(event);
+    });
+    await broker.publish(createUserEvent());
+    expect(handled).toHaveLength(1);
+    expect(broker.history[0].status).toBe('failed');
+    expect(broker.history[0].error?.message).toBe('Handler failed');
+    expect(broker.history[1].status).toBe('delivered');
+  });
+
+  it('should queue the events published from within a handler', async () => {
+    const broker = new InMemoryArvoEventBroker();
+    broker.subscribe('com.user.create', async (event) => {
+      await broker.publish(userFactory.respondTo(event).emits({ type: 'evt.user.created', data: { id: '1' } }));
+    });
+    await broker.publish(createUserEvent());
+    await broker.drain();
+    expect(broker.events.map((item) => item.type)).toEqual(['com.user.create', 'evt.user.created']);
+  });
+
+  it('should wait for the in-flight processing when published from outside of a handler', async () => {
+    const broker = new InMemoryArvoEventBroker();
+    let release: () => void = () => undefined;
+    broker.subscribe(
+      'com.user.create',
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        }),
+    );
+    const first = broker.publish(createUserEvent());
+    let settled = false;
+    const second = broker
+      .publish(notificationFactory.accepts({ source: 'com.test.client', subject: 'test', data: { userId: '1' } }))
+      .then(() => {
+        settled = true;
+      });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(settled).toBe(false);
+    expect(broker.history).toHaveLength(0);
+
+    release();
+    await second;
+    expect(broker.history.map((item) => [item.event.type, item.status])).toEqual([
+      ['com.user.create', 'delivered'],
+      ['com.notification.send', 'unrouted'],
+    ]);
+    await first;
+  });
+
+  it('should stop the event flows which never settle', async () => {
+    const broker = new InMemoryArvoEventBroker({ maxEventsPerDrain: 5 });
+    broker.subscribe('com.user.create', (event) => event);
+    await expect(broker.publish(createUserEvent())).rejects.toThrow(
+      'The broker processed more than 5 events in a single drain',
+    );
+  });
+
+  it('should unsubscribe and clear the broker', async () => {
+    const broker = createBroker();
+    const unsubscribe = broker.subscribe('*', () => undefined, { name: 'all' });
+    unsubscribe();
+    await broker.publish(createUserEvent());
+    expect(broker.history.some((item) => item.subscriber === 'all')).toBe(false);
+    await broker.publish(
+      notificationFactory.accepts({
+        source: 'com.test.client',
+        subject: 'test',
+        to: 'com.unknown',
+        data: { userId: '1' },
+      }),
+    );
+    expect(broker.history.at(-1)?.status).toBe('unrouted');
+    expect(broker.history.at(-1)?.subscriber).toBe(null);
+    broker.clear();
+    expect(broker.events).toEqual([]);
+    expect(broker.history).toEqual([]);
+  });
+});
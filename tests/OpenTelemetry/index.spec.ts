@@ -0,0 +1,127 @@
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { ArvoOpenTelemetry } from '../../src';
+
+describe('ArvoOpenTelemetry', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+
+  beforeAll(() => {
+    ArvoOpenTelemetry.getInstance();
+    ArvoOpenTelemetry.reinitialize({ tracer: provider.getTracer('arvo-test'), force: true });
+  });
+
+  afterAll(() => {
+    ArvoOpenTelemetry.reinitialize({ tracer: trace.getTracer('arvo-instrumentation', '1.0.0'), force: true });
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  describe('startActiveSpan', () => {
+    it('should end the span synchronously for synchronous functions', () => {
+      const result = ArvoOpenTelemetry.getInstance().startActiveSpan({
+        name: 'sync.span',
+        fn: () => 42,
+      });
+      expect(result).toBe(42);
+      const spans = exporter.getFinishedSpans();
+      expect(spans.length).toBe(1);
+      expect(spans[0].name).toBe('sync.span');
+      expect(spans[0].status.code).toBe(SpanStatusCode.OK);
+    });
+
+    it('should record synchronous errors and end the span', () => {
+      expect(() =>
+        ArvoOpenTelemetry.getInstance().startActiveSpan({
+          name: 'sync.error',
+          fn: () => {
+            throw new Error('sync failure');
+          },
+        }),
+      ).toThrow('sync failure');
+      const spans = exporter.getFinishedSpans();
+      expect(spans.length).toBe(1);
+      expect(spans[0].status.code).toBe(SpanStatusCode.ERROR);
+      expect(spans[0].status.message).toBe('sync failure');
+      expect(spans[0].events.some((item) => item.name === 'exception')).toBe(true);
+    });
+
+    it('should keep the span open until a returned promise resolves', async () => {
+      let resolve: (value: string) => void = () => {};
+      const promise = ArvoOpenTelemetry.getInstance().startActiveSpan({
+        name: 'async.span',
+        fn: () =>
+          new Promise<string>((res) => {
+            resolve = res;
+          }),
+      });
+      expect(exporter.getFinishedSpans().length).toBe(0);
+      resolve('done');
+      expect(await promise).toBe('done');
+      const spans = exporter.getFinishedSpans();
+      expect(spans.length).toBe(1);
+      expect(spans[0].status.code).toBe(SpanStatusCode.OK);
+    });
+
+    it('should record promise rejections on the span', async () => {
+      await expect(
+        ArvoOpenTelemetry.getInstance().startActiveSpan({
+          name: 'async.error',
+          fn: async () => {
+            throw new Error('async failure');
+          },
+        }),
+      ).rejects.toThrow('async failure');
+      const spans = exporter.getFinishedSpans();
+      expect(spans.length).toBe(1);
+      expect(spans[0].status.code).toBe(SpanStatusCode.ERROR);
+      expect(spans[0].status.message).toBe('async failure');
+      expect(spans[0].attributes['exception.message']).toBe('async failure');
+    });
+
+    it('should not end the span when span management is disabled', async () => {
+      const span = await ArvoOpenTelemetry.getInstance().startActiveSpan({
+        name: 'manual.span',
+        disableSpanManagement: true,
+        fn: async (span) => span,
+      });
+      expect(exporter.getFinishedSpans().length).toBe(0);
+      span.end();
+      expect(exporter.getFinishedSpans().length).toBe(1);
+    });
+  });
+
+  describe('startActiveSpanAsync', () => {
+    it('should resolve the awaited value of the function', async () => {
+      const result: number = await ArvoOpenTelemetry.getInstance().startActiveSpanAsync({
+        name: 'async.wrapper',
+        fn: async () => 7,
+      });
+      expect(result).toBe(7);
+      expect(exporter.getFinishedSpans()[0].status.code).toBe(SpanStatusCode.OK);
+    });
+
+    it('should wrap synchronous values and errors into promises', async () => {
+      expect(
+        await ArvoOpenTelemetry.getInstance().startActiveSpanAsync({
+          name: 'sync.value',
+          fn: () => 'value',
+        }),
+      ).toBe('value');
+      await expect(
+        ArvoOpenTelemetry.getInstance().startActiveSpanAsync({
+          name: 'sync.throw',
+          fn: () => {
+            throw new Error('boom');
+          },
+        }),
+      ).rejects.toThrow('boom');
+      const spans = exporter.getFinishedSpans();
+      expect(spans.length).toBe(2);
+      expect(spans[1].status.code).toBe(SpanStatusCode.ERROR);
+    });
+  });
+});